@@ -21,7 +21,17 @@ import {
 import { RecommendationsList } from '../../components/RecommendationsList';
 import { CompliancePanel } from '../../components/CompliancePanel';
 import { MetadataSummary } from '../../components/MetadataSummary';
+import { RuleResultsPanel } from '../../components/RuleResultsPanel';
+import { BusinessRulesPanel } from '../../components/BusinessRulesPanel';
+import { ReferentialIntegrityPanel } from '../../components/ReferentialIntegrityPanel';
+import { DuplicateClustersPanel } from '../../components/DuplicateClustersPanel';
+import { CandidateKeysPanel } from '../../components/CandidateKeysPanel';
+import { FunctionalDependenciesPanel } from '../../components/FunctionalDependenciesPanel';
+import { StructuralValidityPanel } from '../../components/StructuralValidityPanel';
+import { TimeSeriesPanel } from '../../components/TimeSeriesPanel';
 import { getStoredDQIReport, type DQIReport } from '../../lib/dqiEngine';
+import { describeHours, type FreshnessResult } from '../../lib/freshness';
+import { describePeriod, type TimeSeriesResult } from '../../lib/timeSeries';
 import type { DQSummary, Role, DimensionScore } from '../../types/dqs';
 
 // Generate explanations based on scores
@@ -72,6 +82,11 @@ function convertDQIReportToSummary(report: DQIReport): DQSummary {
         name: d.name,
         score: d.score,
         explanation: explanation?.summary || `${d.name} score: ${d.score}%`,
+        findings: d.findings,
+        impactedColumns: Array.from(new Set(d.impactedColumns)),
+        custom: d.custom,
+        freshness: d.freshness,
+        timeSeries: d.timeSeries,
       };
     });
 
@@ -84,12 +99,25 @@ function convertDQIReportToSummary(report: DQIReport): DQSummary {
     action: r.remediation.split('.')[0] || 'Review',
   }));
 
+  const ruleResults = report.dimensions.find(d => d.id === 'validity')?.ruleResults;
+  const businessRules = report.dimensions.flatMap(d => d.businessRuleResults ?? []);
+  const nearDuplicates = report.dimensions.find(d => d.id === 'uniqueness')?.nearDuplicates;
+  const functionalDependencies = report.dimensions.find(d => d.id === 'consistency')?.functionalDependencies;
+  const timeSeries = report.dimensions.find(d => d.id === 'timeliness')?.timeSeries;
+
   // Extract column stats from schema
   const columnStats = report.datasetMetadata.schema.map(col => ({
     name: col.name,
     completeness: Math.round((1 - col.nullRatio) * 100),
     uniqueCount: Math.round(col.uniqueRatio * report.datasetMetadata.rowCount),
     dataType: col.inferredType,
+    missing: col.missing,
+    currency: col.currency,
+    dateFormat: col.dateFormat,
+    statistics: col.statistics,
+    topValues: col.topValues,
+    lengths: col.lengths,
+    entropy: col.entropy,
   }));
 
   return {
@@ -106,12 +134,36 @@ function convertDQIReportToSummary(report: DQIReport): DQSummary {
       fileName: report.datasetMetadata.fileName,
       duplicates: report.datasetMetadata.statisticalSummary.duplicateRows,
       columnStats,
+      parsing: report.datasetMetadata.parsing,
+      dialect: report.datasetMetadata.dialect,
+      workbook: report.datasetMetadata.workbook,
+      json: report.datasetMetadata.json,
+      parquet: report.datasetMetadata.parquet,
+      processing: report.datasetMetadata.processing,
+      missingValueRules: report.datasetMetadata.missingValues,
+      numberFormat: report.datasetMetadata.numberFormat,
     },
+    structuralValidity: report.structuralValidity,
+    validationRules: ruleResults ? { name: report.datasetMetadata.validationRules?.name, results: ruleResults } : undefined,
+    businessRules: businessRules.length > 0 ? businessRules : undefined,
+    referentialIntegrity: report.datasetMetadata.referenceTables
+      ? { tables: report.datasetMetadata.referenceTables, relationships: report.datasetMetadata.referentialIntegrity ?? [] }
+      : undefined,
+    keys: report.datasetMetadata.candidateKeys
+      ? { discovery: report.datasetMetadata.candidateKeys, primaryKey: report.datasetMetadata.primaryKey }
+      : undefined,
+    functionalDependencies,
+    timeSeries,
+    nearDuplicates: nearDuplicates ? { summary: nearDuplicates, config: report.datasetMetadata.duplicateDetection } : undefined,
+    domainPack: report.auditTrail.domainPack,
     audit: {
       hash: '0x' + report.datasetMetadata.dataHash.substring(0, 40),
       evaluatedAt: report.auditTrail.timestamp,
       policies: ['Data Completeness Policy', 'Format Validation Rules', 'Duplicate Detection Policy', 'Privacy Protection Policy'],
       modelVersion: report.auditTrail.engineVersion,
+      scoringProfile: report.auditTrail.scoringProfile
+        ? `${report.auditTrail.scoringProfile.name} v${report.auditTrail.scoringProfile.version}`
+        : undefined,
     },
     qualityGrade: report.compositeDQS.grade,
     complianceStatus: report.complianceStatus,
@@ -203,26 +255,62 @@ const ConsistencyRadialChart: React.FC<{ score: number }> = ({ score }) => {
   );
 };
 
-const TimelinessAreaChart: React.FC<{ score: number }> = ({ score }) => {
-  const data = [
-    { time: 'Week 1', latency: 100 - score + 5 },
-    { time: 'Week 2', latency: 100 - score + 10 },
-    { time: 'Week 3', latency: 100 - score },
-    { time: 'Week 4', latency: 100 - score - 5 },
-  ];
+// Rows per period of the chosen time-series column, flagged periods marked
+const TimeSeriesAreaChart: React.FC<{ series: TimeSeriesResult }> = ({ series }) => {
+  const data = series.periods.map(p => ({
+    period: describePeriod(p.start, series.granularity),
+    rows: p.rows,
+    flagged: p.flags ? p.rows : undefined,
+  }));
   return (
     <ResponsiveContainer width="100%" height={160}>
       <AreaChart data={data}>
         <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-        <XAxis dataKey="time" tick={{ fontSize: 10 }} />
+        <XAxis dataKey="period" tick={{ fontSize: 10 }} minTickGap={16} />
         <YAxis tick={{ fontSize: 10 }} />
         <Tooltip />
-        <Area type="monotone" dataKey="latency" stroke={COLORS.amber} fill="#fef3c7" strokeWidth={2} />
+        <Area type="monotone" dataKey="rows" stroke={COLORS.amber} fill="#fef3c7" strokeWidth={2} />
+        <Area type="monotone" dataKey="flagged" stroke="none" fill="none" dot={{ fill: COLORS.red, r: 2 }} />
       </AreaChart>
     </ResponsiveContainer>
   );
 };
 
+// Dates per latency bucket, one area per measured date column
+const TimelinessAreaChart: React.FC<{ freshness: FreshnessResult }> = ({ freshness }) => {
+  const columns = freshness.columns.filter(c => c.latency).slice(0, 3);
+  const colors = [COLORS.amber, COLORS.blue, COLORS.purple];
+  const data = (columns[0]?.buckets ?? []).map((bucket, i) => ({
+    latency: bucket.label,
+    ...Object.fromEntries(columns.map(c => [c.column, c.buckets[i].count])),
+  }));
+  if (columns.length === 0) {
+    return (
+      <div className="flex items-center justify-center text-xs" style={{ height: 160, color: '#64748b' }}>
+        No dates could be measured against {freshness.reference}
+      </div>
+    );
+  }
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={140}>
+        <AreaChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+          <XAxis dataKey="latency" tick={{ fontSize: 10 }} />
+          <YAxis tick={{ fontSize: 10 }} />
+          <Tooltip />
+          {columns.map((c, i) => (
+            <Area key={c.column} type="monotone" dataKey={c.column} stroke={colors[i]} fill={colors[i]} fillOpacity={0.15} strokeWidth={2} />
+          ))}
+        </AreaChart>
+      </ResponsiveContainer>
+      <div className="truncate text-[10px]" style={{ color: '#64748b' }}>
+        {columns.map(c => `${c.column} to ${c.reference}: median ${describeHours(c.latency!.medianHours)}, p95 ${describeHours(c.latency!.p95Hours)}${c.future > 0 ? `, ${c.future} future` : ''}`).join(' · ')}
+      </div>
+    </div>
+  );
+};
+
 const UniquenessDonutChart: React.FC<{ score: number }> = ({ score }) => {
   const data = [
     { name: 'Unique', value: score },
@@ -282,21 +370,46 @@ const IntegrityLineChart: React.FC<{ score: number }> = ({ score }) => {
   );
 };
 
+// Any dimension without a dedicated chart, including custom ones
+const GenericDimensionChart: React.FC<{ dim: DimensionScore }> = ({ dim }) => {
+  const findings = dim.findings ?? [];
+  return (
+    <div className="flex flex-col justify-center gap-3" style={{ height: 160 }}>
+      <div className="h-3 w-full rounded-full" style={{ background: '#e2e8f0' }}>
+        <div className="h-3 rounded-full" style={{ width: `${dim.score}%`, background: getScoreColor(dim.score) }} />
+      </div>
+      <div className="text-xs" style={{ color: '#64748b' }}>
+        {findings.length === 0 ? 'No issues found' : `${findings.length} finding${findings.length === 1 ? '' : 's'}`}
+      </div>
+      {findings.slice(0, 2).map((finding, idx) => (
+        <div key={idx} className="truncate text-xs" style={{ color: '#475569' }} title={finding}>
+          {finding}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 // Chart renderer for each dimension
 const renderDimensionChart = (dim: DimensionScore) => {
   switch (dim.id) {
     case 'completeness': return <CompletnessPieChart score={dim.score} />;
     case 'accuracy': return <AccuracyBarChart score={dim.score} />;
     case 'consistency': return <ConsistencyRadialChart score={dim.score} />;
-    case 'timeliness': return <TimelinessAreaChart score={dim.score} />;
+    case 'timeliness':
+      // Latency stays on the card; the full series has its own panel
+      if (dim.freshness?.columns.some(c => c.latency)) return <TimelinessAreaChart freshness={dim.freshness} />;
+      if (dim.timeSeries) return <TimeSeriesAreaChart series={dim.timeSeries} />;
+      return dim.freshness ? <TimelinessAreaChart freshness={dim.freshness} /> : <GenericDimensionChart dim={dim} />;
     case 'uniqueness': return <UniquenessDonutChart score={dim.score} />;
     case 'validity': return <ValidityGaugeChart score={dim.score} />;
     case 'integrity': return <IntegrityLineChart score={dim.score} />;
-    default: return null;
+    default: return <GenericDimensionChart dim={dim} />;
   }
 };
 
-const getChartType = (id: string) => {
+const getChartType = (dim: DimensionScore) => {
+  if (dim.custom) return 'Custom Dimension';
   const types: Record<string, string> = {
     completeness: 'Donut Chart',
     accuracy: 'Bar Chart',
@@ -306,7 +419,7 @@ const getChartType = (id: string) => {
     validity: 'Gauge Chart',
     integrity: 'Line Chart',
   };
-  return types[id] || 'Chart';
+  return types[dim.id] || 'Score Bar';
 };
 
 // Trend data (will be based on current score)
@@ -398,6 +511,15 @@ export default function Dashboard() {
               <p className="hidden text-xs text-slate-300 sm:block">
                 Data Quality Analysis Results · {summary.timestamp}
               </p>
+              {summary.domainPack && (
+                <span
+                  className="mt-1 inline-block rounded-full px-2 py-0.5 text-[10px] font-semibold sm:text-xs"
+                  style={{ background: 'rgba(255,255,255,0.15)', color: '#e2e8f0' }}
+                  title={summary.domainPack.description}
+                >
+                  Domain pack: {summary.domainPack.name} v{summary.domainPack.version}
+                </span>
+              )}
             </div>
             {/* Mobile score badge */}
             <div
@@ -584,6 +706,32 @@ export default function Dashboard() {
                   </div>
                 )}
               </div>
+
+              {summary.structuralValidity && (
+                <StructuralValidityPanel structure={summary.structuralValidity} />
+              )}
+              {summary.validationRules && (
+                <RuleResultsPanel results={summary.validationRules.results} ruleSetName={summary.validationRules.name} />
+              )}
+              {summary.businessRules && (
+                <BusinessRulesPanel results={summary.businessRules} />
+              )}
+              {summary.referentialIntegrity && (
+                <ReferentialIntegrityPanel
+                  tables={summary.referentialIntegrity.tables}
+                  relationships={summary.referentialIntegrity.relationships}
+                />
+              )}
+              {summary.keys && (
+                <CandidateKeysPanel discovery={summary.keys.discovery} primaryKey={summary.keys.primaryKey} />
+              )}
+              {summary.functionalDependencies && (
+                <FunctionalDependenciesPanel result={summary.functionalDependencies} />
+              )}
+              {summary.nearDuplicates && (
+                <DuplicateClustersPanel summary={summary.nearDuplicates.summary} config={summary.nearDuplicates.config} />
+              )}
+              {summary.timeSeries && <TimeSeriesPanel series={summary.timeSeries} />}
             </section>
           )}
 
@@ -614,7 +762,7 @@ export default function Dashboard() {
                         {dim.score}%
                       </span>
                     </div>
-                    <div className="mb-2 text-xs" style={{ color: '#94a3b8' }}>{getChartType(dim.id)}</div>
+                    <div className="mb-2 text-xs" style={{ color: '#94a3b8' }}>{getChartType(dim)}</div>
                     {renderDimensionChart(dim)}
                   </button>
                 ))}
@@ -632,20 +780,22 @@ export default function Dashboard() {
                   <p className="text-xs leading-relaxed sm:text-sm" style={{ color: '#4338ca' }}>
                     {selectedDimData.explanation}
                   </p>
-                  <div className="mt-3 sm:mt-4">
-                    <span className="text-xs font-medium" style={{ color: '#6366f1' }}>Impacted Fields:</span>
-                    <div className="mt-2 flex flex-wrap gap-1.5 sm:gap-2">
-                      {['kyc_address', 'transaction_date', 'merchant_id', 'amount'].map((f) => (
-                        <span
-                          key={f}
-                          className="rounded-full px-2 py-0.5 text-xs font-medium sm:px-3 sm:py-1"
-                          style={{ background: '#c7d2fe', color: '#3730a3' }}
-                        >
-                          {f}
-                        </span>
-                      ))}
+                  {selectedDimData.impactedColumns && selectedDimData.impactedColumns.length > 0 && (
+                    <div className="mt-3 sm:mt-4">
+                      <span className="text-xs font-medium" style={{ color: '#6366f1' }}>Impacted Fields:</span>
+                      <div className="mt-2 flex flex-wrap gap-1.5 sm:gap-2">
+                        {selectedDimData.impactedColumns.map((f) => (
+                          <span
+                            key={f}
+                            className="rounded-full px-2 py-0.5 text-xs font-medium sm:px-3 sm:py-1"
+                            style={{ background: '#c7d2fe', color: '#3730a3' }}
+                          >
+                            {f}
+                          </span>
+                        ))}
+                      </div>
                     </div>
-                  </div>
+                  )}
                 </div>
               )}
             </section>
@@ -728,6 +878,7 @@ export default function Dashboard() {
                 evaluatedAt={summary.audit.evaluatedAt}
                 policies={summary.audit.policies}
                 modelVersion={summary.audit.modelVersion}
+                scoringProfile={summary.audit.scoringProfile}
               />
             </section>
           )}
@@ -747,6 +898,14 @@ export default function Dashboard() {
                 fileName={summary.metadata.fileName}
                 duplicates={summary.metadata.duplicates}
                 columnStats={summary.metadata.columnStats}
+                parsing={summary.metadata.parsing}
+                dialect={summary.metadata.dialect}
+                workbook={summary.metadata.workbook}
+                json={summary.metadata.json}
+                parquet={summary.metadata.parquet}
+                processing={summary.metadata.processing}
+                missingValueRules={summary.metadata.missingValueRules}
+                numberFormat={summary.metadata.numberFormat}
               />
             </section>
           )}
@@ -3,7 +3,40 @@
 import React from 'react';
 import { useRouter } from 'next/navigation';
 import { MdInsights, MdSecurity, MdSpeed, MdAutoAwesome } from 'react-icons/md';
-import { analyzeDQI, storeDQIReport } from '../lib/dqiEngine';
+import { getStoredDQIReport, storeDQIReport } from '../lib/dqiEngine';
+import { describeProgress, isAnalysisCancelled, startAnalysis, type AnalysisTask } from '../lib/analysisClient';
+import {
+  detectFileDialect,
+  DELIMITER_LABELS,
+  ENCODING_LABELS,
+  type CSVDialect,
+  type DialectInfo,
+  type TextEncoding,
+} from '../lib/dialectDetection';
+import { isExcelFile, listWorkbookSheets, type ExcelOptions, type WorkbookSheetInfo } from '../lib/excelReader';
+import { isJSONFile } from '../lib/jsonReader';
+import {
+  DEFAULT_NULL_TOKENS,
+  parseColumnSentinels,
+  parseTokenList,
+  type MissingValueOptions,
+} from '../lib/missingValues';
+import type { CandidateKey } from '../lib/candidateKeys';
+import { countRules, parseRuleFile, type ColumnRuleSet } from '../lib/columnRules';
+import type { DateOrder } from '../lib/dateParsing';
+import { DEFAULT_DOMAIN_PACK_ID, listDomainPacks, parseDomainPackFile, type DomainPack } from '../lib/domainPacks';
+import type { NumberFormat } from '../lib/numberParsing';
+import { isParquetFile } from '../lib/parquetReader';
+import type { NearDuplicateOptions, TimePrecision } from '../lib/nearDuplicates';
+import { OUTLIER_METHODS, parseOutlierColumns, type OutlierMethod, type OutlierOptions } from '../lib/outliers';
+import { parseFreshnessSLAs, type FreshnessOptions } from '../lib/freshness';
+import type { TimeGranularity, TimeSeriesOptions } from '../lib/timeSeries';
+import { parseRelationshipList, type ReferenceOptions } from '../lib/referentialIntegrity';
+import { DEFAULT_SCORING_PROFILE_ID, listScoringProfiles } from '../lib/scoringProfiles';
+
+const SCORING_PROFILES = listScoringProfiles();
+const DOMAIN_PACKS = listDomainPacks();
+const LOADED_PACK = '__file'; // Select value for a pack loaded from a file, whose id may repeat a built-in one
 
 /**
  * Landing Page: Secure Data Input Panel
@@ -18,15 +51,198 @@ export default function Home() {
   const [selectedFile, setSelectedFile] = React.useState<File | null>(null);
   const [error, setError] = React.useState<string | null>(null);
   const [progress, setProgress] = React.useState<string>('');
+  const [progressPercent, setProgressPercent] = React.useState(0);
+  const analysisRef = React.useRef<AnalysisTask | null>(null);
+  // File the sheet list and dialect detection belong to; results for a file no longer selected are dropped
+  const currentFileRef = React.useRef<File | null>(null);
+  const [detectedDialect, setDetectedDialect] = React.useState<DialectInfo | null>(null);
+  const [dialectOverrides, setDialectOverrides] = React.useState<Partial<CSVDialect>>({});
+  const [sheets, setSheets] = React.useState<WorkbookSheetInfo[] | null>(null);
+  const [excelOptions, setExcelOptions] = React.useState<ExcelOptions>({});
+  // Raw form text; kept across file changes since it describes the data conventions, not one file
+  const [missingValueInputs, setMissingValueInputs] = React.useState({
+    nullTokens: '',
+    sentinels: '',
+    emptyStrings: '' as '' | 'null' | 'distinct',
+    columnSentinels: '',
+  });
+  const [numberFormat, setNumberFormat] = React.useState<Partial<NumberFormat>>({});
+  const [dateOrder, setDateOrder] = React.useState<DateOrder | ''>('');
+  // Kept across file changes, like the missing value rules
+  const [ruleFile, setRuleFile] = React.useState<{ name: string; rules: ColumnRuleSet } | null>(null);
+  const [ruleError, setRuleError] = React.useState<string | null>(null);
+  const [referenceFiles, setReferenceFiles] = React.useState<File[]>([]);
+  const [scoringProfile, setScoringProfile] = React.useState(DEFAULT_SCORING_PROFILE_ID);
+  const [domainPack, setDomainPack] = React.useState(DEFAULT_DOMAIN_PACK_ID);
+  const [loadedPack, setLoadedPack] = React.useState<DomainPack | null>(null);
+  const [packError, setPackError] = React.useState<string | null>(null);
+  const [relationshipText, setRelationshipText] = React.useState('');
+  const [suggestRelationships, setSuggestRelationships] = React.useState(true);
+  // Tied to the file: candidate keys come from the last analysis of a file with the same name
+  const [primaryKeyText, setPrimaryKeyText] = React.useState('');
+  const [suggestedKeys, setSuggestedKeys] = React.useState<CandidateKey[]>([]);
+  const [outlierInputs, setOutlierInputs] = React.useState({
+    method: 'stddev' as OutlierMethod,
+    k: '',
+    columns: '',
+  });
+  const [freshnessInputs, setFreshnessInputs] = React.useState({
+    referenceKind: 'analysis' as 'analysis' | 'timestamp' | 'column',
+    reference: '',
+    staleAfterDays: '',
+    slas: '',
+  });
+  const [timeSeriesInputs, setTimeSeriesInputs] = React.useState({
+    column: '',
+    granularity: 'auto' as TimeGranularity | 'auto',
+    amountColumn: '',
+    threshold: '40',
+  });
+  const [nearDuplicateInputs, setNearDuplicateInputs] = React.useState({
+    enabled: true,
+    ignoreColumns: '',
+    blockingColumns: '',
+    threshold: '0.9',
+    timePrecision: 'minute' as TimePrecision,
+  });
+  const isExcel = selectedFile ? isExcelFile(selectedFile) : false;
+  const isCSV = selectedFile ? !isExcelFile(selectedFile) && !isJSONFile(selectedFile) && !isParquetFile(selectedFile) : false;
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
+      currentFileRef.current = file;
       setSelectedFile(file);
       setError(null);
+      setDialectOverrides({});
+      setDetectedDialect(null);
+      setSheets(null);
+      setExcelOptions({});
+      const previous = getStoredDQIReport()?.datasetMetadata;
+      const sameFile = previous?.fileName === file.name;
+      setSuggestedKeys(sameFile ? previous.candidateKeys?.keys ?? [] : []);
+      setPrimaryKeyText(sameFile && previous.primaryKey ? previous.primaryKey.columns.join(', ') : '');
+      const isCurrent = () => currentFileRef.current === file;
+      if (isExcelFile(file)) {
+        listWorkbookSheets(file)
+          .then(found => {
+            if (isCurrent()) setSheets(found);
+          })
+          .catch(() => {
+            if (isCurrent()) setError('Could not read workbook. Please ensure it is a valid Excel file.');
+          });
+      } else if (!isJSONFile(file) && !isParquetFile(file)) {
+        detectFileDialect(file)
+          .then(dialect => {
+            if (isCurrent()) setDetectedDialect(dialect);
+          })
+          .catch(err => {
+            if (isCurrent()) setError(`Could not detect the file's delimiter and encoding: ${err instanceof Error ? err.message : String(err)}`);
+          });
+      }
     }
   };
 
+  const handleRuleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+      .then(text => {
+        setRuleFile({ name: file.name, rules: parseRuleFile(text, file.name) });
+        setRuleError(null);
+      })
+      .catch(err => {
+        setRuleFile(null);
+        setRuleError(err instanceof Error ? err.message : 'Could not read rules file');
+      });
+  };
+
+  const handlePackFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    file.text()
+      .then(text => {
+        setLoadedPack(parseDomainPackFile(text, file.name));
+        setDomainPack(LOADED_PACK);
+        setPackError(null);
+      })
+      .catch(err => {
+        setPackError(err instanceof Error ? err.message : 'Could not read domain pack file');
+      });
+  };
+
+  const handleReferenceFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    // A table added again under the same name replaces the earlier one
+    setReferenceFiles(prev => [...prev.filter(f => !files.some(added => added.name === f.name)), ...files]);
+  };
+
+  const handleRemoveFile = () => {
+    currentFileRef.current = null;
+    setSelectedFile(null);
+    setDetectedDialect(null);
+    setDialectOverrides({});
+    setSheets(null);
+    setExcelOptions({});
+    setSuggestedKeys([]);
+    setPrimaryKeyText('');
+  };
+
+  // Select values use '' for "Auto"; anything else overrides detection
+  const updateDialectOverride = <K extends keyof CSVDialect>(key: K, value: CSVDialect[K] | undefined) => {
+    setDialectOverrides(prev => ({ ...prev, [key]: value }));
+  };
+
+  const autoLabel = (value?: string | null) => (value ? `Auto (${value})` : 'Auto');
+
+  // Empty fields fall back to the engine defaults
+  const buildMissingValueOptions = (): MissingValueOptions => ({
+    nullTokens: missingValueInputs.nullTokens.trim() ? parseTokenList(missingValueInputs.nullTokens) : undefined,
+    sentinels: missingValueInputs.sentinels.trim() ? parseTokenList(missingValueInputs.sentinels) : undefined,
+    emptyStrings: missingValueInputs.emptyStrings || undefined,
+    columns: parseColumnSentinels(missingValueInputs.columnSentinels),
+  });
+
+  const buildReferenceOptions = (): ReferenceOptions | undefined => referenceFiles.length > 0
+    ? { tables: referenceFiles, relationships: parseRelationshipList(relationshipText), suggest: suggestRelationships }
+    : undefined;
+
+  const buildNearDuplicateOptions = (): NearDuplicateOptions => ({
+    enabled: nearDuplicateInputs.enabled,
+    ignoreColumns: parseTokenList(nearDuplicateInputs.ignoreColumns),
+    blockingColumns: parseTokenList(nearDuplicateInputs.blockingColumns),
+    similarityThreshold: nearDuplicateInputs.threshold.trim() ? Number(nearDuplicateInputs.threshold) : undefined,
+    timePrecision: nearDuplicateInputs.timePrecision,
+  });
+
+  const buildOutlierOptions = (): OutlierOptions => ({
+    default: { method: outlierInputs.method, k: outlierInputs.k.trim() ? Number(outlierInputs.k) : undefined },
+    columns: parseOutlierColumns(outlierInputs.columns),
+  });
+
+  const buildFreshnessOptions = (): FreshnessOptions => {
+    const reference = freshnessInputs.reference.trim();
+    return {
+      reference: freshnessInputs.referenceKind === 'analysis' || !reference
+        ? undefined
+        : freshnessInputs.referenceKind === 'column' ? { column: reference } : { timestamp: reference },
+      staleAfterDays: freshnessInputs.staleAfterDays.trim() ? Number(freshnessInputs.staleAfterDays) : undefined,
+      slas: parseFreshnessSLAs(freshnessInputs.slas),
+    };
+  };
+
+  const buildTimeSeriesOptions = (): TimeSeriesOptions | undefined => timeSeriesInputs.column.trim()
+    ? {
+      column: timeSeriesInputs.column.trim(),
+      granularity: timeSeriesInputs.granularity,
+      amountColumn: timeSeriesInputs.amountColumn.trim() || undefined,
+      threshold: timeSeriesInputs.threshold.trim() ? Number(timeSeriesInputs.threshold) / 100 : undefined,
+    }
+    : undefined;
+
   const handleAnalyze = async () => {
     if (!selectedFile) {
       setError('Please select a file to analyze');
@@ -35,33 +251,49 @@ export default function Home() {
 
     setIsAnalyzing(true);
     setError(null);
-    setProgress('Extracting metadata from file...');
+    setProgress('Reading file...');
+    setProgressPercent(0);
 
     try {
-      // Client-side DQI analysis - no data leaves the browser
-      await new Promise(resolve => setTimeout(resolve, 300));
-      setProgress('Analyzing data quality dimensions...');
-      
-      const report = await analyzeDQI(selectedFile);
-      
-      setProgress('Generating recommendations...');
-      await new Promise(resolve => setTimeout(resolve, 300));
+      // Client-side DQI analysis in a background worker - no data leaves the browser
+      const task = startAnalysis(
+        selectedFile,
+        { dialect: dialectOverrides, excel: excelOptions, missingValues: buildMissingValueOptions(), numberFormat, dateOrder: dateOrder || undefined, rules: ruleFile?.rules, references: buildReferenceOptions(), outliers: buildOutlierOptions(), freshness: buildFreshnessOptions(), timeSeries: buildTimeSeriesOptions(), nearDuplicates: buildNearDuplicateOptions(), primaryKey: primaryKeyText.trim() ? parseTokenList(primaryKeyText) : undefined, scoringProfile, domainPack: domainPack === LOADED_PACK && loadedPack ? loadedPack : domainPack },
+        (update) => {
+          setProgress(describeProgress(update));
+          setProgressPercent(update.percent);
+        }
+      );
+      analysisRef.current = task;
+      const report = await task.result;
       
       setProgress('Storing results locally...');
       storeDQIReport(report);
       
       setProgress('Redirecting to dashboard...');
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
       router.push('/dashboard');
     } catch (err) {
-      console.error('Analysis failed:', err);
-      setError(err instanceof Error ? err.message : 'Failed to analyze file. Please ensure it is a valid CSV file.');
+      if (isAnalysisCancelled(err)) {
+        setError(null);
+      } else {
+        console.error('Analysis failed:', err);
+        setError(err instanceof Error ? err.message : 'Failed to analyze file. Please ensure it is a valid CSV, Excel, JSON or Parquet file.');
+      }
       setIsAnalyzing(false);
       setProgress('');
+      setProgressPercent(0);
+    } finally {
+      analysisRef.current = null;
     }
   };
 
+  const handleCancel = () => {
+    analysisRef.current?.cancel();
+  };
+
+  // Stop a running worker if the user navigates away mid-analysis
+  React.useEffect(() => () => analysisRef.current?.cancel(), []);
+
   return (
     <div className="flex min-h-screen ">
       {/* Left Side - Branding */}
@@ -227,7 +459,7 @@ export default function Home() {
                         </p>
                         <button
                           type="button"
-                          onClick={() => setSelectedFile(null)}
+                          onClick={handleRemoveFile}
                           className="mt-3 text-xs font-medium text-red-500 hover:underline"
                         >
                           Remove file
@@ -240,12 +472,12 @@ export default function Home() {
                         </div>
                         <input
                           type="file"
-                          accept=".csv"
+                          accept=".csv,.xlsx,.xlsm,.xls,.json,.ndjson,.jsonl,.parquet"
                           onChange={handleFileChange}
                           className="text-sm"
                         />
                         <p className=" text-xs" style={{ color: '#94a3b8' }}>
-                          Supports CSV files
+                          Supports CSV, Excel, JSON / NDJSON and Parquet files
                         </p>
                       </>
                     )}
@@ -253,6 +485,680 @@ export default function Home() {
                 </div>
               )}
 
+              {/* Excel Sheet Selection */}
+              {sourceType.startsWith('File') && selectedFile && isExcel && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-3 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Workbook
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-xs" style={{ color: '#475569' }}>
+                    <label className="flex flex-col gap-1">
+                      Sheet
+                      <select
+                        value={excelOptions.sheetName ?? ''}
+                        onChange={(e) => setExcelOptions(prev => ({ ...prev, sheetName: e.target.value || undefined }))}
+                        disabled={!sheets}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="">{sheets ? `First sheet (${sheets[0]?.name ?? '—'})` : 'Loading sheets...'}</option>
+                        {sheets?.map((sheet) => (
+                          <option key={sheet.name} value={sheet.name}>
+                            {sheet.name} ({sheet.rowCount} × {sheet.columnCount})
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Header Row
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="Auto (first used row)"
+                        value={excelOptions.headerRow ?? ''}
+                        onChange={(e) => setExcelOptions(prev => ({
+                          ...prev,
+                          headerRow: e.target.value ? Math.max(1, parseInt(e.target.value, 10)) : undefined,
+                        }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {/* CSV Format Overrides */}
+              {sourceType.startsWith('File') && selectedFile && isCSV && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-3 text-sm font-semibold" style={{ color: '#334155' }}>
+                    CSV Format
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-xs" style={{ color: '#475569' }}>
+                    <label className="flex flex-col gap-1">
+                      Delimiter
+                      <select
+                        value={dialectOverrides.delimiter ?? ''}
+                        onChange={(e) => updateDialectOverride('delimiter', e.target.value || undefined)}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="">{autoLabel(detectedDialect && DELIMITER_LABELS[detectedDialect.detected.delimiter])}</option>
+                        {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                          <option key={label} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Quote Character
+                      <select
+                        value={dialectOverrides.quoteChar ?? ''}
+                        onChange={(e) => updateDialectOverride('quoteChar', e.target.value || undefined)}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="">{autoLabel(detectedDialect?.detected.quoteChar)}</option>
+                        <option value={'"'}>&quot;</option>
+                        <option value="'">&apos;</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Header Row
+                      <select
+                        value={dialectOverrides.hasHeader === undefined ? '' : String(dialectOverrides.hasHeader)}
+                        onChange={(e) => updateDialectOverride('hasHeader', e.target.value === '' ? undefined : e.target.value === 'true')}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="">{autoLabel(detectedDialect ? (detectedDialect.detected.hasHeader ? 'Yes' : 'No') : undefined)}</option>
+                        <option value="true">Yes</option>
+                        <option value="false">No</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Encoding
+                      <select
+                        value={dialectOverrides.encoding ?? ''}
+                        onChange={(e) => updateDialectOverride('encoding', (e.target.value || undefined) as TextEncoding | undefined)}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="">{autoLabel(detectedDialect && ENCODING_LABELS[detectedDialect.detected.encoding])}</option>
+                        {(Object.entries(ENCODING_LABELS) as [TextEncoding, string][]).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {/* Number & Date Format */}
+              {sourceType.startsWith('File') && selectedFile && !isParquetFile(selectedFile) && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-3 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Number &amp; Date Format
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-xs md:grid-cols-3" style={{ color: '#475569' }}>
+                    <label className="flex flex-col gap-1">
+                      Decimal Separator
+                      <select
+                        value={numberFormat.decimalSeparator ?? ''}
+                        onChange={(e) => setNumberFormat(prev => ({
+                          ...prev,
+                          decimalSeparator: (e.target.value || undefined) as NumberFormat['decimalSeparator'] | undefined,
+                        }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="">Auto</option>
+                        <option value=".">Point (1,234.56)</option>
+                        <option value=",">Comma (1.234,56)</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Thousands Separator
+                      <select
+                        value={numberFormat.thousandsSeparator === undefined ? 'auto' : numberFormat.thousandsSeparator}
+                        onChange={(e) => setNumberFormat(prev => ({
+                          ...prev,
+                          thousandsSeparator: e.target.value === 'auto' ? undefined : e.target.value as NumberFormat['thousandsSeparator'],
+                        }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="auto">Auto</option>
+                        <option value=",">Comma</option>
+                        <option value=".">Point</option>
+                        <option value=" ">Space</option>
+                        <option value="'">Apostrophe</option>
+                        <option value="">None</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Ambiguous Dates
+                      <select
+                        value={dateOrder}
+                        onChange={(e) => setDateOrder(e.target.value as DateOrder | '')}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                        title="Used only when no value in a column shows which part is the day"
+                      >
+                        <option value="">Auto (month first)</option>
+                        <option value="MDY">Month first (03/04 = Mar 4)</option>
+                        <option value="DMY">Day first (03/04 = 3 Apr)</option>
+                      </select>
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {/* Missing Value Rules */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-3 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Missing Values
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-xs" style={{ color: '#475569' }}>
+                    <label className="col-span-2 flex flex-col gap-1">
+                      Null Tokens
+                      <input
+                        type="text"
+                        placeholder={`Default (${DEFAULT_NULL_TOKENS.join(', ')})`}
+                        value={missingValueInputs.nullTokens}
+                        onChange={(e) => setMissingValueInputs(prev => ({ ...prev, nullTokens: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Sentinel Values
+                      <input
+                        type="text"
+                        placeholder="e.g. 9999-12-31, -1"
+                        value={missingValueInputs.sentinels}
+                        onChange={(e) => setMissingValueInputs(prev => ({ ...prev, sentinels: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Blank Values
+                      <select
+                        value={missingValueInputs.emptyStrings}
+                        onChange={(e) => setMissingValueInputs(prev => ({ ...prev, emptyStrings: e.target.value as '' | 'null' | 'distinct' }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="">{autoLabel(isCSV || isExcel ? 'Null' : 'Empty string')}</option>
+                        <option value="null">Null</option>
+                        <option value="distinct">Empty string</option>
+                      </select>
+                    </label>
+                    <label className="col-span-2 flex flex-col gap-1">
+                      Column Sentinels
+                      <textarea
+                        rows={2}
+                        placeholder={'One column per line, e.g.\nexpiry_date: 9999-12-31'}
+                        value={missingValueInputs.columnSentinels}
+                        onChange={(e) => setMissingValueInputs(prev => ({ ...prev, columnSentinels: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5 font-mono"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {/* Scoring Profile */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <label className="flex flex-col gap-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Scoring Profile
+                    <select
+                      value={scoringProfile}
+                      onChange={(e) => setScoringProfile(e.target.value)}
+                      className="rounded-lg border px-2 py-1.5 text-xs font-normal"
+                      style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                    >
+                      {SCORING_PROFILES.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name} (v{profile.version})</option>
+                      ))}
+                    </select>
+                  </label>
+                  <p className="mt-2 text-xs" style={{ color: '#64748b' }}>
+                    {SCORING_PROFILES.find(p => p.id === scoringProfile)?.description ??
+                      'Weights, penalties, grade cutoffs and compliance thresholds used for scoring.'}
+                  </p>
+                </div>
+              )}
+
+              {/* Domain Pack */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <label className="flex flex-col gap-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Domain Pack
+                    <select
+                      value={domainPack}
+                      onChange={(e) => setDomainPack(e.target.value)}
+                      className="rounded-lg border px-2 py-1.5 text-xs font-normal"
+                      style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                    >
+                      {DOMAIN_PACKS.map(pack => (
+                        <option key={pack.id} value={pack.id}>{pack.name} (v{pack.version})</option>
+                      ))}
+                      {loadedPack && (
+                        <option value={LOADED_PACK}>{loadedPack.name} (v{loadedPack.version}, from file)</option>
+                      )}
+                    </select>
+                  </label>
+                  <p className="mt-2 text-xs" style={{ color: '#64748b' }}>
+                    {(domainPack === LOADED_PACK ? loadedPack?.description : DOMAIN_PACKS.find(p => p.id === domainPack)?.description) ??
+                      'Column roles, validators, sensitive fields and business impact text for your industry.'}
+                  </p>
+                  <div className="mt-3 flex items-center gap-2 text-xs" style={{ color: '#475569' }}>
+                    <span>Load pack:</span>
+                    <input
+                      type="file"
+                      accept=".json,.yaml,.yml"
+                      onChange={handlePackFileChange}
+                      className="text-xs"
+                    />
+                  </div>
+                  {packError && (
+                    <p className="mt-2 text-xs" style={{ color: '#b91c1c' }}>{packError}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Validation Rules */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Validation Rules
+                  </div>
+                  <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+                    Optional JSON or YAML file declaring per-column checks, scored under validity, and cross-column business rules, scored under consistency or integrity.
+                  </p>
+                  {ruleFile ? (
+                    <div className="flex items-center justify-between gap-2 text-xs" style={{ color: '#475569' }}>
+                      <span>
+                        <span className="font-medium" style={{ color: '#1e293b' }}>{ruleFile.rules.name ?? ruleFile.name}</span>
+                        {ruleFile.rules.version !== undefined && ` v${ruleFile.rules.version}`}
+                        {' · '}{countRules(ruleFile.rules)} rules on {Object.keys(ruleFile.rules.columns).length} columns
+                        {ruleFile.rules.businessRules?.length ? `, ${ruleFile.rules.businessRules.length} business rules` : ''}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setRuleFile(null)}
+                        className="rounded px-2 py-1 font-medium"
+                        style={{ color: '#b91c1c' }}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ) : (
+                    <input
+                      type="file"
+                      accept=".json,.yaml,.yml"
+                      onChange={handleRuleFileChange}
+                      className="text-xs"
+                    />
+                  )}
+                  {ruleError && (
+                    <p className="mt-2 text-xs" style={{ color: '#b91c1c' }}>{ruleError}</p>
+                  )}
+                </div>
+              )}
+
+              {/* Related Tables */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Related Tables
+                  </div>
+                  <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+                    Optional reference tables such as merchants or cards. Integrity is scored from foreign keys that have no match in them.
+                  </p>
+                  {referenceFiles.length > 0 && (
+                    <ul className="mb-3 space-y-1 text-xs" style={{ color: '#475569' }}>
+                      {referenceFiles.map(file => (
+                        <li key={file.name} className="flex items-center justify-between gap-2">
+                          <span className="font-medium" style={{ color: '#1e293b' }}>{file.name}</span>
+                          <button
+                            type="button"
+                            onClick={() => setReferenceFiles(prev => prev.filter(f => f !== file))}
+                            className="rounded px-2 py-1 font-medium"
+                            style={{ color: '#b91c1c' }}
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <input
+                    type="file"
+                    multiple
+                    accept=".csv,.xlsx,.xlsm,.xls,.json,.ndjson,.jsonl,.parquet"
+                    onChange={handleReferenceFilesChange}
+                    className="text-xs"
+                  />
+                  {referenceFiles.length > 0 && (
+                    <div className="mt-3 grid grid-cols-1 gap-3 text-xs" style={{ color: '#475569' }}>
+                      <label className="flex flex-col gap-1">
+                        Relationships
+                        <textarea
+                          rows={2}
+                          placeholder={'One per line, e.g.\nmerchant_id -> merchants.merchant_id\ncard_id -> cards.id (one-to-one)'}
+                          value={relationshipText}
+                          onChange={(e) => setRelationshipText(e.target.value)}
+                          className="rounded-lg border px-2 py-1.5 font-mono"
+                          style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                        />
+                      </label>
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={suggestRelationships}
+                          onChange={(e) => setSuggestRelationships(e.target.checked)}
+                        />
+                        Suggest relationships from matching column names
+                      </label>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Outlier Detection */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Outlier Detection
+                  </div>
+                  <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+                    Values outside the fences count as anomalies and against validity. Robust methods suit skewed amounts better than mean ± 3σ.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3 text-xs" style={{ color: '#475569' }}>
+                    <label className="flex flex-col gap-1">
+                      Default Method
+                      <select
+                        value={outlierInputs.method}
+                        onChange={(e) => setOutlierInputs(prev => ({ ...prev, method: e.target.value as OutlierMethod }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        {(Object.entries(OUTLIER_METHODS) as [OutlierMethod, string][]).map(([value, label]) => (
+                          <option key={value} value={value}>{label}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Multiplier (k)
+                      <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        placeholder="Method default"
+                        disabled={outlierInputs.method === 'percentile'}
+                        value={outlierInputs.k}
+                        onChange={(e) => setOutlierInputs(prev => ({ ...prev, k: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                    <label className="col-span-2 flex flex-col gap-1">
+                      Per-Column Methods
+                      <textarea
+                        rows={2}
+                        placeholder={'One column per line, e.g.\namount: log-zscore 3\nfee: percentile 1 99'}
+                        value={outlierInputs.columns}
+                        onChange={(e) => setOutlierInputs(prev => ({ ...prev, columns: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5 font-mono"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {/* Freshness */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Freshness
+                  </div>
+                  <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+                    Timeliness measures each date&apos;s latency to a reference time. Set the extract time for backfills and archives so old dates are not judged against today.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3 text-xs" style={{ color: '#475569' }}>
+                    <label className="flex flex-col gap-1">
+                      Reference Time
+                      <select
+                        value={freshnessInputs.referenceKind}
+                        onChange={(e) => setFreshnessInputs(prev => ({ ...prev, referenceKind: e.target.value as typeof prev.referenceKind }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="analysis">Time of analysis</option>
+                        <option value="timestamp">Extract timestamp</option>
+                        <option value="column">Column in the file</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      {freshnessInputs.referenceKind === 'column' ? 'Reference Column' : 'Extract Timestamp'}
+                      <input
+                        type="text"
+                        placeholder={freshnessInputs.referenceKind === 'column' ? 'e.g. extract_time' : 'e.g. 2025-01-31T00:00:00Z'}
+                        disabled={freshnessInputs.referenceKind === 'analysis'}
+                        value={freshnessInputs.reference}
+                        onChange={(e) => setFreshnessInputs(prev => ({ ...prev, reference: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5 font-mono"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Stale After (days)
+                      <input
+                        type="number"
+                        min={1}
+                        placeholder="730"
+                        value={freshnessInputs.staleAfterDays}
+                        onChange={(e) => setFreshnessInputs(prev => ({ ...prev, staleAfterDays: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                    <label className="col-span-2 flex flex-col gap-1">
+                      Freshness SLAs
+                      <textarea
+                        rows={2}
+                        placeholder={'One column per line, e.g.\nevent_time: 24h extract_time\nsettled_at: 3d'}
+                        value={freshnessInputs.slas}
+                        onChange={(e) => setFreshnessInputs(prev => ({ ...prev, slas: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5 font-mono"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {/* Time Series */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <div className="mb-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Time Series
+                  </div>
+                  <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+                    For feeds: bucket rows by a date column to find missing or duplicated periods and sudden changes in volume or amount. Leave the column empty to skip.
+                  </p>
+                  <div className="grid grid-cols-2 gap-3 text-xs" style={{ color: '#475569' }}>
+                    <label className="flex flex-col gap-1">
+                      Date Column
+                      <input
+                        type="text"
+                        placeholder="e.g. txn_time"
+                        value={timeSeriesInputs.column}
+                        onChange={(e) => setTimeSeriesInputs(prev => ({ ...prev, column: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5 font-mono"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Period
+                      <select
+                        value={timeSeriesInputs.granularity}
+                        onChange={(e) => setTimeSeriesInputs(prev => ({ ...prev, granularity: e.target.value as typeof prev.granularity }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      >
+                        <option value="auto">Automatic</option>
+                        <option value="hour">Hour</option>
+                        <option value="day">Day</option>
+                        <option value="week">Week</option>
+                        <option value="month">Month</option>
+                      </select>
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Amount Column
+                      <input
+                        type="text"
+                        placeholder="Domain pack amount column"
+                        value={timeSeriesInputs.amountColumn}
+                        onChange={(e) => setTimeSeriesInputs(prev => ({ ...prev, amountColumn: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5 font-mono"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      Anomaly Threshold (%)
+                      <input
+                        type="number"
+                        min={1}
+                        value={timeSeriesInputs.threshold}
+                        onChange={(e) => setTimeSeriesInputs(prev => ({ ...prev, threshold: e.target.value }))}
+                        className="rounded-lg border px-2 py-1.5"
+                        style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+
+              {/* Primary Key */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <label className="flex flex-col gap-1 text-sm font-semibold" style={{ color: '#334155' }}>
+                    Primary Key
+                    <input
+                      type="text"
+                      placeholder="e.g. transaction_id, or store_id, receipt_no"
+                      value={primaryKeyText}
+                      onChange={(e) => setPrimaryKeyText(e.target.value)}
+                      className="rounded-lg border px-2 py-1.5 text-xs font-normal"
+                      style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                    />
+                  </label>
+                  <p className="mt-2 text-xs" style={{ color: '#64748b' }}>
+                    Uniqueness is scored on the confirmed key. Leave empty to check columns whose names look like identifiers.
+                  </p>
+                  {suggestedKeys.length > 0 && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-xs" style={{ color: '#475569' }}>
+                      <span>Candidate keys from the last analysis:</span>
+                      {suggestedKeys.map(key => {
+                        const text = key.columns.join(', ');
+                        return (
+                          <button
+                            key={text}
+                            type="button"
+                            onClick={() => setPrimaryKeyText(text)}
+                            className="rounded-full px-2 py-0.5 font-mono"
+                            style={{
+                              background: primaryKeyText === text ? '#e0e7ff' : '#fff',
+                              border: '1px solid #c7d2fe',
+                              color: '#3730a3',
+                            }}
+                          >
+                            {text}{key.unverified && ' (unverified)'}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Near-Duplicate Detection */}
+              {sourceType.startsWith('File') && selectedFile && (
+                <div className="rounded-xl p-4" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                  <label className="mb-1 flex items-center gap-2 text-sm font-semibold" style={{ color: '#334155' }}>
+                    <input
+                      type="checkbox"
+                      checked={nearDuplicateInputs.enabled}
+                      onChange={(e) => setNearDuplicateInputs(prev => ({ ...prev, enabled: e.target.checked }))}
+                    />
+                    Near-Duplicate Detection
+                  </label>
+                  <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+                    Rows that repeat once whitespace, letter case, number formatting and timestamp precision are set aside count against uniqueness.
+                  </p>
+                  {nearDuplicateInputs.enabled && (
+                    <div className="grid grid-cols-2 gap-3 text-xs" style={{ color: '#475569' }}>
+                      <label className="flex flex-col gap-1">
+                        Ignore Columns
+                        <input
+                          type="text"
+                          placeholder="e.g. load_id, ingested_at"
+                          value={nearDuplicateInputs.ignoreColumns}
+                          onChange={(e) => setNearDuplicateInputs(prev => ({ ...prev, ignoreColumns: e.target.value }))}
+                          className="rounded-lg border px-2 py-1.5"
+                          style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        Blocking Columns
+                        <input
+                          type="text"
+                          placeholder="e.g. merchant_id (enables fuzzy matching)"
+                          value={nearDuplicateInputs.blockingColumns}
+                          onChange={(e) => setNearDuplicateInputs(prev => ({ ...prev, blockingColumns: e.target.value }))}
+                          className="rounded-lg border px-2 py-1.5"
+                          style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        Similarity Threshold
+                        <input
+                          type="number"
+                          min={0.5}
+                          max={1}
+                          step={0.01}
+                          value={nearDuplicateInputs.threshold}
+                          onChange={(e) => setNearDuplicateInputs(prev => ({ ...prev, threshold: e.target.value }))}
+                          className="rounded-lg border px-2 py-1.5"
+                          style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1">
+                        Timestamp Precision
+                        <select
+                          value={nearDuplicateInputs.timePrecision}
+                          onChange={(e) => setNearDuplicateInputs(prev => ({ ...prev, timePrecision: e.target.value as TimePrecision }))}
+                          className="rounded-lg border px-2 py-1.5"
+                          style={{ borderColor: '#e2e8f0', color: '#1e293b' }}
+                        >
+                          <option value="second">Second</option>
+                          <option value="minute">Minute</option>
+                          <option value="hour">Hour</option>
+                          <option value="day">Day</option>
+                        </select>
+                      </label>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Error Message */}
               {error && (
                 <div className="rounded-lg p-3" style={{ background: '#fee2e2', border: '1px solid #fca5a5' }}>
@@ -296,7 +1202,7 @@ export default function Home() {
               >
                 {isAnalyzing ? (
                   <>
-                    <span className="animate-spin">⏳</span> {progress || 'Analyzing...'}
+                    <span className="animate-spin">⏳</span> Analyzing... {progressPercent}%
                   </>
                 ) : (
                   <>
@@ -304,6 +1210,29 @@ export default function Home() {
                   </>
                 )}
               </button>
+
+              {/* Analysis Progress */}
+              {isAnalyzing && (
+                <div className="space-y-2">
+                  <div className="h-2 w-full overflow-hidden rounded-full" style={{ background: '#e2e8f0' }}>
+                    <div
+                      className="h-2 rounded-full transition-all"
+                      style={{ width: `${progressPercent}%`, background: '#1229D0' }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between text-xs" style={{ color: '#64748b' }}>
+                    <span>{progress || 'Analyzing...'}</span>
+                    <button
+                      type="button"
+                      onClick={handleCancel}
+                      className="rounded-lg px-3 py-1 font-semibold transition hover:opacity-80"
+                      style={{ border: '1px solid #cbd5e1', color: '#475569' }}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
 
@@ -0,0 +1,77 @@
+import React from 'react';
+import type { BusinessRuleResult } from '../lib/businessRules';
+
+interface Props {
+  results: BusinessRuleResult[];
+}
+
+/**
+ * BusinessRulesPanel: Violation counts for each cross-column business rule
+ * and the columns it reads. Counts only; violating rows are never shown.
+ */
+export const BusinessRulesPanel: React.FC<Props> = ({ results }) => {
+  const violating = results.filter(r => r.violated > 0).length;
+
+  return (
+    <section className="rounded-2xl p-4 shadow-lg sm:p-6" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Business Rules</h3>
+          <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+            {results.length - violating} of {results.length} cross-column rules held on every checked row
+          </p>
+        </div>
+        {violating > 0 && (
+          <span className="rounded-full px-3 py-1 text-xs font-bold" style={{ background: '#fee2e2', color: '#b91c1c' }}>
+            {violating} violated
+          </span>
+        )}
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr style={{ color: '#64748b', borderBottom: '1px solid #e2e8f0' }}>
+              <th className="py-2 pr-4 font-medium">Rule</th>
+              <th className="py-2 pr-4 font-medium">Columns</th>
+              <th className="py-2 pr-4 font-medium">Dimension</th>
+              <th className="py-2 pr-4 text-right font-medium">Passed</th>
+              <th className="py-2 pr-4 text-right font-medium">Violated</th>
+              <th className="py-2 text-right font-medium">Skipped</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(rule => {
+              const notChecked = rule.missingColumns
+                ? `missing ${rule.missingColumns.join(', ')}`
+                : rule.error;
+              return (
+                <tr key={rule.id} style={{ color: '#334155', borderBottom: '1px solid #f1f5f9' }}>
+                  <td className="py-1.5 pr-4">
+                    <div className="font-mono">{rule.id}</div>
+                    <div className="font-mono" style={{ color: '#64748b' }}>{rule.expression}</div>
+                    {rule.description && <div style={{ color: '#94a3b8' }}>{rule.description}</div>}
+                    {notChecked && (
+                      <span className="mt-1 inline-block rounded px-1.5 py-0.5 text-[10px]" style={{ background: '#fef3c7', color: '#92400e' }}>
+                        not checked: {notChecked}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-4">{rule.columns.join(', ')}</td>
+                  <td className="py-1.5 pr-4 capitalize">{rule.dimension}</td>
+                  <td className="py-1.5 pr-4 text-right">{rule.passed.toLocaleString()}</td>
+                  <td className="py-1.5 pr-4 text-right" style={{ color: rule.violated > 0 ? '#b91c1c' : undefined }}>
+                    {rule.violated.toLocaleString()}
+                  </td>
+                  <td className="py-1.5 text-right" style={{ color: '#94a3b8' }}>{rule.skipped.toLocaleString()}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default BusinessRulesPanel;
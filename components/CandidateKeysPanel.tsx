@@ -0,0 +1,91 @@
+import React from 'react';
+import type { CandidateKeyDiscovery, PrimaryKeyCheck } from '../lib/candidateKeys';
+
+interface Props {
+  discovery: CandidateKeyDiscovery;
+  primaryKey?: PrimaryKeyCheck;
+}
+
+/**
+ * CandidateKeysPanel: Column combinations found unique on every row, and
+ * how the confirmed primary key held up
+ */
+export const CandidateKeysPanel: React.FC<Props> = ({ discovery, primaryKey }) => {
+  const keyName = primaryKey?.columns.join(', ');
+  const checked = primaryKey && !primaryKey.missingColumns;
+
+  return (
+    <section className="rounded-2xl p-4 shadow-lg sm:p-6" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Keys</h3>
+          <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+            Checked {discovery.combinationsChecked} column combinations of up to {discovery.maxColumns} columns
+            {discovery.limited && '; the search was limited, so other keys may exist'}
+          </p>
+        </div>
+        {checked && (
+          <span
+            className="rounded-full px-3 py-1 text-xs font-bold"
+            style={primaryKey.unique ? { background: '#dcfce7', color: '#15803d' } : { background: '#fee2e2', color: '#b91c1c' }}
+          >
+            Primary key ({keyName}) {primaryKey.unique ? 'is unique' : 'has violations'}
+          </span>
+        )}
+      </div>
+
+      {primaryKey?.missingColumns && (
+        <p className="mt-3 rounded px-2 py-1 text-xs" style={{ background: '#fef3c7', color: '#92400e' }}>
+          Confirmed key columns not in this file: {primaryKey.missingColumns.join(', ')}. Identifier column names were checked instead.
+        </p>
+      )}
+      {checked && !primaryKey.unique && (
+        <p className="mt-3 text-xs" style={{ color: '#b91c1c' }}>
+          {primaryKey.duplicateKeyRows > 0 && `${primaryKey.approximate ? '≈' : ''}${primaryKey.duplicateKeyRows.toLocaleString()} rows repeat a key value. `}
+          {primaryKey.missingKeyRows > 0 && `${primaryKey.missingKeyRows.toLocaleString()} rows have no key value.`}
+        </p>
+      )}
+
+      {discovery.keys.length === 0 ? (
+        <p className="mt-4 text-xs" style={{ color: '#64748b' }}>
+          No column combination is present and unique on every row.
+        </p>
+      ) : (
+        <>
+          <ul className="mt-4 flex flex-wrap gap-2 text-xs">
+            {discovery.keys.map(key => {
+              const text = key.columns.join(', ');
+              const confirmed = text === keyName;
+              return (
+                <li
+                  key={text}
+                  className="rounded-full px-3 py-1 font-mono"
+                  style={{
+                    background: confirmed ? '#e0e7ff' : '#f8fafc',
+                    border: `1px ${key.unverified ? 'dashed' : 'solid'} ${confirmed ? '#a5b4fc' : '#e2e8f0'}`,
+                    color: '#334155',
+                  }}
+                  title={key.unverified ? 'Not checked on every row' : undefined}
+                >
+                  {text}{key.unverified && ' *'}
+                </li>
+              );
+            })}
+          </ul>
+          {discovery.keys.some(k => k.unverified) && (
+            <p className="mt-3 text-xs" style={{ color: '#92400e' }}>
+              * Unverified: the file was too large to check these on every row, and no repeat was seen on the rows that were.
+            </p>
+          )}
+          {!primaryKey && (
+            <p className="mt-3 text-xs" style={{ color: '#64748b' }}>
+              Uniqueness was checked on identifier-like column names. Confirm the true key on the upload page when you analyze this file again.
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default CandidateKeysPanel;
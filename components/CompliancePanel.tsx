@@ -5,13 +5,14 @@ interface Props {
   evaluatedAt: string;
   policies: string[];
   modelVersion: string;
+  scoringProfile?: string;
 }
 
 /**
  * CompliancePanel: Audit trail and governance metadata.
  * Read-only view suitable for auditors.
  */
-export const CompliancePanel: React.FC<Props> = ({ hash, evaluatedAt, policies, modelVersion }) => {
+export const CompliancePanel: React.FC<Props> = ({ hash, evaluatedAt, policies, modelVersion, scoringProfile }) => {
   return (
     <section
       className="card rounded-xl p-5 shadow"
@@ -37,6 +38,11 @@ export const CompliancePanel: React.FC<Props> = ({ hash, evaluatedAt, policies,
         <div>
           <span className="font-medium">Model Version:</span> {modelVersion}
         </div>
+        {scoringProfile && (
+          <div>
+            <span className="font-medium">Scoring Profile:</span> {scoringProfile}
+          </div>
+        )}
       </div>
 
       <div className="mt-4">
@@ -0,0 +1,88 @@
+import React from 'react';
+import type { NearDuplicateConfig, NearDuplicateSummary } from '../lib/nearDuplicates';
+
+interface Props {
+  summary: NearDuplicateSummary;
+  config?: NearDuplicateConfig; // Missing on reports stored before near-duplicate detection existed
+}
+
+/**
+ * DuplicateClustersPanel: Exact and near-duplicate rows grouped into
+ * clusters, with the cluster size distribution. Row contents are never shown.
+ */
+export const DuplicateClustersPanel: React.FC<Props> = ({ summary, config }) => {
+  const approx = summary.approximate ? '≥' : '';
+  const maxBucket = Math.max(1, ...summary.sizeDistribution.map(b => b.clusters));
+  const stats = [
+    { label: 'Clusters', value: summary.clusters },
+    { label: 'Rows in Clusters', value: summary.rowsInClusters },
+    { label: 'Exact Repeats', value: summary.exactDuplicateRows },
+    { label: 'Near Duplicates', value: summary.nearDuplicateRows },
+    { label: 'Fuzzy Matches', value: summary.fuzzyMatches },
+    { label: 'Largest Cluster', value: summary.largestCluster },
+  ];
+
+  return (
+    <section className="rounded-2xl p-4 shadow-lg sm:p-6" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Duplicate Clusters</h3>
+          {config && (
+            <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+              Compared {config.columns.length} columns with timestamps to the {config.timePrecision}
+              {config.blockingColumns.length > 0
+                ? `; fuzzy matching within ${config.blockingColumns.join(', ')} at ${Math.round(config.similarityThreshold * 100)}% similarity`
+                : '; no blocking columns, so no fuzzy matching'}
+            </p>
+          )}
+        </div>
+        {summary.redundantRows > 0 && (
+          <span className="rounded-full px-3 py-1 text-xs font-bold" style={{ background: '#fee2e2', color: '#b91c1c' }}>
+            {approx}{summary.redundantRows.toLocaleString()} redundant rows
+          </span>
+        )}
+      </div>
+
+      {config?.missingColumns && (
+        <p className="mt-3 rounded px-2 py-1 text-xs" style={{ background: '#fef3c7', color: '#92400e' }}>
+          Not in this file: {config.missingColumns.join(', ')}
+        </p>
+      )}
+
+      {summary.clusters === 0 ? (
+        <p className="mt-4 text-xs" style={{ color: '#64748b' }}>
+          No exact or near-duplicate rows were found.
+        </p>
+      ) : (
+        <>
+          <div className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="rounded-lg p-3" style={{ background: '#f8fafc' }}>
+                <div className="text-[10px] uppercase" style={{ color: '#94a3b8' }}>{stat.label}</div>
+                <div className="text-lg font-bold" style={{ color: '#1e293b' }}>{approx}{stat.value.toLocaleString()}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 space-y-1.5 text-xs" style={{ color: '#334155' }}>
+            <div className="font-medium" style={{ color: '#64748b' }}>Rows per cluster</div>
+            {summary.sizeDistribution.map(bucket => (
+              <div key={bucket.size} className="flex items-center gap-2">
+                <span className="w-10 text-right font-mono">{bucket.size}</span>
+                <div className="h-2 flex-1 rounded" style={{ background: '#f1f5f9' }}>
+                  <div
+                    className="h-2 rounded"
+                    style={{ width: `${(bucket.clusters / maxBucket) * 100}%`, background: '#6366f1' }}
+                  />
+                </div>
+                <span className="w-12 text-right">{bucket.clusters.toLocaleString()}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default DuplicateClustersPanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import type { FunctionalDependencyResult } from '../lib/functionalDependencies';
+
+interface Props {
+  result: FunctionalDependencyResult;
+}
+
+/**
+ * FunctionalDependenciesPanel: Column dependencies found in the data, for
+ * data owners to confirm, with the rows that break them
+ */
+export const FunctionalDependenciesPanel: React.FC<Props> = ({ result }) => {
+  const violating = result.dependencies.filter(d => d.violatingRows > 0).length;
+
+  return (
+    <section className="rounded-2xl p-4 shadow-lg sm:p-6" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Column Dependencies</h3>
+          <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+            Checked {result.pairsChecked} column pairs; rows breaking a dependency count against consistency
+            {result.limited && '. Some pairs or values were skipped to stay within limits'}
+          </p>
+        </div>
+        {violating > 0 && (
+          <span className="rounded-full px-3 py-1 text-xs font-bold" style={{ background: '#fef3c7', color: '#92400e' }}>
+            {violating} with violations
+          </span>
+        )}
+      </div>
+
+      {result.dependencies.length === 0 ? (
+        <p className="mt-4 text-xs" style={{ color: '#64748b' }}>
+          No column determines another on at least 95% of rows.
+        </p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr style={{ color: '#64748b', borderBottom: '1px solid #e2e8f0' }}>
+                <th className="py-2 pr-4 font-medium">Dependency</th>
+                <th className="py-2 pr-4 text-right font-medium">Holds</th>
+                <th className="py-2 pr-4 text-right font-medium">Violating Rows</th>
+                <th className="py-2 text-right font-medium">Determinant Values</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.dependencies.map(dep => (
+                <tr key={`${dep.determinant}-${dep.dependent}`} style={{ color: '#334155', borderBottom: '1px solid #f1f5f9' }}>
+                  <td className="py-1.5 pr-4">
+                    <span className="font-mono">{dep.determinant} {dep.bidirectional ? '↔' : '→'} {dep.dependent}</span>
+                  </td>
+                  <td className="py-1.5 pr-4 text-right">{Math.round(dep.confidence * 1000) / 10}%</td>
+                  <td className="py-1.5 pr-4 text-right" style={{ color: dep.violatingRows > 0 ? '#b91c1c' : undefined }}>
+                    {dep.violatingRows.toLocaleString()}
+                  </td>
+                  <td className="py-1.5 text-right" style={{ color: '#94a3b8' }}>{dep.determinantValues.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default FunctionalDependenciesPanel;
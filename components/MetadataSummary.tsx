@@ -1,10 +1,27 @@
 import React from 'react';
+import type { CSVParseStats } from '../lib/csvParser';
+import { describeDateFormat, type DateFormatInfo } from '../lib/dateParsing';
+import { describeDialect, type DialectInfo } from '../lib/dialectDetection';
+import type { WorkbookInfo } from '../lib/excelReader';
+import type { JSONIngestInfo } from '../lib/jsonReader';
+import type { ParquetInfo } from '../lib/parquetReader';
+import type { LengthStatistics, NumericStatistics, ProcessingInfo, TopValuesInfo } from '../lib/dqiEngine';
+import { describeMissingCounts, type MissingValueConfig, type MissingValueCounts } from '../lib/missingValues';
+import { describeNumberFormat, type CurrencyInfo, type NumberFormatInfo } from '../lib/numberParsing';
+import { describeOutlierBounds } from '../lib/outliers';
 
 interface ColumnStat {
   name: string;
   completeness: number;
   uniqueCount: number;
   dataType: string;
+  missing?: MissingValueCounts;
+  currency?: CurrencyInfo;
+  dateFormat?: DateFormatInfo;
+  statistics?: NumericStatistics;
+  topValues?: TopValuesInfo;
+  lengths?: LengthStatistics;
+  entropy?: number;
 }
 
 interface Props {
@@ -15,8 +32,98 @@ interface Props {
   fileName?: string;
   duplicates?: number;
   columnStats?: ColumnStat[];
+  parsing?: CSVParseStats;
+  dialect?: DialectInfo;
+  workbook?: WorkbookInfo;
+  json?: JSONIngestInfo;
+  parquet?: ParquetInfo;
+  processing?: ProcessingInfo;
+  missingValueRules?: MissingValueConfig;
+  numberFormat?: NumberFormatInfo;
 }
 
+const hasProfile = (col: ColumnStat) =>
+  Boolean(col.statistics || col.topValues || col.lengths || col.entropy !== undefined);
+
+/**
+ * Distribution, frequent values, lengths and entropy of one column
+ */
+const ColumnProfileDetail: React.FC<{ col: ColumnStat; sampled: boolean }> = ({ col, sampled }) => {
+  const { statistics, topValues, lengths } = col;
+  const tallest = Math.max(1, ...(statistics?.histogram ?? []).map(bin => bin.count));
+  const topCount = Math.max(1, ...(topValues?.values ?? []).map(v => v.count));
+
+  return (
+    <div className="grid gap-4 text-xs sm:grid-cols-2" style={{ color: '#475569' }}>
+      {statistics && (
+        <div>
+          <div className="mb-1 font-semibold" style={{ color: '#1e293b' }}>Distribution{sampled && ' (sampled)'}</div>
+          <div className="font-mono">
+            min {statistics.min} · median {statistics.median} · max {statistics.max}
+            <br />
+            mean {statistics.mean} · σ {statistics.stdDev}
+          </div>
+          {statistics.quantiles && (
+            <div className="mt-1 font-mono" style={{ color: '#64748b' }}>
+              {(['p1', 'p5', 'p25', 'p75', 'p95', 'p99'] as const).map(q => `${q} ${statistics.quantiles?.[q]}`).join(' · ')}
+            </div>
+          )}
+          {statistics.histogram && (
+            <div className="mt-2 flex h-16 items-end gap-0.5" aria-label="Histogram">
+              {statistics.histogram.map(bin => (
+                <div
+                  key={bin.from}
+                  className="flex-1 rounded-t"
+                  style={{ height: `${Math.max(2, (bin.count / tallest) * 100)}%`, background: '#818cf8' }}
+                  title={`${bin.from} to ${bin.to}: ${bin.count.toLocaleString()}`}
+                />
+              ))}
+            </div>
+          )}
+          {statistics.outliers && (
+            <div className="mt-2">
+              <span className="font-medium">Outliers:</span>{' '}
+              {statistics.outliers.count !== undefined && `${statistics.outliers.count.toLocaleString()} outside `}
+              {describeOutlierBounds(statistics.outliers)}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        {topValues && (
+          <>
+            <div className="mb-1 font-semibold" style={{ color: '#1e293b' }}>
+              Top values{topValues.approximate && ' (approximate counts)'}
+            </div>
+            <ul className="space-y-0.5">
+              {topValues.values.map(v => (
+                <li key={v.value} className="flex items-center gap-2">
+                  <span className="w-32 truncate font-mono" title={v.value}>{v.value}</span>
+                  <div className="h-1.5 flex-1 rounded-full" style={{ background: '#e2e8f0' }}>
+                    <div className="h-1.5 rounded-full" style={{ width: `${(v.count / topCount) * 100}%`, background: '#6366f1' }} />
+                  </div>
+                  <span style={{ color: '#64748b' }}>{v.count.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        {lengths && (
+          <div className="mt-2">
+            <span className="font-medium">Length:</span> {lengths.min} to {lengths.max} characters, mean {lengths.mean}
+          </div>
+        )}
+        {col.entropy !== undefined && (
+          <div className="mt-1">
+            <span className="font-medium">Entropy:</span> {col.entropy} bits
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 /**
  * MetadataSummary: High-level dataset statistics.
  * No raw data exposed—only aggregate counts.
@@ -28,8 +135,29 @@ export const MetadataSummary: React.FC<Props> = ({
   anomalies,
   fileName,
   duplicates = 0,
-  columnStats = []
+  columnStats = [],
+  parsing,
+  dialect,
+  workbook,
+  json,
+  parquet,
+  processing,
+  missingValueRules,
+  numberFormat
 }) => {
+  // Null counts summed over the reported row groups, keyed by column path
+  const parquetNulls = new Map<string, number>();
+  parquet?.rowGroups.forEach(group => group.columns.forEach(chunk => {
+    if (chunk.nullCount !== undefined) {
+      parquetNulls.set(chunk.column, (parquetNulls.get(chunk.column) ?? 0) + chunk.nullCount);
+    }
+  }));
+  const [expanded, setExpanded] = React.useState<string | null>(null);
+  const sampledColumns = new Set(processing?.sampledMedianColumns ?? []);
+  const parquetCodecs = parquet
+    ? Array.from(new Set(parquet.rowGroups.flatMap(group => group.columns.map(chunk => chunk.codec))))
+    : [];
+
   const stats = [
     { label: 'Records', value: records.toLocaleString(), icon: '📄' },
     { label: 'Columns', value: columns, icon: '📊' },
@@ -93,6 +221,227 @@ export const MetadataSummary: React.FC<Props> = ({
         </div>
       </div>
 
+      {/* Parsing Diagnostics */}
+      {parsing && (
+        <div
+          className="rounded-xl p-5 shadow"
+          style={{ background: '#fff', border: '1px solid #e2e8f0' }}
+        >
+          <h3 className="mb-1 text-sm font-bold" style={{ color: '#1e293b' }}>Parsing Diagnostics</h3>
+          <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+            {parsing.records.toLocaleString()} records (incl. header) read from {parsing.physicalLines.toLocaleString()} physical lines
+          </p>
+          {dialect && (
+            <p className="mb-3 text-xs" style={{ color: '#475569' }}>
+              Format: <span className="font-semibold">{describeDialect(dialect)}</span>
+              {dialect.overridden.length > 0 && (
+                <span style={{ color: '#94a3b8' }}> · overridden: {dialect.overridden.join(', ')}</span>
+              )}
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-4" style={{ color: '#475569' }}>
+            <div>Quoted fields: <span className="font-semibold">{parsing.quotedFields}</span></div>
+            <div>Escaped quotes: <span className="font-semibold">{parsing.escapedQuotes}</span></div>
+            <div>Multi-line fields: <span className="font-semibold">{parsing.multilineFields}</span></div>
+            <div>Blank lines skipped: <span className="font-semibold">{parsing.blankLinesSkipped}</span></div>
+            <div>CRLF / LF / CR: <span className="font-semibold">{parsing.lineEndings.crlf} / {parsing.lineEndings.lf} / {parsing.lineEndings.cr}</span></div>
+            <div>Stray quotes: <span className="font-semibold">{parsing.strayQuotes}</span></div>
+            <div>BOM stripped: <span className="font-semibold">{parsing.byteOrderMarkStripped ? 'Yes' : 'No'}</span></div>
+            <div>
+              Unterminated quote:{' '}
+              <span className="font-semibold" style={{ color: parsing.unterminatedQuote ? '#b91c1c' : undefined }}>
+                {parsing.unterminatedQuote ? 'Yes' : 'No'}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Workbook Details */}
+      {workbook && (
+        <div
+          className="rounded-xl p-5 shadow"
+          style={{ background: '#fff', border: '1px solid #e2e8f0' }}
+        >
+          <h3 className="mb-1 text-sm font-bold" style={{ color: '#1e293b' }}>Workbook</h3>
+          <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+            Sheet <span className="font-semibold">{workbook.selectedSheet}</span> of {workbook.sheets.length} ({workbook.format.toUpperCase()}), header on row {workbook.headerRow}
+          </p>
+          <div className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-3" style={{ color: '#475569' }}>
+            <div>Merged ranges filled: <span className="font-semibold">{workbook.mergedRanges}</span></div>
+            <div>Merged header cells: <span className="font-semibold">{workbook.mergedHeaderCells}</span></div>
+            <div>Blank headers named: <span className="font-semibold">{workbook.blankHeaderCells}</span></div>
+            <div>Duplicate headers renamed: <span className="font-semibold">{workbook.duplicateHeaderNames}</span></div>
+            <div>Error cells (#N/A etc.): <span className="font-semibold">{workbook.errorCells}</span></div>
+            <div>Blank rows skipped: <span className="font-semibold">{workbook.blankRowsSkipped}</span></div>
+          </div>
+        </div>
+      )}
+
+      {/* JSON Structure */}
+      {json && (
+        <div
+          className="rounded-xl p-5 shadow"
+          style={{ background: '#fff', border: '1px solid #e2e8f0' }}
+        >
+          <h3 className="mb-1 text-sm font-bold" style={{ color: '#1e293b' }}>JSON Structure</h3>
+          <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+            {json.records.toLocaleString()} records read as {json.format.toUpperCase()} from <code>{json.recordsPath}</code>
+          </p>
+          <div className="grid grid-cols-2 gap-2 text-xs sm:grid-cols-4" style={{ color: '#475569' }}>
+            <div>Nested fields flattened: <span className="font-semibold">{json.nestedFields}</span></div>
+            <div>Array fields (by length): <span className="font-semibold">{json.arrayFields}</span></div>
+            <div>Max nesting depth: <span className="font-semibold">{json.maxDepth}</span></div>
+            <div>
+              Invalid lines:{' '}
+              <span className="font-semibold" style={{ color: json.invalidLines > 0 ? '#b91c1c' : undefined }}>
+                {json.invalidLines}
+              </span>
+            </div>
+          </div>
+          {json.invalidLineNumbers.length > 0 && (
+            <p className="mt-2 text-xs" style={{ color: '#b91c1c' }}>
+              Invalid at line(s) {json.invalidLineNumbers.join(', ')}{json.invalidLines > json.invalidLineNumbers.length ? '…' : ''}
+            </p>
+          )}
+          {json.renamedFields > 0 && (
+            <p className="mt-2 text-xs" style={{ color: '#92400e' }}>
+              {json.renamedFields} field(s) flattened to a column name another field already had and were given a suffix
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Parquet Schema */}
+      {parquet && (
+        <div
+          className="rounded-xl p-5 shadow"
+          style={{ background: '#fff', border: '1px solid #e2e8f0' }}
+        >
+          <h3 className="mb-1 text-sm font-bold" style={{ color: '#1e293b' }}>Parquet Schema</h3>
+          <p className="mb-3 text-xs" style={{ color: '#64748b' }}>
+            {parquet.rows.toLocaleString()} rows in {parquet.rowGroupCount} row group{parquet.rowGroupCount === 1 ? '' : 's'}
+            {parquetCodecs.length > 0 && <> · {parquetCodecs.join(', ')}</>}
+            {parquet.createdBy && <> · written by {parquet.createdBy}</>}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr style={{ borderBottom: '2px solid #e2e8f0' }}>
+                  <th className="py-2 text-left font-semibold" style={{ color: '#475569' }}>Column</th>
+                  <th className="py-2 text-left font-semibold" style={{ color: '#475569' }}>Physical</th>
+                  <th className="py-2 text-left font-semibold" style={{ color: '#475569' }}>Logical</th>
+                  <th className="py-2 text-center font-semibold" style={{ color: '#475569' }}>Declared As</th>
+                  <th className="py-2 text-right font-semibold" style={{ color: '#475569' }}>Nulls (stats)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {parquet.schema.slice(0, 15).map(col => (
+                  <tr key={col.name} style={{ borderBottom: '1px solid #f1f5f9' }}>
+                    <td className="py-1.5 font-medium" style={{ color: '#1e293b' }}>{col.name}</td>
+                    <td className="py-1.5" style={{ color: '#64748b' }}>{col.physicalType}</td>
+                    <td className="py-1.5" style={{ color: '#64748b' }}>{col.logicalType ?? '—'}</td>
+                    <td className="py-1.5 text-center" style={{ color: '#64748b' }}>{col.declaredType ?? '—'}</td>
+                    <td className="py-1.5 text-right" style={{ color: '#64748b' }}>
+                      {parquetNulls.has(col.name) ? parquetNulls.get(col.name)!.toLocaleString() : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {parquet.schema.length > 15 && (
+              <p className="mt-2 text-xs" style={{ color: '#94a3b8' }}>
+                Showing 15 of {parquet.schema.length} schema fields
+              </p>
+            )}
+            {parquet.rowGroupCount > parquet.rowGroups.length && (
+              <p className="mt-1 text-xs" style={{ color: '#94a3b8' }}>
+                Row-group statistics cover the first {parquet.rowGroups.length} row groups
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Processing Mode */}
+      {processing && (
+        <div
+          className="rounded-xl p-5 shadow"
+          style={{ background: '#fff', border: '1px solid #e2e8f0' }}
+        >
+          <h3 className="mb-1 text-sm font-bold" style={{ color: '#1e293b' }}>Processing</h3>
+          <p className="text-xs" style={{ color: '#64748b' }}>
+            {processing.mode === 'streaming'
+              ? `Streamed in ${Math.round((processing.chunkBytes ?? 0) / (1024 * 1024))} MB chunks`
+              : 'Decoded in memory'}
+            {' '}· {processing.passes} passes over the rows · no rows retained
+          </p>
+          {(processing.approximateDuplicateRows ||
+            processing.approximateDistinctColumns.length > 0 ||
+            processing.sampledMedianColumns.length > 0) && (
+            <ul className="mt-2 space-y-1 text-xs" style={{ color: '#475569' }}>
+              {processing.approximateDuplicateRows && <li>Duplicate row count estimated from a hash sample</li>}
+              {processing.approximateDistinctColumns.length > 0 && (
+                <li>Unique ratios estimated for: {processing.approximateDistinctColumns.join(', ')}</li>
+              )}
+              {processing.sampledMedianColumns.length > 0 && (
+                <li>Medians taken from a sample for: {processing.sampledMedianColumns.join(', ')}</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Value Parsing Rules */}
+      {missingValueRules && (
+        <div
+          className="rounded-xl p-5 shadow"
+          style={{ background: '#fff', border: '1px solid #e2e8f0' }}
+        >
+          <h3 className="mb-3 text-sm font-bold" style={{ color: '#1e293b' }}>Value Parsing</h3>
+          <div className="grid grid-cols-1 gap-3 text-xs sm:grid-cols-3">
+            <div>
+              <div style={{ color: '#64748b' }}>Null Tokens</div>
+              <div className="mt-1 font-mono" style={{ color: '#1e293b' }}>
+                {missingValueRules.nullTokens.length > 0 ? missingValueRules.nullTokens.join(', ') : 'None'}
+              </div>
+            </div>
+            <div>
+              <div style={{ color: '#64748b' }}>Sentinels</div>
+              <div className="mt-1 font-mono" style={{ color: '#1e293b' }}>
+                {missingValueRules.sentinels.length > 0 ? missingValueRules.sentinels.join(', ') : 'None'}
+              </div>
+            </div>
+            <div>
+              <div style={{ color: '#64748b' }}>Blank Values</div>
+              <div className="mt-1 font-semibold" style={{ color: '#1e293b' }}>
+                {missingValueRules.emptyStrings === 'null' ? 'Read as null' : 'Kept as empty strings'}
+              </div>
+            </div>
+          </div>
+          {numberFormat && (
+            <div className="mt-3 text-xs" style={{ color: '#475569' }}>
+              <span className="font-medium">Number format:</span>{' '}
+              <span className="font-mono">{describeNumberFormat(numberFormat)}</span>
+            </div>
+          )}
+          {Object.keys(missingValueRules.columns).length > 0 && (
+            <ul className="mt-3 space-y-1 text-xs" style={{ color: '#475569' }}>
+              {Object.entries(missingValueRules.columns).map(([column, rules]) => (
+                <li key={column}>
+                  <span className="font-medium">{column}:</span>{' '}
+                  {[
+                    rules.nullTokens && `null tokens ${rules.nullTokens.join(', ')}`,
+                    rules.sentinels && `sentinels ${rules.sentinels.join(', ')}`,
+                    rules.emptyStrings && (rules.emptyStrings === 'null' ? 'blanks as null' : 'blanks as empty strings'),
+                  ].filter(Boolean).join(' · ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Column Statistics */}
       {columnStats.length > 0 && (
         <div
@@ -113,33 +462,75 @@ export const MetadataSummary: React.FC<Props> = ({
               <tbody>
                 {columnStats.slice(0, 10).map((col, idx) => {
                   const typeColor = getTypeColor(col.dataType);
+                  const open = expanded === col.name;
                   return (
-                    <tr key={idx} style={{ borderBottom: '1px solid #f1f5f9' }}>
-                      <td className="py-2 font-medium" style={{ color: '#1e293b' }}>{col.name}</td>
-                      <td className="py-2 text-center">
-                        <span
-                          className="rounded-full px-2 py-0.5 text-xs font-medium"
-                          style={{ background: typeColor.bg, color: typeColor.text }}
-                        >
-                          {col.dataType}
-                        </span>
-                      </td>
-                      <td className="py-2 text-center">
-                        <div className="mx-auto flex items-center gap-2" style={{ maxWidth: 100 }}>
-                          <div className="h-2 flex-1 rounded-full" style={{ background: '#e2e8f0' }}>
+                    <React.Fragment key={idx}>
+                      <tr style={{ borderBottom: '1px solid #f1f5f9' }}>
+                        <td className="py-2 font-medium" style={{ color: '#1e293b' }}>
+                          {hasProfile(col) ? (
+                            <button
+                              type="button"
+                              className="text-left hover:underline"
+                              onClick={() => setExpanded(open ? null : col.name)}
+                              aria-expanded={open}
+                            >
+                              <span style={{ color: '#94a3b8' }}>{open ? '▾' : '▸'}</span> {col.name}
+                            </button>
+                          ) : col.name}
+                        </td>
+                        <td className="py-2 text-center">
+                          <span
+                            className="rounded-full px-2 py-0.5 text-xs font-medium"
+                            style={{ background: typeColor.bg, color: typeColor.text }}
+                          >
+                            {col.dataType}
+                            {col.currency && ` · ${col.currency.code ?? col.currency.marker}`}
+                          </span>
+                          {col.currency && col.currency.otherMarkers.length > 0 && (
+                            <div className="mt-0.5 text-[10px]" style={{ color: '#b45309' }}>
+                              also {col.currency.otherMarkers.join(', ')}
+                            </div>
+                          )}
+                          {col.dateFormat && (
                             <div
-                              className="h-2 rounded-full"
-                              style={{
-                                width: `${col.completeness}%`,
-                                background: col.completeness >= 80 ? '#10b981' : col.completeness >= 50 ? '#f59e0b' : '#ef4444'
-                              }}
-                            />
+                              className="mt-0.5 font-mono text-[10px]"
+                              style={{ color: col.dateFormat.ambiguous || col.dateFormat.timezone === 'mixed' ? '#b45309' : '#64748b' }}
+                              title={`${col.dateFormat.evidence.dayFirst} day-first and ${col.dateFormat.evidence.monthFirst} month-first values settled the order`}
+                            >
+                              {describeDateFormat(col.dateFormat)}
+                              {col.dateFormat.formats.length > 1 && ` +${col.dateFormat.formats.length - 1}`}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 text-center">
+                          <div className="mx-auto flex items-center gap-2" style={{ maxWidth: 100 }}>
+                            <div className="h-2 flex-1 rounded-full" style={{ background: '#e2e8f0' }}>
+                              <div
+                                className="h-2 rounded-full"
+                                style={{
+                                  width: `${col.completeness}%`,
+                                  background: col.completeness >= 80 ? '#10b981' : col.completeness >= 50 ? '#f59e0b' : '#ef4444'
+                                }}
+                              />
+                            </div>
+                            <span className="text-xs" style={{ color: '#64748b' }}>{col.completeness}%</span>
                           </div>
-                          <span className="text-xs" style={{ color: '#64748b' }}>{col.completeness}%</span>
-                        </div>
-                      </td>
-                      <td className="py-2 text-right" style={{ color: '#64748b' }}>{col.uniqueCount}</td>
-                    </tr>
+                          {col.missing && col.missing.emptyStrings + col.missing.sentinels > 0 && (
+                            <div className="mt-0.5 text-[10px]" style={{ color: '#94a3b8' }}>
+                              {describeMissingCounts(col.missing)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 text-right" style={{ color: '#64748b' }}>{col.uniqueCount}</td>
+                      </tr>
+                      {open && (
+                        <tr style={{ borderBottom: '1px solid #f1f5f9', background: '#f8fafc' }}>
+                          <td colSpan={4} className="px-3 py-3">
+                            <ColumnProfileDetail col={col} sampled={sampledColumns.has(col.name)} />
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
                   );
                 })}
               </tbody>
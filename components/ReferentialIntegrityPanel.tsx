@@ -0,0 +1,92 @@
+import React from 'react';
+import type { ReferenceTableInfo, RelationshipResult } from '../lib/referentialIntegrity';
+
+interface Props {
+  tables: ReferenceTableInfo[];
+  relationships: RelationshipResult[];
+}
+
+/**
+ * ReferentialIntegrityPanel: Foreign key checks against the related tables
+ * uploaded with the file. Orphan keys are shown only as hashes.
+ */
+export const ReferentialIntegrityPanel: React.FC<Props> = ({ tables, relationships }) => {
+  const orphans = relationships.filter(r => r.scored).reduce((sum, r) => sum + r.orphans, 0);
+
+  return (
+    <section className="rounded-2xl p-4 shadow-lg sm:p-6" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Referential Integrity</h3>
+          <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+            Checked against {tables.map(t => `${t.name} (${t.rowCount.toLocaleString()} rows)`).join(', ')}
+          </p>
+        </div>
+        {orphans > 0 && (
+          <span className="rounded-full px-3 py-1 text-xs font-bold" style={{ background: '#fee2e2', color: '#b91c1c' }}>
+            {orphans.toLocaleString()} orphan keys
+          </span>
+        )}
+      </div>
+
+      {relationships.length === 0 ? (
+        <p className="mt-4 text-xs" style={{ color: '#64748b' }}>
+          No relationships were declared or suggested. Declare them as column {'->'} table.key on the upload page.
+        </p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr style={{ color: '#64748b', borderBottom: '1px solid #e2e8f0' }}>
+                <th className="py-2 pr-4 font-medium">Relationship</th>
+                <th className="py-2 pr-4 text-right font-medium">Checked</th>
+                <th className="py-2 pr-4 text-right font-medium">Orphans</th>
+                <th className="py-2 pr-4 text-right font-medium">Nulls</th>
+                <th className="py-2 pr-4 font-medium">Cardinality</th>
+                <th className="py-2 font-medium">Orphan Key Hashes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {relationships.map(rel => {
+                const note = rel.unresolved
+                  ? `not checked: ${rel.unresolved}`
+                  : !rel.scored ? 'names matched, values did not; not scored' : null;
+                return (
+                  <tr key={`${rel.column}-${rel.table}-${rel.key}`} style={{ color: '#334155', borderBottom: '1px solid #f1f5f9' }}>
+                    <td className="py-1.5 pr-4">
+                      <div className="font-mono">{rel.column} → {rel.table}.{rel.key}</div>
+                      <span className="text-[10px] uppercase" style={{ color: '#94a3b8' }}>{rel.source}</span>
+                      {note && (
+                        <span className="ml-2 rounded px-1.5 py-0.5 text-[10px]" style={{ background: '#fef3c7', color: '#92400e' }}>
+                          {note}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1.5 pr-4 text-right">{rel.checked.toLocaleString()}</td>
+                    <td className="py-1.5 pr-4 text-right" style={{ color: rel.orphans > 0 ? '#b91c1c' : undefined }}>
+                      {rel.approximate ? '≈' : ''}{rel.orphans.toLocaleString()}
+                    </td>
+                    <td className="py-1.5 pr-4 text-right" style={{ color: '#94a3b8' }}>{rel.nulls.toLocaleString()}</td>
+                    <td className="py-1.5 pr-4">
+                      {rel.unresolved ? '—' : (
+                        <span style={{ color: rel.cardinalityViolated ? '#b91c1c' : undefined }}>
+                          {rel.observedCardinality}
+                          {rel.cardinalityViolated && ` (expected ${rel.expectedCardinality})`}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-1.5 font-mono" style={{ color: '#64748b' }}>
+                      {rel.orphanSamples.length > 0 ? rel.orphanSamples.join(', ') : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ReferentialIntegrityPanel;
@@ -0,0 +1,85 @@
+import React from 'react';
+import type { RuleResult } from '../lib/columnRules';
+
+interface Props {
+  results: RuleResult[];
+  ruleSetName?: string;
+}
+
+/**
+ * RuleResultsPanel: Pass/fail counts for each declared column rule.
+ * Counts only; failing values are never shown.
+ */
+export const RuleResultsPanel: React.FC<Props> = ({ results, ruleSetName }) => {
+  const failing = results.filter(r => r.failed > 0).length;
+
+  return (
+    <section className="rounded-2xl p-4 shadow-lg sm:p-6" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Validation Rules</h3>
+          <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+            {ruleSetName ? `${ruleSetName}: ` : ''}{results.length - failing} of {results.length} rules passed on every value
+          </p>
+        </div>
+        {failing > 0 && (
+          <span className="rounded-full px-3 py-1 text-xs font-bold" style={{ background: '#fee2e2', color: '#b91c1c' }}>
+            {failing} failing
+          </span>
+        )}
+      </div>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr style={{ color: '#64748b', borderBottom: '1px solid #e2e8f0' }}>
+              <th className="py-2 pr-4 font-medium">Rule</th>
+              <th className="py-2 pr-4 font-medium">Expectation</th>
+              <th className="py-2 pr-4 text-right font-medium">Passed</th>
+              <th className="py-2 pr-4 text-right font-medium">Failed</th>
+              <th className="py-2 pr-4 text-right font-medium">Skipped</th>
+              <th className="py-2 font-medium">Pass Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(rule => {
+              const checked = rule.passed + rule.failed;
+              const rate = checked > 0 ? Math.round((rule.passed / checked) * 100) : 100;
+              return (
+                <tr key={rule.id} style={{ color: '#334155', borderBottom: '1px solid #f1f5f9' }}>
+                  <td className="py-1.5 pr-4 font-mono">
+                    {rule.id}
+                    {rule.columnMissing && (
+                      <span className="ml-2 rounded px-1.5 py-0.5 font-sans text-[10px]" style={{ background: '#fef3c7', color: '#92400e' }}>
+                        column not found
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-4">{rule.expectation}</td>
+                  <td className="py-1.5 pr-4 text-right">{rule.passed.toLocaleString()}</td>
+                  <td className="py-1.5 pr-4 text-right" style={{ color: rule.failed > 0 ? '#b91c1c' : undefined }}>
+                    {rule.approximate ? '≈' : ''}{rule.failed.toLocaleString()}
+                  </td>
+                  <td className="py-1.5 pr-4 text-right" style={{ color: '#94a3b8' }}>{rule.skipped.toLocaleString()}</td>
+                  <td className="py-1.5">
+                    <div className="flex items-center gap-2" style={{ minWidth: 100 }}>
+                      <div className="h-2 flex-1 rounded-full" style={{ background: '#e2e8f0' }}>
+                        <div
+                          className="h-2 rounded-full"
+                          style={{ width: `${rate}%`, background: rate >= 95 ? '#10b981' : rate >= 80 ? '#f59e0b' : '#ef4444' }}
+                        />
+                      </div>
+                      <span style={{ color: '#64748b' }}>{rate}%</span>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default RuleResultsPanel;
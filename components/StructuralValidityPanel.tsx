@@ -0,0 +1,115 @@
+import React from 'react';
+import type { StructuralValidity } from '../lib/dqiEngine';
+
+interface Props {
+  structure: StructuralValidity;
+}
+
+/**
+ * StructuralValidityPanel: Records that could not be read as rows.
+ * Shows line numbers and field counts only, never the row contents.
+ */
+export const StructuralValidityPanel: React.FC<Props> = ({ structure }) => {
+  const clean = structure.malformedRows === 0 && !structure.unterminatedQuote;
+  const counts = [
+    { label: 'Records Read', value: structure.recordsRead.toLocaleString() },
+    { label: 'Malformed', value: structure.malformedRows.toLocaleString() },
+    { label: 'Too Few Fields', value: structure.tooFewFields.toLocaleString() },
+    { label: 'Too Many Fields', value: structure.tooManyFields.toLocaleString() },
+  ];
+  if (structure.unparseableRows > 0) {
+    counts.push({ label: 'Unparseable Lines', value: structure.unparseableRows.toLocaleString() });
+  }
+
+  return (
+    <section
+      className="rounded-2xl p-4 shadow-lg sm:p-6"
+      style={{ background: '#fff', border: clean ? '1px solid #e2e8f0' : '2px solid #fca5a5' }}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Structural Validity</h3>
+          <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+            {clean
+              ? `All ${structure.recordsRead.toLocaleString()} records have the expected ${structure.expectedFields} fields`
+              : `${(structure.malformedRatio * 100).toFixed(2)}% of records were excluded from analysis; expected ${structure.expectedFields} fields per record`}
+          </p>
+        </div>
+        {structure.scorePenalty > 0 && (
+          <span
+            className="rounded-full px-3 py-1 text-xs font-bold"
+            style={{ background: '#fee2e2', color: '#b91c1c' }}
+          >
+            −{structure.scorePenalty} points
+          </span>
+        )}
+      </div>
+
+      {!clean && (
+        <>
+          <div className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-5">
+            {counts.map(item => (
+              <div key={item.label} className="rounded-lg p-3 text-center" style={{ background: '#f8fafc', border: '1px solid #e2e8f0' }}>
+                <div className="text-lg font-bold" style={{ color: '#1e293b' }}>{item.value}</div>
+                <div className="text-xs" style={{ color: '#64748b' }}>{item.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {structure.unterminatedQuote && (
+            <div className="mt-4 rounded-lg p-3 text-xs" style={{ background: '#fef3c7', color: '#92400e' }}>
+              A quoted field is never closed. Everything after it may have been read as a single value.
+            </div>
+          )}
+
+          {structure.fieldCountHistogram.length > 0 && (
+            <div className="mt-4">
+              <div className="mb-2 text-xs font-medium" style={{ color: '#64748b' }}>Field counts on malformed records</div>
+              <div className="flex flex-wrap gap-2">
+                {structure.fieldCountHistogram.map(bucket => (
+                  <span
+                    key={bucket.fields}
+                    className="rounded px-2 py-1 text-xs"
+                    style={{ background: '#f1f5f9', color: '#475569' }}
+                  >
+                    {bucket.fields} fields × {bucket.rows.toLocaleString()}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {structure.samples.length > 0 && (
+            <div className="mt-4 overflow-x-auto">
+              <table className="w-full text-left text-xs">
+                <thead>
+                  <tr style={{ color: '#64748b', borderBottom: '1px solid #e2e8f0' }}>
+                    <th className="py-2 pr-4 font-medium">Line</th>
+                    <th className="py-2 pr-4 font-medium">Expected Fields</th>
+                    <th className="py-2 font-medium">Actual Fields</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {structure.samples.map(sample => (
+                    <tr key={sample.line} style={{ color: '#334155', borderBottom: '1px solid #f1f5f9' }}>
+                      <td className="py-1.5 pr-4 font-mono">{sample.line}</td>
+                      <td className="py-1.5 pr-4">{sample.expectedFields}</td>
+                      <td className="py-1.5">{sample.actualFields ?? 'Not parseable'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {structure.malformedRows > structure.samples.length && (
+                <p className="mt-2 text-xs" style={{ color: '#94a3b8' }}>
+                  Showing the first {structure.samples.length} of {structure.malformedRows.toLocaleString()} malformed records
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default StructuralValidityPanel;
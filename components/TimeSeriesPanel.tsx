@@ -0,0 +1,103 @@
+import React from 'react';
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceDot, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { describePeriod, type PeriodFlag, type TimeSeriesResult } from '../lib/timeSeries';
+
+interface Props {
+  series: TimeSeriesResult;
+}
+
+const FLAG_LABELS: Record<PeriodFlag, string> = {
+  missing: 'No rows',
+  duplicate: 'Loaded twice',
+  volume: 'Volume off baseline',
+  amount: 'Amount off baseline',
+};
+
+/**
+ * TimeSeriesPanel: Rows per period of the chosen date column against the
+ * rolling baseline, with missing, duplicated and anomalous periods marked
+ */
+export const TimeSeriesPanel: React.FC<Props> = ({ series }) => {
+  const label = (start: string) => describePeriod(start, series.granularity);
+  const data = series.periods.map(p => ({ period: label(p.start), rows: p.rows, baseline: p.baseline }));
+  const flagged = series.periods.filter(p => p.flags);
+  const counts = [
+    { label: 'Missing', value: series.missingPeriods },
+    { label: 'Loaded twice', value: series.duplicatePeriods },
+    { label: 'Volume anomalies', value: series.volumeAnomalies },
+    ...(series.amountColumn ? [{ label: 'Amount anomalies', value: series.amountAnomalies }] : []),
+  ];
+
+  return (
+    <section className="rounded-2xl p-4 shadow-lg sm:p-6" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
+      <div>
+        <h3 className="text-lg font-bold" style={{ color: '#1e293b' }}>Volume Over Time</h3>
+        <p className="mt-1 text-xs sm:text-sm" style={{ color: '#64748b' }}>
+          Rows per {series.granularity} by {series.column}; periods {Math.round(series.threshold * 100)}% or more off the rolling baseline are flagged
+          {series.coarsened && '. Finer periods would have been too many to chart'}
+        </p>
+      </div>
+
+      <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {counts.map(c => (
+          <div key={c.label} className="rounded-lg p-2" style={{ background: c.value > 0 ? '#fef3c7' : '#f8fafc' }}>
+            <div className="text-lg font-bold" style={{ color: c.value > 0 ? '#92400e' : '#1e293b' }}>{c.value}</div>
+            <div className="text-xs" style={{ color: '#64748b' }}>{c.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4" style={{ width: '100%', height: 220 }}>
+        <ResponsiveContainer>
+          <ComposedChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="period" tick={{ fontSize: 10 }} minTickGap={24} />
+            <YAxis tick={{ fontSize: 10 }} />
+            <Tooltip />
+            <Area type="monotone" dataKey="rows" stroke="#6366f1" fill="#e0e7ff" strokeWidth={2} />
+            <Line type="monotone" dataKey="baseline" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+            {flagged.slice(0, 100).map(p => (
+              <ReferenceDot key={p.start} x={label(p.start)} y={p.rows} r={3} fill="#ef4444" stroke="none" />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {flagged.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr style={{ color: '#64748b', borderBottom: '1px solid #e2e8f0' }}>
+                <th className="py-2 pr-4 font-medium">Period</th>
+                <th className="py-2 pr-4 font-medium">Issue</th>
+                <th className="py-2 pr-4 text-right font-medium">Rows</th>
+                <th className="py-2 text-right font-medium">Baseline</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flagged.slice(0, 10).map(p => (
+                <tr key={p.start} style={{ color: '#334155', borderBottom: '1px solid #f1f5f9' }}>
+                  <td className="py-1.5 pr-4 font-mono">{label(p.start)}</td>
+                  <td className="py-1.5 pr-4">{p.flags!.map(f => FLAG_LABELS[f]).join(', ')}</td>
+                  <td className="py-1.5 pr-4 text-right">{p.rows.toLocaleString()}</td>
+                  <td className="py-1.5 text-right" style={{ color: '#94a3b8' }}>{p.baseline?.toLocaleString() ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {flagged.length > 10 && (
+            <p className="mt-2 text-xs" style={{ color: '#94a3b8' }}>Showing 10 of {flagged.length} flagged periods</p>
+          )}
+        </div>
+      )}
+      {(series.undated > 0 || series.outOfRange > 0) && (
+        <p className="mt-3 text-xs" style={{ color: '#64748b' }}>
+          {series.undated > 0 && `${series.undated.toLocaleString()} rows had no readable date. `}
+          {series.outOfRange > 0 && `${series.outOfRange.toLocaleString()} rows dated far from the rest${series.truncated ? ` or before the latest ${series.periods.length} periods` : ''} were left out.`}
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default TimeSeriesPanel;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Role } from '../types/dqs';
-import { analyzeDQI, storeDQIReport, type DQIReport } from '../lib/dqiEngine';
+import { storeDQIReport, type DQIReport } from '../lib/dqiEngine';
+import { describeProgress, isAnalysisCancelled, startAnalysis, type AnalysisTask } from '../lib/analysisClient';
 
 interface Props {
   role: Role;
@@ -18,6 +19,7 @@ export const UploadPanel: React.FC<Props> = ({ role, onAnalyze }) => {
   const [selectedFile, setSelectedFile] = React.useState<File | null>(null);
   const [isAnalyzing, setIsAnalyzing] = React.useState(false);
   const [analysisStatus, setAnalysisStatus] = React.useState<string>('');
+  const analysisRef = React.useRef<AnalysisTask | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0] || null;
@@ -29,14 +31,15 @@ export const UploadPanel: React.FC<Props> = ({ role, onAnalyze }) => {
     if (!selectedFile) return;
 
     setIsAnalyzing(true);
-    setAnalysisStatus('Extracting metadata...');
+    setAnalysisStatus('Reading file...');
     
     try {
-      // Client-side DQI analysis - no data leaves the browser
-      setAnalysisStatus('Analyzing data quality dimensions...');
-      const report = await analyzeDQI(selectedFile);
-      
-      setAnalysisStatus('Generating recommendations...');
+      // Client-side DQI analysis in a background worker - no data leaves the browser
+      const task = startAnalysis(selectedFile, {}, (update) => {
+        setAnalysisStatus(`${describeProgress(update)} (${update.percent}%)`);
+      });
+      analysisRef.current = task;
+      const report = await task.result;
       
       // Store report in localStorage for dashboard
       storeDQIReport(report);
@@ -47,14 +50,22 @@ export const UploadPanel: React.FC<Props> = ({ role, onAnalyze }) => {
       // Pass both file and report to parent
       onAnalyze(selectedFile, report);
     } catch (error) {
+      if (isAnalysisCancelled(error)) {
+        setAnalysisStatus('Analysis cancelled.');
+        return;
+      }
       console.error('Analysis error:', error);
       setAnalysisStatus('Analysis failed. Please check the file format.');
-      alert('Failed to analyze file. Please ensure it is a valid CSV file.');
+      alert('Failed to analyze file. Please ensure it is a valid CSV, Excel, JSON or Parquet file.');
     } finally {
+      analysisRef.current = null;
       setIsAnalyzing(false);
     }
   };
 
+  // Stop a running worker if the panel unmounts mid-analysis
+  React.useEffect(() => () => analysisRef.current?.cancel(), []);
+
   return (
     <section className="card rounded-xl p-5 shadow" style={{ background: '#fff', border: '1px solid #e2e8f0' }}>
       <h3 className="section-title flex items-center gap-2">
@@ -84,7 +95,7 @@ export const UploadPanel: React.FC<Props> = ({ role, onAnalyze }) => {
             <input
               aria-label="Upload dataset"
               type="file"
-              accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+              accept=".csv, .xlsx, .xlsm, .xls, .json, .ndjson, .jsonl, .parquet, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
               className="w-full text-sm"
               onChange={handleFileChange}
             />
@@ -143,6 +154,17 @@ export const UploadPanel: React.FC<Props> = ({ role, onAnalyze }) => {
           {isAnalyzing ? '⏳ Analyzing...' : '🔍 Analyze Data Quality'}
         </button>
 
+        {isAnalyzing && (
+          <button
+            type="button"
+            onClick={() => analysisRef.current?.cancel()}
+            className="w-full rounded-lg border py-2 text-sm font-medium transition hover:bg-slate-50"
+            style={{ borderColor: '#cbd5e1', color: '#475569' }}
+          >
+            Cancel Analysis
+          </button>
+        )}
+
         {/* Privacy notice */}
         <div className="text-xs text-center" style={{ color: '#94a3b8' }}>
           🔒 Privacy-first: All analysis happens locally in your browser.<br />
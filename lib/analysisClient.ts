@@ -0,0 +1,147 @@
+/**
+ * Background Analysis Client
+ * Runs analyzeDQI in a Web Worker so large files do not freeze the page.
+ * Progress events from the engine are relayed as they happen and a running
+ * analysis can be cancelled at any time.
+ */
+
+import { registerCustomDimensions } from './customDimensions';
+import { analyzeDQI, type AnalysisOptions, type AnalysisProgress, type DQIReport } from './dqiEngine';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+// Callbacks and signals cannot cross the worker boundary
+export type WorkerAnalysisOptions = Omit<AnalysisOptions, 'onProgress' | 'signal'>;
+
+export interface AnalysisWorkerRequest {
+  type: 'analyze';
+  file: File;
+  options: WorkerAnalysisOptions;
+}
+
+export type AnalysisWorkerMessage =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; report: DQIReport }
+  | { type: 'error'; message: string };
+
+export interface AnalysisTask {
+  result: Promise<DQIReport>; // Rejects with an AbortError when cancelled
+  cancel: () => void;
+}
+
+const STAGE_LABELS: Record<AnalysisProgress['stage'], string> = {
+  reading: 'Reading file',
+  profiling: 'Profiling columns',
+  scoring: 'Scoring dimensions',
+  reporting: 'Generating recommendations',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function createAbortError(): Error {
+  const error = new Error('Analysis cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * True when an analysis failed because the user cancelled it
+ */
+export function isAnalysisCancelled(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * One-line status text for a progress event
+ */
+export function describeProgress(progress: AnalysisProgress): string {
+  if (progress.dimension) {
+    return `Scoring ${progress.dimension}...`;
+  }
+  if ((progress.stage === 'profiling' || progress.stage === 'scoring') && progress.totalBytes > 0) {
+    return `${STAGE_LABELS[progress.stage]}: ${formatMegabytes(progress.bytesProcessed)} of ${formatMegabytes(progress.totalBytes)}`;
+  }
+  return `${STAGE_LABELS[progress.stage]}...`;
+}
+
+/**
+ * Fallback for environments without Web Workers: run on the main thread
+ * and cancel through an AbortSignal
+ */
+function startOnMainThread(
+  file: File,
+  options: WorkerAnalysisOptions,
+  onProgress?: (progress: AnalysisProgress) => void
+): AnalysisTask {
+  registerCustomDimensions();
+  const controller = new AbortController();
+  return {
+    result: analyzeDQI(file, { ...options, onProgress, signal: controller.signal }).catch(error => {
+      throw controller.signal.aborted ? createAbortError() : error;
+    }),
+    cancel: () => controller.abort(),
+  };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Start analyzing a file in a Web Worker
+ */
+export function startAnalysis(
+  file: File,
+  options: WorkerAnalysisOptions = {},
+  onProgress?: (progress: AnalysisProgress) => void
+): AnalysisTask {
+  if (typeof Worker === 'undefined') {
+    return startOnMainThread(file, options, onProgress);
+  }
+
+  const worker = new Worker(new URL('./analysisWorker.ts', import.meta.url), { type: 'module' });
+  let rejectResult: (error: Error) => void = () => {};
+
+  const result = new Promise<DQIReport>((resolve, reject) => {
+    rejectResult = reject;
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.report);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    const request: AnalysisWorkerRequest = { type: 'analyze', file, options };
+    worker.postMessage(request);
+  });
+
+  return {
+    result,
+    // Terminating stops the worker immediately, even mid-chunk
+    cancel: () => {
+      worker.terminate();
+      rejectResult(createAbortError());
+    },
+  };
+}
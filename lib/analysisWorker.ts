@@ -0,0 +1,30 @@
+/**
+ * DQI Analysis Worker
+ * Web Worker entry point that runs the engine off the main thread.
+ * Started by startAnalysis in analysisClient; the file never leaves the browser.
+ */
+
+import { registerCustomDimensions } from './customDimensions';
+import { analyzeDQI } from './dqiEngine';
+import type { AnalysisWorkerMessage, AnalysisWorkerRequest } from './analysisClient';
+
+const scope = self as unknown as Worker;
+
+registerCustomDimensions();
+
+function post(message: AnalysisWorkerMessage): void {
+  scope.postMessage(message);
+}
+
+scope.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { file, options } = event.data;
+  try {
+    const report = await analyzeDQI(file, {
+      ...options,
+      onProgress: progress => post({ type: 'progress', progress }),
+    });
+    post({ type: 'result', report });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Analysis failed' });
+  }
+};
@@ -0,0 +1,578 @@
+/**
+ * Cross-Column Business Rules
+ * Row-level conditions between columns, declared under `businessRules` in
+ * the rules file and evaluated once per row during the scoring scan:
+ *
+ *   businessRules:
+ *     - id: settles-after-transaction
+ *       expression: settlement_date >= transaction_date
+ *     - id: refund-within-amount
+ *       expression: refund_amount <= amount
+ *     - id: declined-has-no-auth-code
+ *       expression: if status = 'DECLINED' then auth_code is null
+ *       dimension: integrity
+ *
+ * Expressions support comparisons (= != < <= > >=), arithmetic (+ - * /),
+ * and / or / not, `is [not] null`, `[not] in (...)` and `if ... then ...`.
+ * Column names with spaces go in backticks or brackets. Date columns are
+ * read with their inferred format and count in days, so
+ * `settlement_date - transaction_date <= 3` means "within three days".
+ * Text compares exactly.
+ *
+ * A comparison touching a missing value is unknown rather than false, so
+ * rows that cannot be checked are counted as skipped, not as violations.
+ */
+
+import { createDateParser, type DateOrder } from './dateParsing';
+import type { ColumnSchema, ParsedRow } from './dqiEngine';
+import { columnMissingRules, type MissingValueConfig } from './missingValues';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type BusinessRuleDimension = 'consistency' | 'integrity';
+
+export interface BusinessRuleSpec {
+  id: string;
+  expression: string; // Must hold for every row, e.g. "refund_amount <= amount"
+  dimension?: BusinessRuleDimension; // Dimension violations count against (default consistency)
+  description?: string;
+}
+
+export interface BusinessRuleResult {
+  id: string;
+  expression: string;
+  description?: string;
+  dimension: BusinessRuleDimension;
+  columns: string[]; // Columns the expression reads
+  passed: number;
+  violated: number;
+  skipped: number; // Rows where a value the rule needs was missing or unreadable
+  missingColumns?: string[]; // Referenced columns the file does not have; the rule is not evaluated
+  error?: string; // Why the rule could not be evaluated against this file, e.g. a date literal that does not parse
+}
+
+export interface BusinessRuleEvaluator {
+  observe: (row: ParsedRow) => void;
+  results: () => BusinessRuleResult[];
+}
+
+type Value = number | string | boolean | null;
+type CompareOp = '=' | '!=' | '<' | '<=' | '>' | '>=';
+type ArithOp = '+' | '-' | '*' | '/';
+
+type Expr =
+  | { type: 'literal'; value: Value }
+  | { type: 'column'; name: string }
+  | { type: 'arith'; op: ArithOp; left: Expr; right: Expr }
+  | { type: 'negate'; operand: Expr }
+  | { type: 'compare'; op: CompareOp; left: Expr; right: Expr }
+  | { type: 'isNull'; operand: Expr; negated: boolean }
+  | { type: 'in'; operand: Expr; values: Expr[]; negated: boolean }
+  | { type: 'and' | 'or'; left: Expr; right: Expr }
+  | { type: 'not'; operand: Expr }
+  | { type: 'implies'; condition: Expr; consequence: Expr };
+
+interface Token {
+  kind: 'number' | 'string' | 'column' | 'keyword' | 'symbol' | 'end';
+  text: string;
+  position: number; // 1-based character offset, for error messages
+}
+
+const BUSINESS_RULE_DIMENSIONS: BusinessRuleDimension[] = ['consistency', 'integrity'];
+const KEYWORDS = new Set(['and', 'or', 'not', 'if', 'then', 'is', 'null', 'true', 'false', 'in']);
+const SYMBOLS = ['<=', '>=', '!=', '<>', '==', '=', '<', '>', '+', '-', '*', '/', '(', ')', ','];
+const MS_PER_DAY = 86_400_000;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const position = i + 1;
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "'" || char === '"') {
+      const end = source.indexOf(char, i + 1);
+      if (end < 0) throw new Error(`unterminated text starting at position ${position}`);
+      tokens.push({ kind: 'string', text: source.substring(i + 1, end), position });
+      i = end + 1;
+    } else if (char === '`' || char === '[') {
+      const end = source.indexOf(char === '`' ? '`' : ']', i + 1);
+      if (end < 0) throw new Error(`unterminated column name starting at position ${position}`);
+      tokens.push({ kind: 'column', text: source.substring(i + 1, end), position });
+      i = end + 1;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(source.substring(i));
+      if (!match) throw new Error(`unexpected '${char}' at position ${position}`);
+      tokens.push({ kind: 'number', text: match[0], position });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = /^[A-Za-z_][\w.]*/.exec(source.substring(i))![0];
+      const lower = word.toLowerCase();
+      tokens.push(KEYWORDS.has(lower) ? { kind: 'keyword', text: lower, position } : { kind: 'column', text: word, position });
+      i += word.length;
+    } else {
+      const symbol = SYMBOLS.find(s => source.startsWith(s, i));
+      if (!symbol) throw new Error(`unexpected '${char}' at position ${position}`);
+      tokens.push({ kind: 'symbol', text: symbol, position });
+      i += symbol.length;
+    }
+  }
+
+  tokens.push({ kind: 'end', text: 'end of expression', position: source.length + 1 });
+  return tokens;
+}
+
+function isBoolean(expr: Expr): boolean {
+  if (expr.type === 'literal') return typeof expr.value === 'boolean';
+  return expr.type !== 'column' && expr.type !== 'arith' && expr.type !== 'negate';
+}
+
+/**
+ * Parse an expression into a tree; throws with the position of the first error
+ */
+function parseExpression(source: string): Expr {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const accept = (text: string) => {
+    const token = tokens[index];
+    if ((token.kind === 'keyword' || token.kind === 'symbol') && token.text === text) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (text: string) => {
+    if (!accept(text)) throw new Error(`expected '${text}' at position ${peek().position}, found '${peek().text}'`);
+  };
+  const condition = (expr: Expr, context: string) => {
+    if (!isBoolean(expr)) throw new Error(`${context} must be a condition, not a value`);
+    return expr;
+  };
+
+  // if A then B  |  A or B
+  const parseRule = (): Expr => {
+    if (accept('if')) {
+      const cond = condition(parseOr(), "'if'");
+      expect('then');
+      return { type: 'implies', condition: cond, consequence: condition(parseOr(), "'then'") };
+    }
+    return parseOr();
+  };
+
+  const parseOr = (): Expr => {
+    let left = parseAnd();
+    while (accept('or')) {
+      left = { type: 'or', left: condition(left, "'or'"), right: condition(parseAnd(), "'or'") };
+    }
+    return left;
+  };
+
+  const parseAnd = (): Expr => {
+    let left = parseNot();
+    while (accept('and')) {
+      left = { type: 'and', left: condition(left, "'and'"), right: condition(parseNot(), "'and'") };
+    }
+    return left;
+  };
+
+  const parseNot = (): Expr => {
+    if (accept('not')) return { type: 'not', operand: condition(parseNot(), "'not'") };
+    return parseComparison();
+  };
+
+  const parseComparison = (): Expr => {
+    const left = parseAdditive();
+    const token = peek();
+
+    if (accept('is')) {
+      const negated = accept('not');
+      expect('null');
+      return { type: 'isNull', operand: left, negated };
+    }
+    const negatedIn = token.kind === 'keyword' && token.text === 'not' && tokens[index + 1].text === 'in';
+    if (negatedIn) index++;
+    if (accept('in')) {
+      expect('(');
+      const values: Expr[] = [parseAdditive()];
+      while (accept(',')) values.push(parseAdditive());
+      expect(')');
+      return { type: 'in', operand: left, values, negated: negatedIn };
+    }
+    if (token.kind === 'symbol' && ['=', '==', '!=', '<>', '<', '<=', '>', '>='].includes(token.text)) {
+      index++;
+      const op = token.text === '==' ? '=' : token.text === '<>' ? '!=' : token.text as CompareOp;
+      return { type: 'compare', op, left, right: parseAdditive() };
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Expr => {
+    let left = parseMultiplicative();
+    for (let token = peek(); token.text === '+' || token.text === '-'; token = peek()) {
+      index++;
+      left = { type: 'arith', op: token.text as ArithOp, left, right: parseMultiplicative() };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): Expr => {
+    let left = parseUnary();
+    for (let token = peek(); token.text === '*' || token.text === '/'; token = peek()) {
+      index++;
+      left = { type: 'arith', op: token.text as ArithOp, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expr => {
+    if (accept('-')) return { type: 'negate', operand: parseUnary() };
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expr => {
+    const token = tokens[index++];
+    switch (token.kind) {
+      case 'number': return { type: 'literal', value: Number(token.text) };
+      case 'string': return { type: 'literal', value: token.text };
+      case 'column': return { type: 'column', name: token.text };
+      case 'keyword':
+        if (token.text === 'null') return { type: 'literal', value: null };
+        if (token.text === 'true' || token.text === 'false') return { type: 'literal', value: token.text === 'true' };
+        break;
+      case 'symbol':
+        if (token.text === '(') {
+          const inner = parseRule();
+          expect(')');
+          return inner;
+        }
+        break;
+    }
+    throw new Error(`unexpected '${token.text}' at position ${token.position}`);
+  };
+
+  const tree = parseRule();
+  if (peek().kind !== 'end') throw new Error(`unexpected '${peek().text}' at position ${peek().position}`);
+  return condition(tree, 'A rule');
+}
+
+function collectColumns(expr: Expr, into: string[] = []): string[] {
+  switch (expr.type) {
+    case 'literal': break;
+    case 'column': if (!into.includes(expr.name)) into.push(expr.name); break;
+    case 'negate':
+    case 'not':
+    case 'isNull': collectColumns(expr.operand, into); break;
+    case 'in': collectColumns(expr.operand, into); expr.values.forEach(v => collectColumns(v, into)); break;
+    case 'implies': collectColumns(expr.condition, into); collectColumns(expr.consequence, into); break;
+    default: collectColumns(expr.left, into); collectColumns(expr.right, into);
+  }
+  return into;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the `businessRules` list of a rules file; every expression must parse
+ */
+export function validateBusinessRules(list: unknown): BusinessRuleSpec[] {
+  if (!Array.isArray(list)) throw new Error("'businessRules' must be a list of { id, expression } entries");
+
+  const ids = new Set<string>();
+  return list.map((entry, i) => {
+    if (!isRecord(entry) || typeof entry.expression !== 'string' || !entry.expression.trim()) {
+      throw new Error(`Business rule ${i + 1} needs an 'expression'`);
+    }
+    const id = typeof entry.id === 'string' && entry.id ? entry.id : `rule-${i + 1}`;
+    if (ids.has(id)) throw new Error(`Business rule id '${id}' is used twice`);
+    ids.add(id);
+
+    if (entry.dimension !== undefined && !BUSINESS_RULE_DIMENSIONS.includes(entry.dimension as BusinessRuleDimension)) {
+      throw new Error(`Business rule '${id}' dimension must be one of ${BUSINESS_RULE_DIMENSIONS.join(', ')}`);
+    }
+    try {
+      parseExpression(entry.expression);
+    } catch (err) {
+      throw new Error(`Business rule '${id}': ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    return {
+      id,
+      expression: entry.expression.trim(),
+      dimension: entry.dimension as BusinessRuleDimension | undefined,
+      description: typeof entry.description === 'string' ? entry.description : undefined,
+    };
+  });
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+type Evaluate = (row: ParsedRow) => Value;
+
+interface ColumnReader {
+  name: string; // Header as it appears in the file
+  read: Evaluate;
+  isDate: boolean;
+}
+
+function asNumber(value: Value): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const number = Number(value);
+  return isNaN(number) ? null : number;
+}
+
+function compareValues(op: CompareOp, a: Value, b: Value): boolean | null {
+  if (a === null || b === null) return null;
+  if (typeof a !== typeof b) {
+    // A quoted number against a numeric column still compares as a number,
+    // and true/false against text reading "true"/"false" as that text
+    const x = asNumber(a);
+    const y = asNumber(b);
+    if (x !== null && y !== null) return compareValues(op, x, y);
+    if ((typeof a === 'boolean' && typeof b === 'string') || (typeof a === 'string' && typeof b === 'boolean')) {
+      return compareValues(op, String(a).toLowerCase(), String(b).toLowerCase());
+    }
+    if (op === '=') return false;
+    if (op === '!=') return true;
+    return null;
+  }
+  switch (op) {
+    case '=': return a === b;
+    case '!=': return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+}
+
+/**
+ * Turn a tree into a closure over the row. Date literals compared against
+ * date columns are converted once here rather than on every row.
+ */
+function compile(expr: Expr, columns: Map<string, ColumnReader>): Evaluate {
+  const isDate = (e: Expr): boolean =>
+    (e.type === 'column' && columns.get(e.name)!.isDate) ||
+    (e.type === 'arith' && (e.op === '+' || e.op === '-') && isDate(e.left) && !isDate(e.right));
+
+  const asDateLiteral = (e: Expr): Evaluate => {
+    if (e.type === 'literal' && typeof e.value === 'string') {
+      const date = createDateParser()(e.value);
+      if (!date) throw new Error(`'${e.value}' is not a date`);
+      const days = date.getTime() / MS_PER_DAY;
+      return () => days;
+    }
+    return compile(e, columns);
+  };
+
+  switch (expr.type) {
+    case 'literal': {
+      const value = expr.value;
+      return () => value;
+    }
+    case 'column':
+      return columns.get(expr.name)!.read;
+    case 'negate': {
+      const operand = compile(expr.operand, columns);
+      return (row) => {
+        const v = operand(row);
+        return typeof v === 'number' ? -v : null;
+      };
+    }
+    case 'arith': {
+      const left = compile(expr.left, columns);
+      const right = compile(expr.right, columns);
+      const op = expr.op;
+      return (row) => {
+        const a = left(row);
+        const b = right(row);
+        if (typeof a !== 'number' || typeof b !== 'number') return null;
+        switch (op) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return b === 0 ? null : a / b;
+        }
+      };
+    }
+    case 'compare': {
+      const dates = isDate(expr.left) || isDate(expr.right);
+      const left = dates ? asDateLiteral(expr.left) : compile(expr.left, columns);
+      const right = dates ? asDateLiteral(expr.right) : compile(expr.right, columns);
+      const op = expr.op;
+      return (row) => compareValues(op, left(row), right(row));
+    }
+    case 'isNull': {
+      const operand = compile(expr.operand, columns);
+      const negated = expr.negated;
+      return (row) => (operand(row) === null) !== negated;
+    }
+    case 'in': {
+      const dates = isDate(expr.operand);
+      const operand = compile(expr.operand, columns);
+      const values = expr.values.map(v => dates ? asDateLiteral(v) : compile(v, columns));
+      const negated = expr.negated;
+      return (row) => {
+        const v = operand(row);
+        if (v === null) return null;
+        let unknown = false;
+        for (const candidate of values) {
+          const equal = compareValues('=', v, candidate(row));
+          if (equal) return !negated;
+          if (equal === null) unknown = true;
+        }
+        return unknown ? null : negated;
+      };
+    }
+    case 'not': {
+      const operand = compile(expr.operand, columns);
+      return (row) => {
+        const v = operand(row);
+        return v === null ? null : !v;
+      };
+    }
+    case 'and': {
+      const left = compile(expr.left, columns);
+      const right = compile(expr.right, columns);
+      return (row) => {
+        const a = left(row);
+        if (a === false) return false;
+        const b = right(row);
+        if (b === false) return false;
+        return a === null || b === null ? null : true;
+      };
+    }
+    case 'or': {
+      const left = compile(expr.left, columns);
+      const right = compile(expr.right, columns);
+      return (row) => {
+        const a = left(row);
+        if (a === true) return true;
+        const b = right(row);
+        if (b === true) return true;
+        return a === null || b === null ? null : false;
+      };
+    }
+    case 'implies': {
+      const condition = compile(expr.condition, columns);
+      const consequence = compile(expr.consequence, columns);
+      return (row) => {
+        const applies = condition(row);
+        if (applies === false) return true;
+        if (applies === null) return null;
+        return consequence(row);
+      };
+    }
+  }
+}
+
+function createColumnReader(
+  col: ColumnSchema,
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder,
+  isDate: boolean
+): ColumnReader {
+  const classify = columnMissingRules(missingValues, col.name).classify;
+  const name = col.name;
+
+  if (isDate) {
+    const parseDate = createDateParser(col.dateFormat, dateOrder);
+    return {
+      name,
+      isDate,
+      read: (row) => {
+        const v = row[name];
+        if (typeof v !== 'string' || classify(v)) return null;
+        const date = parseDate(v);
+        return date ? date.getTime() / MS_PER_DAY : null;
+      },
+    };
+  }
+  return {
+    name,
+    isDate,
+    read: (row) => {
+      const v = row[name];
+      if (v === undefined || v === null || classify(v)) return null;
+      return typeof v === 'string' ? v.trim() : v;
+    },
+  };
+}
+
+/**
+ * Compile business rules against the dataset's columns. References match
+ * headers exactly, or ignoring case when no header matches exactly.
+ */
+export function createBusinessRuleEvaluator(
+  rules: BusinessRuleSpec[],
+  schema: ColumnSchema[],
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder,
+  isDateColumn: (col: ColumnSchema) => boolean
+): BusinessRuleEvaluator {
+  const compiled = rules.map(spec => {
+    const tree = parseExpression(spec.expression);
+    const readers = new Map<string, ColumnReader>();
+    const missingColumns: string[] = [];
+
+    for (const reference of collectColumns(tree)) {
+      const col = schema.find(c => c.name === reference) ??
+        schema.find(c => c.name.toLowerCase() === reference.toLowerCase());
+      if (col) readers.set(reference, createColumnReader(col, missingValues, dateOrder, isDateColumn(col)));
+      else missingColumns.push(reference);
+    }
+
+    let evaluate: Evaluate | null = null;
+    let error: string | undefined;
+    if (missingColumns.length === 0) {
+      try {
+        evaluate = compile(tree, readers);
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    return {
+      result: {
+        id: spec.id,
+        expression: spec.expression,
+        description: spec.description,
+        dimension: spec.dimension ?? 'consistency',
+        columns: Array.from(readers.values()).map(r => r.name),
+        passed: 0,
+        violated: 0,
+        skipped: 0,
+        missingColumns: missingColumns.length > 0 ? missingColumns : undefined,
+        error,
+      } as BusinessRuleResult,
+      evaluate,
+    };
+  });
+
+  return {
+    observe: (row) => {
+      for (const rule of compiled) {
+        const outcome = rule.evaluate ? rule.evaluate(row) : null;
+        if (outcome === true) rule.result.passed++;
+        else if (outcome === false) rule.result.violated++;
+        else rule.result.skipped++;
+      }
+    },
+    results: () => compiled.map(rule => ({ ...rule.result })),
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Candidate Key Discovery
+ * Finds the minimal column combinations whose values are present and
+ * unique on every row, so a primary key can be confirmed instead of
+ * guessed from column names (customer_id repeats in a transactions file
+ * by design).
+ *
+ * Profiling already gives each column's null and unique ratios; those
+ * pick which columns and pairs or triples are worth checking, ranked by
+ * how many distinct combinations they could produce. The scoring scan
+ * then checks every candidate exactly as value hashes, dropping one at
+ * its first repeat; keys the hash budget ran out on are reported as
+ * unverified. A confirmed primary key is checked in the same scan.
+ */
+
+import type { ColumnSchema, ParsedRow } from './dqiEngine';
+import { columnMissingRules, type ColumnMissingRules, type MissingValueConfig } from './missingValues';
+import { createDistinctCounter, hashString } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface CandidateKey {
+  columns: string[]; // Minimal: no smaller subset is unique
+  unverified?: boolean; // The hash budget ran out before every row was checked; no repeat was seen in the rows that were
+}
+
+export interface CandidateKeyDiscovery {
+  keys: CandidateKey[]; // Single columns first, then pairs, then triples
+  combinationsChecked: number;
+  maxColumns: number; // Largest combination size searched
+  limited: boolean; // Some plausible combinations were not checked, or some keys are unverified
+}
+
+export interface ColumnDistinct {
+  count: number; // Distinct non-missing values
+  exact: boolean; // False when estimated from a hash sample
+}
+
+export interface PrimaryKeyCheck {
+  columns: string[]; // As confirmed by the user
+  missingColumns?: string[]; // Confirmed columns the file does not have; the key is not checked
+  duplicateKeyRows: number; // Rows repeating a key value seen on an earlier row
+  missingKeyRows: number; // Rows with a missing value in any key column
+  unique: boolean;
+  approximate?: boolean; // Repeats estimated past the exact counting limit
+}
+
+export interface KeyChecker {
+  observe: (row: ParsedRow) => void;
+  finish: () => { candidateKeys: CandidateKeyDiscovery; primaryKey?: PrimaryKeyCheck };
+}
+
+const MAX_KEY_COLUMNS = 3;
+const MAX_COMBINATIONS = 60; // Candidates checked in one scan
+const WIDE_KEY_COLUMNS = 10; // Columns with the most distinct values that combinations of three or more are formed from
+const KEY_HASH_BUDGET = 2_000_000; // Value hashes held across all candidates before new ones stop being recorded
+const PRIMARY_KEY_EXACT_LIMIT = 1_000_000; // Distinct primary key values counted exactly before estimating
+const NEAR_UNIQUE_RATIO = 0.99; // Profiled unique ratio at which a column is checked as a key on its own
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+interface KeyColumn {
+  name: string;
+  distinct: number; // Exact when profiling counted exactly, else estimated from the unique ratio
+  unique: boolean; // Known to hold one distinct value per row
+  nearUnique: boolean;
+}
+
+function combinations(columns: KeyColumn[], size: number): KeyColumn[][] {
+  if (size === 0) return [[]];
+  const result: KeyColumn[][] = [];
+  columns.forEach((column, i) => {
+    for (const rest of combinations(columns.slice(i + 1), size - 1)) result.push([column, ...rest]);
+  });
+  return result;
+}
+
+/**
+ * Columns and combinations worth checking. A combination is kept only if
+ * its columns' distinct counts could multiply to one value per row. Near
+ * unique columns are checked alone; columns known to be unique are left
+ * out of larger combinations, which could not be minimal.
+ */
+function planCandidates(
+  schema: ColumnSchema[],
+  rowCount: number,
+  distinct: Map<string, ColumnDistinct>
+): { plan: string[][]; limited: boolean } {
+  const columns: KeyColumn[] = schema
+    .filter(c => c.nullRatio === 0)
+    .map(c => {
+      const counted = distinct.get(c.name);
+      const count = counted?.exact ? counted.count : c.uniqueRatio * rowCount;
+      return {
+        name: c.name,
+        distinct: count,
+        unique: !!counted?.exact && count >= rowCount,
+        nearUnique: c.uniqueRatio >= NEAR_UNIQUE_RATIO,
+      };
+    })
+    .filter(c => c.distinct > 1)
+    .sort((a, b) => b.distinct - a.distinct);
+
+  const singles = columns.filter(c => c.unique || c.nearUnique);
+  const rest = columns.filter(c => !c.unique);
+  const plausible = (combo: KeyColumn[]) => combo.reduce((product, c) => product * c.distinct, 1) >= rowCount;
+  const byProduct = (a: KeyColumn[], b: KeyColumn[]) =>
+    b.reduce((p, c) => p * c.distinct, 1) - a.reduce((p, c) => p * c.distinct, 1);
+
+  const candidates = singles.map(c => [c]);
+  for (let size = 2; size <= MAX_KEY_COLUMNS; size++) {
+    const pool = size === 2 ? rest : rest.slice(0, WIDE_KEY_COLUMNS);
+    candidates.push(...combinations(pool, size).filter(plausible).sort(byProduct));
+  }
+  return {
+    // Columns listed in file order
+    plan: candidates.slice(0, MAX_COMBINATIONS).map(combo => schema.map(c => c.name).filter(name => combo.some(c => c.name === name))),
+    limited: candidates.length > MAX_COMBINATIONS || rest.length > WIDE_KEY_COLUMNS,
+  };
+}
+
+// ============================================================================
+// CHECKING
+// ============================================================================
+
+function keyText(value: ParsedRow[string] | undefined, rules: ColumnMissingRules): string | null {
+  if (value === undefined || value === null || rules.classify(value)) return null;
+  return String(value).trim();
+}
+
+/**
+ * Check candidate keys, and the confirmed primary key if any, during the
+ * scoring scan. Only value hashes are held.
+ *
+ * @param distinct Distinct value counts from profiling, by column name
+ */
+export function createKeyChecker(
+  schema: ColumnSchema[],
+  rowCount: number,
+  distinct: Map<string, ColumnDistinct>,
+  missingValues: MissingValueConfig,
+  primaryKey?: string[]
+): KeyChecker {
+  const { plan, limited } = planCandidates(schema, rowCount, distinct);
+  const rules = new Map<string, ColumnMissingRules>();
+  const rulesFor = (name: string) => {
+    let found = rules.get(name);
+    if (!found) rules.set(name, (found = columnMissingRules(missingValues, name)));
+    return found;
+  };
+  const candidates = plan.map(columns => ({
+    columns,
+    rules: columns.map(rulesFor),
+    hashes: new Set<number>() as Set<number> | null, // null once a repeat or missing value rules the candidate out
+    unverified: false, // Some rows went unrecorded once the hash budget ran out
+  }));
+
+  const headers = schema.map(c => c.name);
+  const missingColumns = primaryKey?.filter(c => !headers.includes(c)) ?? [];
+  const confirmed = primaryKey && primaryKey.length > 0 && missingColumns.length === 0
+    ? { rules: primaryKey.map(rulesFor), values: createDistinctCounter(PRIMARY_KEY_EXACT_LIMIT), missing: 0, checked: 0 }
+    : null;
+
+  let heldHashes = 0;
+
+  return {
+    observe: (row) => {
+      for (const candidate of candidates) {
+        if (!candidate.hashes) continue;
+        const parts: string[] = [];
+        for (let i = 0; i < candidate.columns.length; i++) {
+          const text = keyText(row[candidate.columns[i]], candidate.rules[i]);
+          if (text === null) break;
+          parts.push(text);
+        }
+        if (parts.length < candidate.columns.length) {
+          heldHashes -= candidate.hashes.size;
+          candidate.hashes = null;
+          continue;
+        }
+        const hash = hashString(parts.join('\u0001'));
+        if (candidate.hashes.has(hash)) {
+          heldHashes -= candidate.hashes.size;
+          candidate.hashes = null;
+        } else if (heldHashes < KEY_HASH_BUDGET) {
+          candidate.hashes.add(hash);
+          heldHashes++;
+        } else {
+          candidate.unverified = true;
+        }
+      }
+
+      if (confirmed && primaryKey) {
+        const parts = primaryKey.map((column, i) => keyText(row[column], confirmed.rules[i]));
+        if (parts.some(p => p === null)) {
+          confirmed.missing++;
+        } else {
+          confirmed.checked++;
+          confirmed.values.add(parts.join('\u0001'));
+        }
+      }
+    },
+    finish: () => {
+      const unique = candidates.filter(c => c.hashes !== null);
+      // Drop combinations that contain a smaller unique one
+      const keys: CandidateKey[] = unique
+        .filter(({ columns }) => !unique.some(other => other.columns.length < columns.length && other.columns.every(c => columns.includes(c))))
+        .sort((a, b) => a.columns.length - b.columns.length)
+        .map(({ columns, unverified }) => ({ columns, unverified: unverified ? true : undefined }));
+
+      let primaryKeyCheck: PrimaryKeyCheck | undefined;
+      if (primaryKey && primaryKey.length > 0) {
+        const duplicateKeyRows = confirmed ? Math.round(confirmed.checked * confirmed.values.duplicateRatio()) : 0;
+        primaryKeyCheck = {
+          columns: primaryKey,
+          missingColumns: missingColumns.length > 0 ? missingColumns : undefined,
+          duplicateKeyRows,
+          missingKeyRows: confirmed?.missing ?? 0,
+          unique: confirmed !== null && duplicateKeyRows === 0 && confirmed.missing === 0,
+          approximate: confirmed && !confirmed.values.isExact() ? true : undefined,
+        };
+      }
+
+      return {
+        candidateKeys: {
+          keys,
+          combinationsChecked: candidates.length,
+          maxColumns: Math.max(0, ...plan.map(columns => columns.length)),
+          limited: limited || keys.some(k => k.unverified),
+        },
+        primaryKey: primaryKeyCheck,
+      };
+    },
+  };
+}
@@ -0,0 +1,316 @@
+/**
+ * Declarative Column Rules
+ * A rules file (JSON or YAML) declares what each column must hold, so the
+ * validity dimension scores against stated expectations instead of
+ * guessing from column names.
+ *
+ *   name: card-transactions
+ *   columns:
+ *     transaction_id: { notNull: true, unique: true, regex: '^TX\d+$' }
+ *     amount: { min: 0, max: 100000 }
+ *     currency: { enum: [USD, EUR, GBP] }
+ *     country: { format: iso3166 }
+ *     merchant_name: { length: { min: 2, max: 80 } }
+ *     txn_date: { dateRange: { min: '2020-01-01', max: now } }
+ *
+ * Each check becomes one rule named "<column>.<check>" with its own
+ * pass/fail counts in the report. Conditions between columns go in a
+ * `businessRules` list; see businessRules.ts.
+ */
+
+import { CORE_SCHEMA, load as loadYAML } from 'js-yaml';
+import { validateBusinessRules, type BusinessRuleSpec } from './businessRules';
+import { createDateParser, type DateOrder, type DateParser } from './dateParsing';
+import type { ColumnSchema, ParsedRow } from './dqiEngine';
+import { columnMissingRules, type MissingValueConfig } from './missingValues';
+import { checkCodeFormat, CODE_FORMATS, type CodeFormat } from './referenceCodes';
+import { createDistinctCounter, type DistinctCounter } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ColumnRuleSpec {
+  notNull?: boolean; // Missing values of any kind fail
+  regex?: string; // Whole-value pattern, e.g. "^TX\\d+$"
+  min?: number; // Numeric values only; text fails
+  max?: number;
+  enum?: (string | number | boolean)[]; // Allowed values, compared as text
+  unique?: boolean;
+  length?: { min?: number; max?: number }; // Characters in the value as text
+  dateRange?: { min?: string; max?: string }; // ISO dates or "now"; values are read with the column's date format
+  format?: CodeFormat; // Reference check: luhn, iso4217, iso3166 or mcc
+}
+
+export type RuleKind = keyof ColumnRuleSpec;
+
+export interface ColumnRuleSet {
+  name?: string;
+  version?: string | number;
+  columns: Record<string, ColumnRuleSpec>; // Empty when the file only has business rules
+  businessRules?: BusinessRuleSpec[]; // Cross-column conditions checked on every row
+}
+
+export interface RuleResult {
+  id: string; // "<column>.<check>", e.g. "amount.min"
+  column: string;
+  kind: RuleKind;
+  expectation: string; // Human-readable form, e.g. ">= 0"
+  passed: number;
+  failed: number;
+  skipped: number; // Missing values, which only notNull checks
+  approximate?: boolean; // Uniqueness estimated from a hash sample past the exact limit
+  columnMissing?: boolean; // The file has no such column; every row counts as missing
+}
+
+export interface RuleEvaluator {
+  observe: (row: ParsedRow) => void;
+  results: () => RuleResult[];
+}
+
+const RULE_KINDS: RuleKind[] = ['notNull', 'regex', 'min', 'max', 'enum', 'unique', 'length', 'dateRange', 'format'];
+const UNIQUE_EXACT_LIMIT = 200_000; // Distinct values per unique rule counted exactly before estimating
+
+// ============================================================================
+// PARSING & VALIDATION
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkRange(id: string, value: unknown, check: (bound: unknown) => boolean, expected: string): void {
+  if (!isRecord(value) || (value.min === undefined && value.max === undefined)) {
+    throw new Error(`Rule '${id}' needs a min and/or max`);
+  }
+  for (const bound of [value.min, value.max]) {
+    if (bound !== undefined && !check(bound)) throw new Error(`Rule '${id}' bounds must be ${expected}`);
+  }
+}
+
+/**
+ * Check one column's checks; domain pack validators use the same format
+ */
+export function validateRuleSpec(column: string, spec: unknown): ColumnRuleSpec {
+  if (!isRecord(spec)) throw new Error(`Rules for column '${column}' must be an object of checks`);
+
+  for (const [kind, value] of Object.entries(spec)) {
+    const id = `${column}.${kind}`;
+    switch (kind as RuleKind) {
+      case 'notNull':
+      case 'unique':
+        if (typeof value !== 'boolean') throw new Error(`Rule '${id}' must be true or false`);
+        break;
+      case 'regex':
+        if (typeof value !== 'string') throw new Error(`Rule '${id}' must be a pattern string`);
+        try {
+          new RegExp(value);
+        } catch {
+          throw new Error(`Rule '${id}' is not a valid regular expression: ${value}`);
+        }
+        break;
+      case 'min':
+      case 'max':
+        if (typeof value !== 'number' || !isFinite(value)) throw new Error(`Rule '${id}' must be a number`);
+        break;
+      case 'enum':
+        if (!Array.isArray(value) || value.length === 0 || value.some(v => isRecord(v) || Array.isArray(v))) {
+          throw new Error(`Rule '${id}' must be a non-empty list of values`);
+        }
+        break;
+      case 'length':
+        checkRange(id, value, b => typeof b === 'number' && Number.isInteger(b) && b >= 0, 'whole numbers');
+        break;
+      case 'dateRange':
+        checkRange(id, value, b => typeof b === 'string' && (b === 'now' || createDateParser()(b) !== null), "ISO dates or 'now'");
+        break;
+      case 'format':
+        if (typeof value !== 'string' || !Object.keys(CODE_FORMATS).includes(value)) {
+          throw new Error(`Rule '${id}' must be one of ${Object.keys(CODE_FORMATS).join(', ')}`);
+        }
+        break;
+      default:
+        throw new Error(`Unknown check '${kind}' for column '${column}'; expected one of ${RULE_KINDS.join(', ')}`);
+    }
+  }
+  return spec as ColumnRuleSpec;
+}
+
+/**
+ * Check a parsed rules document and return it as a rule set
+ */
+export function validateRuleSet(document: unknown): ColumnRuleSet {
+  if (!isRecord(document) || (document.columns !== undefined && !isRecord(document.columns))) {
+    throw new Error("Rules file must have a 'columns' object mapping column names to checks");
+  }
+  const columns: Record<string, ColumnRuleSpec> = {};
+  for (const [column, spec] of Object.entries(document.columns ?? {})) {
+    columns[column] = validateRuleSpec(column, spec);
+  }
+  const businessRules = document.businessRules === undefined ? undefined : validateBusinessRules(document.businessRules);
+  if (Object.keys(columns).length === 0 && !businessRules?.length) {
+    throw new Error('Rules file declares no column checks or business rules');
+  }
+
+  return {
+    name: typeof document.name === 'string' ? document.name : undefined,
+    version: typeof document.version === 'string' || typeof document.version === 'number' ? document.version : undefined,
+    columns,
+    businessRules,
+  };
+}
+
+/**
+ * Parse a JSON or YAML rules file. YAML is read with the core schema so
+ * unquoted dates stay text.
+ */
+export function parseRuleFile(text: string, fileName = ''): ColumnRuleSet {
+  const isJSON = /\.json$/i.test(fileName) || (!/\.ya?ml$/i.test(fileName) && text.trimStart().startsWith('{'));
+  let document: unknown;
+  try {
+    document = isJSON ? JSON.parse(text) : loadYAML(text, { schema: CORE_SCHEMA });
+  } catch (err) {
+    throw new Error(`Rules file is not valid ${isJSON ? 'JSON' : 'YAML'}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateRuleSet(document);
+}
+
+/**
+ * Number of individual column checks in a set, business rules excluded
+ */
+export function countRules(ruleSet: ColumnRuleSet): number {
+  return Object.values(ruleSet.columns).reduce((sum, spec) => sum + Object.keys(spec).length, 0);
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function describeRange(range: { min?: number | string; max?: number | string }): string {
+  if (range.min !== undefined && range.max !== undefined) return `${range.min} to ${range.max}`;
+  return range.min !== undefined ? `>= ${range.min}` : `<= ${range.max}`;
+}
+
+function describeExpectation(kind: RuleKind, spec: ColumnRuleSpec): string {
+  switch (kind) {
+    case 'notNull': return spec.notNull ? 'not null' : 'nulls allowed';
+    case 'regex': return `matches ${spec.regex}`;
+    case 'min': return `>= ${spec.min}`;
+    case 'max': return `<= ${spec.max}`;
+    case 'enum': return `one of ${spec.enum!.join(', ')}`;
+    case 'unique': return spec.unique ? 'unique' : 'duplicates allowed';
+    case 'length': return `length ${describeRange(spec.length!)}`;
+    case 'dateRange': return `date ${describeRange(spec.dateRange!)}`;
+    case 'format': return `valid ${CODE_FORMATS[spec.format!]}`;
+  }
+}
+
+function resolveDateBound(bound: string | undefined, now: Date): number | undefined {
+  if (bound === undefined) return undefined;
+  if (bound === 'now') return now.getTime();
+  return createDateParser()(bound)?.getTime();
+}
+
+type Check = (value: string | number | boolean) => boolean;
+
+function createCheck(kind: RuleKind, spec: ColumnRuleSpec, parseDate: DateParser, now: Date): { check: Check; distinct?: DistinctCounter } {
+  switch (kind) {
+    case 'notNull':
+      return { check: () => true };
+    case 'regex': {
+      const pattern = new RegExp(spec.regex!);
+      return { check: (v) => pattern.test(String(v)) };
+    }
+    case 'min':
+      return { check: (v) => typeof v === 'number' && v >= spec.min! };
+    case 'max':
+      return { check: (v) => typeof v === 'number' && v <= spec.max! };
+    case 'enum': {
+      const allowed = new Set(spec.enum!.map(String));
+      return { check: (v) => allowed.has(String(v).trim()) };
+    }
+    case 'unique': {
+      // Duplicates are counted after the scan from the distinct estimate
+      return { check: () => true, distinct: spec.unique ? createDistinctCounter(UNIQUE_EXACT_LIMIT) : undefined };
+    }
+    case 'length': {
+      const { min = 0, max = Infinity } = spec.length!;
+      return { check: (v) => String(v).length >= min && String(v).length <= max };
+    }
+    case 'dateRange': {
+      const min = resolveDateBound(spec.dateRange!.min, now) ?? -Infinity;
+      const max = resolveDateBound(spec.dateRange!.max, now) ?? Infinity;
+      return {
+        check: (v) => {
+          const time = typeof v === 'string' ? parseDate(v)?.getTime() : undefined;
+          return time !== undefined && time >= min && time <= max;
+        },
+      };
+    }
+    case 'format': {
+      const format = spec.format!;
+      return { check: (v) => checkCodeFormat(format, v) };
+    }
+  }
+}
+
+/**
+ * Compile a rule set against the dataset's columns. Missing values follow
+ * the analysis' null tokens and sentinels and are skipped by every check
+ * except notNull.
+ */
+export function createRuleEvaluator(
+  ruleSet: ColumnRuleSet,
+  schema: ColumnSchema[],
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder
+): RuleEvaluator {
+  const now = new Date();
+  const rules = Object.entries(ruleSet.columns).flatMap(([column, spec]) => {
+    const col = schema.find(c => c.name === column);
+    const classify = columnMissingRules(missingValues, column).classify;
+    const parseDate = createDateParser(col?.dateFormat, dateOrder);
+    return (Object.keys(spec) as RuleKind[]).map(kind => ({
+      result: {
+        id: `${column}.${kind}`,
+        column,
+        kind,
+        expectation: describeExpectation(kind, spec),
+        passed: 0,
+        failed: 0,
+        skipped: 0,
+        columnMissing: col ? undefined : true,
+      } as RuleResult,
+      classify,
+      requirePresent: kind === 'notNull' && spec.notNull === true,
+      ...createCheck(kind, spec, parseDate, now),
+    }));
+  });
+
+  return {
+    observe: (row) => {
+      for (const rule of rules) {
+        const value = row[rule.result.column];
+        if (value === undefined || value === null || rule.classify(value)) {
+          if (rule.requirePresent) rule.result.failed++;
+          else rule.result.skipped++;
+          continue;
+        }
+        if (rule.distinct) rule.distinct.add(String(value));
+        if (rule.check(value)) rule.result.passed++;
+        else rule.result.failed++;
+      }
+    },
+    results: () => rules.map(rule => {
+      if (!rule.distinct) return { ...rule.result };
+      const checked = rule.result.passed + rule.result.failed;
+      const duplicates = Math.round(checked * rule.distinct.duplicateRatio());
+      return {
+        ...rule.result,
+        passed: checked - duplicates,
+        failed: duplicates,
+        approximate: rule.distinct.isExact() ? undefined : true,
+      };
+    }),
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * RFC 4180 CSV Tokenizer
+ * Shared by the DQI engine and the legacy metrics parser
+ *
+ * Handles quoted fields, escaped ("") quotes, CRLF / LF / CR line endings
+ * and line breaks inside quoted fields. Every edge case that is encountered
+ * is counted in CSVParseStats so row counts in reports can be trusted.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface CSVParseStats {
+  physicalLines: number; // Line breaks seen in the file (+1), including those inside quotes
+  records: number; // Logical records emitted (header included)
+  quotedFields: number;
+  escapedQuotes: number; // "" sequences unescaped to a single quote
+  multilineFields: number; // Quoted fields that contained a line break
+  lineEndings: {
+    crlf: number;
+    lf: number;
+    cr: number;
+  };
+  blankLinesSkipped: number;
+  strayQuotes: number; // Quotes inside unquoted fields, kept as literal characters
+  unterminatedQuote: boolean; // File ended while still inside a quoted field
+  byteOrderMarkStripped: boolean;
+}
+
+export interface CSVTokenizerOptions {
+  delimiter?: string; // Defaults to ','
+  quoteChar?: string; // Defaults to '"'
+  maxRecords?: number; // Stop early, e.g. when sniffing a sample
+}
+
+export interface CSVParseResult {
+  records: string[][];
+  stats: CSVParseStats;
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+function createEmptyStats(): CSVParseStats {
+  return {
+    physicalLines: 0,
+    records: 0,
+    quotedFields: 0,
+    escapedQuotes: 0,
+    multilineFields: 0,
+    lineEndings: { crlf: 0, lf: 0, cr: 0 },
+    blankLinesSkipped: 0,
+    strayQuotes: 0,
+    unterminatedQuote: false,
+    byteOrderMarkStripped: false,
+  };
+}
+
+export interface CSVTokenizer {
+  push: (chunk: string) => void; // Feed the next piece of decoded text
+  finish: () => CSVParseStats; // Flush the final record and return the stats
+}
+
+/**
+ * Create an incremental tokenizer that emits each record as soon as it is
+ * complete, so large files can be parsed chunk by chunk. A quote or CR at
+ * the end of a chunk is held back until the next chunk decides its meaning.
+ * Each record is passed with the 1-based physical line it starts on.
+ */
+export function createCSVTokenizer(
+  onRecord: (record: string[], line: number) => void,
+  options: CSVTokenizerOptions = {}
+): CSVTokenizer {
+  const delimiter = options.delimiter ?? ',';
+  const quote = options.quoteChar ?? '"';
+  const maxRecords = options.maxRecords ?? Infinity;
+  const stats = createEmptyStats();
+
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let fieldHasLineBreak = false;
+  let fieldStarted = false;
+  let emitted = 0;
+  let pending = ''; // Tail of the previous chunk that needs a lookahead character
+  let started = false;
+  let sawText = false;
+  let endsWithLineBreak = false;
+  let line = 1; // Physical line the tokenizer is currently on
+  let recordStartLine = 1;
+
+  const endField = () => {
+    record.push(field);
+    if (fieldWasQuoted) {
+      stats.quotedFields++;
+      if (fieldHasLineBreak) stats.multilineFields++;
+    }
+    field = '';
+    fieldWasQuoted = false;
+    fieldHasLineBreak = false;
+    fieldStarted = false;
+  };
+
+  const endRecord = () => {
+    // A line with nothing on it is skipped rather than read as one empty field
+    if (record.length === 0 && field === '' && !fieldWasQuoted) {
+      stats.blankLinesSkipped++;
+      return;
+    }
+    endField();
+    emitted++;
+    onRecord(record, recordStartLine);
+    record = [];
+  };
+
+  const startNextLine = () => {
+    line++;
+    recordStartLine = line;
+  };
+
+  const consume = (text: string, isLast: boolean) => {
+    let i = 0;
+    for (; i < text.length && emitted < maxRecords; i++) {
+      const char = text[i];
+      const needsLookahead = char === '\r' || (inQuotes && char === quote);
+      if (needsLookahead && i + 1 === text.length && !isLast) break;
+
+      if (inQuotes) {
+        if (char === quote) {
+          if (text[i + 1] === quote) {
+            field += quote;
+            stats.escapedQuotes++;
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          if (char === '\n' || char === '\r') {
+            fieldHasLineBreak = true;
+            line++;
+            if (char === '\r' && text[i + 1] === '\n') {
+              field += '\r\n';
+              stats.lineEndings.crlf++;
+              i++;
+            } else {
+              field += char;
+              if (char === '\n') stats.lineEndings.lf++;
+              else stats.lineEndings.cr++;
+            }
+            continue;
+          }
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === quote) {
+        if (!fieldStarted) {
+          inQuotes = true;
+          fieldWasQuoted = true;
+          fieldStarted = true;
+        } else {
+          // RFC 4180 disallows quotes in unquoted fields; keep them literally
+          field += char;
+          stats.strayQuotes++;
+        }
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') {
+          stats.lineEndings.crlf++;
+          i++;
+        } else if (char === '\n') {
+          stats.lineEndings.lf++;
+        } else {
+          stats.lineEndings.cr++;
+        }
+        endRecord();
+        startNextLine();
+      } else {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+    pending = i < text.length && emitted < maxRecords ? text.substring(i) : '';
+  };
+
+  return {
+    push: (chunk) => {
+      if (chunk.length === 0 || emitted >= maxRecords) return;
+      let text = chunk;
+      if (!started) {
+        started = true;
+        if (text.charCodeAt(0) === 0xfeff) {
+          text = text.substring(1);
+          stats.byteOrderMarkStripped = true;
+        }
+      }
+      if (text.length === 0) return;
+      sawText = true;
+      const last = text[text.length - 1];
+      endsWithLineBreak = last === '\r' || last === '\n';
+      consume(pending + text, false);
+    },
+    finish: () => {
+      if (pending) consume(pending, true);
+
+      if (inQuotes) {
+        stats.unterminatedQuote = true;
+      }
+
+      // Flush the final record unless the file ended with a line break
+      if ((fieldStarted || fieldWasQuoted || record.length > 0) && emitted < maxRecords) {
+        endRecord();
+      }
+
+      const { crlf, lf, cr } = stats.lineEndings;
+      stats.physicalLines = crlf + lf + cr + (sawText && !endsWithLineBreak ? 1 : 0);
+      stats.records = emitted;
+      return stats;
+    },
+  };
+}
+
+/**
+ * Tokenize CSV text into records of raw (unconverted) field strings.
+ * Blank lines are skipped; field values are returned exactly as written.
+ */
+export function tokenizeCSV(content: string, options: CSVTokenizerOptions = {}): CSVParseResult {
+  const records: string[][] = [];
+  const tokenizer = createCSVTokenizer(record => records.push(record), options);
+  tokenizer.push(content);
+  const stats = tokenizer.finish();
+  return { records, stats };
+}
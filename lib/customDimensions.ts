@@ -0,0 +1,81 @@
+/**
+ * Custom Dimensions
+ * Team-owned quality dimensions, registered alongside the built-in ones.
+ * Both the analysis worker and the main-thread fallback call
+ * registerCustomDimensions before analyzing, so a dimension added here is
+ * scored wherever the analysis runs.
+ *
+ * Reconcilability below is a working example: it only applies to files
+ * with a settlement_id column, so other files score as before. Copy it
+ * for a new dimension; replaceDimension and disableDimension change the
+ * built-in ones, and registerScoringProfile and registerDomainPack (see
+ * scoringProfiles.ts, domainPacks.ts) belong here too.
+ */
+
+import type { DimensionConfig } from './dimensionRegistry';
+import { registerDimension } from './dqiEngine';
+import { columnMissingRules } from './missingValues';
+
+// ============================================================================
+// DIMENSIONS
+// ============================================================================
+
+const SETTLEMENT_COLUMN = 'settlement_id';
+
+/**
+ * Share of transactions carrying a settlement reference to reconcile against
+ */
+export const RECONCILABILITY_DIMENSION: DimensionConfig = {
+  id: 'reconcilability',
+  name: 'Reconcilability',
+  baseWeight: 0.10,
+  applicabilityCheck: (metadata) => metadata.schema.some(c => c.name === SETTLEMENT_COLUMN),
+  createScorer: (metadata) => {
+    const rules = columnMissingRules(metadata.missingValues, SETTLEMENT_COLUMN);
+    let rows = 0;
+    let unmatched = 0;
+    return {
+      observe: (row) => {
+        rows++;
+        const value = row[SETTLEMENT_COLUMN];
+        if (value === null || value === undefined || rules.classify(value)) unmatched++;
+      },
+      finish: () => ({
+        score: Math.round(100 - (unmatched / Math.max(rows, 1)) * 100),
+        findings: unmatched > 0 ? [`${unmatched} transactions have no settlement record`] : [],
+        impactedColumns: unmatched > 0 ? [SETTLEMENT_COLUMN] : [],
+      }),
+    };
+  },
+  explanation: {
+    summary: (score) => score >= 95
+      ? 'Nearly every transaction carries a settlement reference.'
+      : `${100 - score}% of transactions carry no settlement reference.`,
+    businessImpact: (score) => score < 95
+      ? 'Transactions without a settlement reference must be matched by hand at month end.'
+      : 'Settlement references support automatic reconciliation.',
+  },
+  recommend: (dim) => dim.score >= 95 ? [] : [{
+    priority: dim.score < 80 ? 'High' : 'Medium',
+    title: 'Capture settlement references',
+    description: `${100 - dim.score}% of transactions cannot be matched to a settlement.`,
+    expectedImprovement: Math.round((95 - dim.score) * 0.1),
+    affectedDimensions: ['reconcilability'],
+    remediation: 'Populate settlement_id from the acquirer settlement file before loading transactions.',
+  }],
+};
+
+// ============================================================================
+// REGISTRATION
+// ============================================================================
+
+let registered = false;
+
+/**
+ * Register this deployment's custom dimensions once per JavaScript context
+ */
+export function registerCustomDimensions(): void {
+  if (registered) return;
+  registered = true;
+  registerDimension(RECONCILABILITY_DIMENSION);
+}
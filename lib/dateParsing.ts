@@ -0,0 +1,267 @@
+/**
+ * Date Format Inference
+ * Settles the format of each date column from the values themselves, so
+ * that 03/04/2025 is read the same way as the rest of its column instead
+ * of however the browser happens to guess.
+ *
+ * Numeric dates are grouped into families by shape (year first or last)
+ * and separator. Within a year-last family, a value over 12 in the first
+ * position proves day-first; over 12 in the second proves month-first.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type DateOrder = 'MDY' | 'DMY';
+
+export interface DateFormatInfo {
+  format: string; // Dominant format, e.g. "DD/MM/YYYY"
+  formats: string[]; // Every numeric format seen in the column, dominant first
+  hasTime: boolean; // Values carry a time of day
+  timezone: string; // "UTC", a fixed offset such as "+05:30", "mixed", "unspecified" (read as UTC) or "none" for date-only
+  ambiguous: boolean; // No value settled day vs month order, so the default order was assumed
+  evidence: { dayFirst: number; monthFirst: number }; // Values that could only be read one way
+  matched: number; // Values that fit a numeric date shape
+}
+
+export interface DateFormatDetector {
+  observe: (value: string) => void;
+  finish: () => DateFormatInfo | null; // null when no value looked like a numeric date
+}
+
+export type DateParser = (value: string) => Date | null;
+
+export const DEFAULT_DATE_ORDER: DateOrder = 'MDY';
+
+// day/month/year parts, optional time, optional zone
+const DATE_SHAPE =
+  /^(\d{1,4})([-/.])(\d{1,2})\2(\d{1,4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?)?\s*(Z|UTC|GMT|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+interface DateParts {
+  family: string; // "Y" (year first) or "X" (year last) plus the separator
+  first: number;
+  second: number;
+  third: number;
+  yearDigits: number;
+  time?: { hours: number; minutes: number; seconds: number; millis: number };
+  zone?: string; // Normalized: "UTC" or "+HH:MM"
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalizeZone(zone: string | undefined): string | undefined {
+  if (!zone) return undefined;
+  const upper = zone.toUpperCase();
+  if (upper === 'Z' || upper === 'UTC' || upper === 'GMT') return 'UTC';
+  const digits = zone.replace(':', '');
+  const hours = digits.substring(1, 3);
+  const minutes = digits.substring(3, 5) || '00';
+  if (hours === '00' && minutes === '00') return 'UTC';
+  return `${digits[0]}${hours}:${minutes}`;
+}
+
+function isDigit(value: string, index: number): boolean {
+  const code = value.charCodeAt(index);
+  return code >= 48 && code <= 57;
+}
+
+function splitDate(value: string): DateParts | null {
+  // Fast path for plain ISO dates, by far the most common shape
+  if (value.length === 10 && value[4] === '-' && value[7] === '-' &&
+      isDigit(value, 0) && isDigit(value, 1) && isDigit(value, 2) && isDigit(value, 3) &&
+      isDigit(value, 5) && isDigit(value, 6) && isDigit(value, 8) && isDigit(value, 9)) {
+    return {
+      family: 'Y-',
+      first: Number(value.substring(0, 4)),
+      second: Number(value.substring(5, 7)),
+      third: Number(value.substring(8, 10)),
+      yearDigits: 4,
+    };
+  }
+
+  const match = DATE_SHAPE.exec(value.trim());
+  if (!match) return null;
+  const [, a, separator, b, c, hours, minutes, seconds, fraction, zone] = match;
+
+  let family: string;
+  if (a.length === 4 && c.length <= 2) family = `Y${separator}`;
+  else if (a.length <= 2 && (c.length === 4 || c.length === 2)) family = `X${separator}`;
+  else return null;
+
+  return {
+    family,
+    first: Number(a),
+    second: Number(b),
+    third: Number(c),
+    yearDigits: family[0] === 'Y' ? a.length : c.length,
+    time: hours !== undefined
+      ? {
+          hours: Number(hours),
+          minutes: Number(minutes),
+          seconds: seconds ? Number(seconds) : 0,
+          millis: fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0,
+        }
+      : undefined,
+    zone: normalizeZone(zone),
+  };
+}
+
+function familyFormat(family: string, order: DateOrder, yearDigits: number): string {
+  const separator = family[1];
+  const year = yearDigits === 2 ? 'YY' : 'YYYY';
+  if (family[0] === 'Y') return ['YYYY', 'MM', 'DD'].join(separator);
+  return (order === 'DMY' ? ['DD', 'MM', year] : ['MM', 'DD', year]).join(separator);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Check whether text has the shape of a numeric date or timestamp.
+ * Shape only: out-of-range values such as 13/45/2020 are still dates for
+ * type inference and are reported as invalid by timeliness.
+ */
+export function looksLikeDate(value: string): boolean {
+  const first = value.charCodeAt(0);
+  if (first < 48 || first > 57) return false;
+  return splitDate(value) !== null;
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/**
+ * Tally date shapes, day/month evidence and timezones for one column
+ */
+export function createDateFormatDetector(defaultOrder: DateOrder = DEFAULT_DATE_ORDER): DateFormatDetector {
+  const families = new Map<string, { count: number; dayFirst: number; monthFirst: number; twoDigitYears: number }>();
+  const zones = new Map<string, number>();
+  let matched = 0;
+  let withTime = 0;
+  let naiveTimes = 0;
+
+  return {
+    observe: (value) => {
+      const first = value.charCodeAt(0);
+      if (first < 48 || first > 57) return;
+      const parts = splitDate(value);
+      if (!parts) return;
+      matched++;
+
+      let family = families.get(parts.family);
+      if (!family) {
+        family = { count: 0, dayFirst: 0, monthFirst: 0, twoDigitYears: 0 };
+        families.set(parts.family, family);
+      }
+      family.count++;
+      if (parts.yearDigits === 2) family.twoDigitYears++;
+      if (parts.family[0] === 'X') {
+        if (parts.first > 12 && parts.second <= 12) family.dayFirst++;
+        else if (parts.second > 12 && parts.first <= 12) family.monthFirst++;
+      }
+
+      if (parts.time) withTime++;
+      if (parts.zone) zones.set(parts.zone, (zones.get(parts.zone) || 0) + 1);
+      else if (parts.time) naiveTimes++;
+    },
+    finish: () => {
+      if (matched === 0) return null;
+
+      let dayFirst = 0;
+      let monthFirst = 0;
+      let ambiguous = false;
+      const ranked = Array.from(families).sort((a, b) => b[1].count - a[1].count);
+      const formats = ranked.map(([key, family]) => {
+        dayFirst += family.dayFirst;
+        monthFirst += family.monthFirst;
+        let order = defaultOrder;
+        if (family.dayFirst > family.monthFirst) order = 'DMY';
+        else if (family.monthFirst > family.dayFirst) order = 'MDY';
+        else if (key[0] === 'X') ambiguous = true;
+        return familyFormat(key, order, family.twoDigitYears > family.count / 2 ? 2 : 4);
+      });
+
+      let timezone: string;
+      if (zones.size === 0) timezone = withTime > 0 ? 'unspecified' : 'none';
+      else if (zones.size === 1 && naiveTimes === 0) timezone = zones.keys().next().value as string;
+      else timezone = 'mixed';
+
+      return {
+        format: formats[0],
+        formats,
+        hasTime: withTime > matched / 2,
+        timezone,
+        ambiguous,
+        evidence: { dayFirst, monthFirst },
+        matched,
+      };
+    },
+  };
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Build a parser that reads dates the way the column's format says.
+ * Shapes the format does not mention fall back to the default order;
+ * textual dates ("5 Jan 2024") are unambiguous and left to Date.parse.
+ * Times without a zone are read as UTC so results do not depend on the
+ * viewer's machine.
+ */
+export function createDateParser(info?: DateFormatInfo, defaultOrder: DateOrder = DEFAULT_DATE_ORDER): DateParser {
+  const orders = new Map<string, DateOrder>();
+  for (const format of info?.formats ?? []) {
+    if (format.startsWith('YYYY')) continue;
+    orders.set(`X${format[2]}`, format.startsWith('DD') ? 'DMY' : 'MDY');
+  }
+
+  return (value) => {
+    const parts = splitDate(value);
+    if (!parts) {
+      const first = value.trim().charCodeAt(0);
+      // Bare numbers and broken numeric dates are not dates
+      if (first >= 48 && first <= 57 && !/[a-z]/i.test(value)) return null;
+      const time = Date.parse(value);
+      return isNaN(time) ? null : new Date(time);
+    }
+
+    let year: number;
+    let month: number;
+    let day: number;
+    if (parts.family[0] === 'Y') {
+      [year, month, day] = [parts.first, parts.second, parts.third];
+    } else {
+      const order = orders.get(parts.family) ?? defaultOrder;
+      [month, day] = order === 'DMY' ? [parts.second, parts.first] : [parts.first, parts.second];
+      year = parts.third;
+    }
+    if (parts.yearDigits === 2) year += year < 50 ? 2000 : 1900;
+
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+    const time = parts.time ?? { hours: 0, minutes: 0, seconds: 0, millis: 0 };
+    if (time.hours > 23 || time.minutes > 59 || time.seconds > 59) return null;
+
+    let offsetMinutes = 0;
+    if (parts.zone && parts.zone !== 'UTC') {
+      const sign = parts.zone[0] === '-' ? -1 : 1;
+      offsetMinutes = sign * (Number(parts.zone.substring(1, 3)) * 60 + Number(parts.zone.substring(4, 6)));
+    }
+    const utc = Date.UTC(year, month - 1, day, time.hours, time.minutes, time.seconds, time.millis);
+    return new Date(utc - offsetMinutes * 60_000);
+  };
+}
+
+/**
+ * Short description for display, e.g. "DD/MM/YYYY HH:mm (+05:30)"
+ */
+export function describeDateFormat(info: DateFormatInfo): string {
+  const zone = info.timezone === 'none' ? '' : ` (${info.timezone})`;
+  return `${info.format}${info.hasTime ? ' HH:mm' : ''}${zone}${info.ambiguous ? ', order assumed' : ''}`;
+}
@@ -0,0 +1,298 @@
+/**
+ * CSV Dialect & Encoding Detection
+ * Sniffs delimiter, quote character, header presence and text encoding
+ * from the first bytes of an upload before it is parsed.
+ */
+
+import { tokenizeCSV } from './csvParser';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'iso-8859-1';
+
+export interface CSVDialect {
+  delimiter: string;
+  quoteChar: string;
+  hasHeader: boolean;
+  encoding: TextEncoding;
+}
+
+export interface DialectInfo extends CSVDialect {
+  bomDetected: boolean;
+  detected: CSVDialect; // What the sniffer found, before user overrides
+  overridden: (keyof CSVDialect)[]; // Settings supplied by the user instead of detected
+}
+
+export const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+export const CANDIDATE_QUOTE_CHARS = ['"', "'"];
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+export const ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'iso-8859-1': 'Latin-1',
+};
+
+const SNIFF_SAMPLE_BYTES = 64 * 1024;
+const SNIFF_SAMPLE_RECORDS = 50;
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+function detectBOM(bytes: Uint8Array): { encoding: TextEncoding; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', length: 3 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', length: 2 };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', length: 2 };
+  }
+  return null;
+}
+
+/**
+ * Detect text encoding from a byte sample.
+ * BOMs are authoritative; otherwise NUL-byte layout and UTF-8 validity decide.
+ */
+export function detectEncoding(bytes: Uint8Array): { encoding: TextEncoding; bomLength: number } {
+  const bom = detectBOM(bytes);
+  if (bom) {
+    return { encoding: bom.encoding, bomLength: bom.length };
+  }
+
+  // BOM-less UTF-16: ASCII text leaves every other byte as NUL
+  const sampleLength = Math.min(bytes.length, 4096);
+  let evenNulls = 0;
+  let oddNulls = 0;
+  for (let i = 0; i < sampleLength; i++) {
+    if (bytes[i] === 0) {
+      if (i % 2 === 0) evenNulls++;
+      else oddNulls++;
+    }
+  }
+  const pairs = sampleLength / 2;
+  if (pairs > 0 && oddNulls / pairs > 0.3 && evenNulls / pairs < 0.05) {
+    return { encoding: 'utf-16le', bomLength: 0 };
+  }
+  if (pairs > 0 && evenNulls / pairs > 0.3 && oddNulls / pairs < 0.05) {
+    return { encoding: 'utf-16be', bomLength: 0 };
+  }
+
+  // Anything that is not valid UTF-8 is treated as a single-byte Latin-1 export
+  try {
+    // A multi-byte sequence may be cut at the end of the sample; ignore the tail
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, trimPartialUTF8(bytes)));
+    return { encoding: 'utf-8', bomLength: 0 };
+  } catch {
+    return { encoding: 'iso-8859-1', bomLength: 0 };
+  }
+}
+
+function trimPartialUTF8(bytes: Uint8Array): number {
+  let end = bytes.length;
+  // Walk back over continuation bytes (10xxxxxx) to the last lead byte
+  let i = end - 1;
+  while (i >= 0 && i >= end - 4 && (bytes[i] & 0xc0) === 0x80) i--;
+  if (i >= 0 && bytes[i] >= 0xc0) {
+    const expected = bytes[i] >= 0xf0 ? 4 : bytes[i] >= 0xe0 ? 3 : 2;
+    if (end - i < expected) end = i;
+  }
+  return end;
+}
+
+/**
+ * Decode a buffer as text using the given encoding, skipping any BOM.
+ */
+export function decodeText(buffer: ArrayBuffer | Uint8Array, encoding: TextEncoding): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const bom = detectBOM(bytes);
+  const skip = bom && bom.encoding === encoding ? bom.length : 0;
+  return new TextDecoder(encoding).decode(bytes.subarray(skip));
+}
+
+// ============================================================================
+// DIALECT SNIFFING
+// ============================================================================
+
+/**
+ * Pick the delimiter that splits the sample into the most consistent,
+ * multi-column records. Ties favour the earlier (more common) candidate.
+ */
+function sniffDelimiter(sample: string, quoteChar: string): string {
+  let best = CANDIDATE_DELIMITERS[0];
+  let bestScore = 0;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const { records } = tokenizeCSV(sample, { delimiter, quoteChar, maxRecords: SNIFF_SAMPLE_RECORDS });
+    // The last record may be truncated by the sample window
+    const complete = records.length > 2 ? records.slice(0, -1) : records;
+    if (complete.length === 0) continue;
+
+    const counts = new Map<number, number>();
+    for (const record of complete) {
+      counts.set(record.length, (counts.get(record.length) || 0) + 1);
+    }
+    let modeWidth = 1;
+    let modeCount = 0;
+    for (const [width, count] of counts) {
+      if (count > modeCount || (count === modeCount && width > modeWidth)) {
+        modeWidth = width;
+        modeCount = count;
+      }
+    }
+    if (modeWidth < 2) continue;
+
+    // Consistency dominates; width breaks near-ties
+    const score = (modeCount / complete.length) * 100 + Math.min(modeWidth, 50) / 10;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pick the quote character that most often wraps whole fields.
+ */
+function sniffQuoteChar(sample: string): string {
+  let best = CANDIDATE_QUOTE_CHARS[0];
+  let bestCount = 0;
+  const delimiters = CANDIDATE_DELIMITERS.map(d => (d === '\t' ? '\\t' : `\\${d}`)).join('');
+
+  for (const quoteChar of CANDIDATE_QUOTE_CHARS) {
+    const q = `\\${quoteChar}`;
+    const opening = new RegExp(`(^|[${delimiters}])${q}`, 'gm');
+    const closing = new RegExp(`${q}([${delimiters}]|\\r?$)`, 'gm');
+    const count = Math.min((sample.match(opening) || []).length, (sample.match(closing) || []).length);
+    if (count > bestCount) {
+      bestCount = count;
+      best = quoteChar;
+    }
+  }
+
+  return best;
+}
+
+function classifyCell(value: string): 'empty' | 'number' | 'date' | 'text' {
+  const trimmed = value.trim();
+  if (trimmed === '') return 'empty';
+  if (!isNaN(Number(trimmed.replace(/[$,]/g, '')))) return 'number';
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed) || /^\d{2}[/-]\d{2}[/-]\d{4}/.test(trimmed)) return 'date';
+  return 'text';
+}
+
+/**
+ * Decide whether the first record is a header by checking, column by column,
+ * whether it looks different from the records below it.
+ */
+function sniffHeader(records: string[][]): boolean {
+  if (records.length < 2) return true;
+
+  const [first, ...rest] = records;
+  const body = rest.slice(0, SNIFF_SAMPLE_RECORDS);
+  let votes = 0;
+
+  for (let col = 0; col < first.length; col++) {
+    const headerKind = classifyCell(first[col]);
+    const bodyKinds = body.map(r => classifyCell(r[col] ?? '')).filter(k => k !== 'empty');
+    if (bodyKinds.length === 0) continue;
+
+    const dominant = bodyKinds.filter(k => k === bodyKinds[0]).length === bodyKinds.length ? bodyKinds[0] : 'text';
+    if (dominant !== 'text') {
+      // Typed column: a text header cell is strong evidence of a header
+      votes += headerKind === 'text' ? 1 : -1;
+    } else {
+      // Text column: headers rarely repeat as data values
+      const bodyValues = new Set(body.map(r => (r[col] ?? '').trim()));
+      votes += bodyValues.has(first[col].trim()) ? -1 : 0;
+    }
+  }
+
+  // Duplicate or blank names in the first record argue against a header
+  const names = first.map(h => h.trim());
+  if (names.some(n => n === '') || new Set(names).size < names.length) votes--;
+
+  return votes >= 0;
+}
+
+/**
+ * Sniff a full CSV dialect from a decoded text sample.
+ */
+export function sniffDialect(sample: string, encoding: TextEncoding): CSVDialect {
+  const quoteChar = sniffQuoteChar(sample);
+  const delimiter = sniffDelimiter(sample, quoteChar);
+  const { records } = tokenizeCSV(sample, { delimiter, quoteChar, maxRecords: SNIFF_SAMPLE_RECORDS });
+  return {
+    delimiter,
+    quoteChar,
+    hasHeader: sniffHeader(records),
+    encoding,
+  };
+}
+
+/**
+ * Detect the dialect of a file from its first bytes, then apply any
+ * user-supplied overrides on top of what was detected.
+ */
+export function resolveDialect(bytes: Uint8Array, overrides: Partial<CSVDialect> = {}): DialectInfo {
+  const sampleBytes = bytes.subarray(0, SNIFF_SAMPLE_BYTES);
+  const { encoding: detectedEncoding, bomLength } = detectEncoding(sampleBytes);
+  const encoding = overrides.encoding ?? detectedEncoding;
+
+  let sample = decodeText(sampleBytes, encoding);
+  // Drop a trailing replacement character left by a multi-byte sequence cut at the window edge
+  if (sampleBytes.length < bytes.length) sample = sample.replace(/\uFFFD$/, '');
+
+  const detected = sniffDialect(sample, detectedEncoding);
+  const delimiter = overrides.delimiter ?? detected.delimiter;
+  const quoteChar = overrides.quoteChar ?? detected.quoteChar;
+  let hasHeader = overrides.hasHeader ?? detected.hasHeader;
+
+  // Re-check the header against the delimiter/quote the file will actually be parsed with
+  if (overrides.hasHeader === undefined && (delimiter !== detected.delimiter || quoteChar !== detected.quoteChar)) {
+    hasHeader = sniffHeader(tokenizeCSV(sample, { delimiter, quoteChar, maxRecords: SNIFF_SAMPLE_RECORDS }).records);
+  }
+
+  return {
+    delimiter,
+    quoteChar,
+    hasHeader,
+    encoding,
+    bomDetected: bomLength > 0,
+    detected,
+    overridden: (Object.keys(overrides) as (keyof CSVDialect)[]).filter(key => overrides[key] !== undefined),
+  };
+}
+
+/**
+ * Read the head of a File and detect its dialect (used by the upload page
+ * to show what "Auto" resolved to before analysis starts).
+ */
+export async function detectFileDialect(file: File): Promise<DialectInfo> {
+  const buffer = await file.slice(0, SNIFF_SAMPLE_BYTES).arrayBuffer();
+  return resolveDialect(new Uint8Array(buffer));
+}
+
+/**
+ * Human-readable one-line description of a dialect.
+ */
+export function describeDialect(dialect: CSVDialect): string {
+  const delimiter = DELIMITER_LABELS[dialect.delimiter] ?? `'${dialect.delimiter}'`;
+  const quote = dialect.quoteChar === '"' ? 'double quotes' : 'single quotes';
+  const header = dialect.hasHeader ? 'header row' : 'no header';
+  return `${delimiter}-delimited, ${quote}, ${header}, ${ENCODING_LABELS[dialect.encoding]}`;
+}
@@ -0,0 +1,181 @@
+/**
+ * Dimension Registry
+ * The quality dimensions the engine scores. The engine registers its
+ * built-in dimensions; teams add domain dimensions such as
+ * "Reconcilability", replace a built-in or switch one off through the
+ * functions dqiEngine exports, without editing the engine itself.
+ *
+ * Analysis runs in a Web Worker, which has its own copy of this registry.
+ * Register dimensions in customDimensions.ts, which both the worker and
+ * the main-thread fallback load before analyzing.
+ */
+
+import type { BusinessRuleResult } from './businessRules';
+import type { RuleResult } from './columnRules';
+import type { DatasetMetadata, DQIDimension, DQIRecommendation, ParsedRow } from './dqiEngine';
+import type { FreshnessResult } from './freshness';
+import type { FunctionalDependencyResult } from './functionalDependencies';
+import type { NearDuplicateSummary } from './nearDuplicates';
+import type { ScoringProfile } from './scoringProfiles';
+import type { TimeSeriesResult } from './timeSeries';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface DimensionResult {
+  score: number; // 0-100
+  findings: string[];
+  impactedColumns: string[];
+  ruleResults?: RuleResult[]; // Pass/fail counts for each declared rule the score is based on
+  businessRuleResults?: BusinessRuleResult[]; // Cross-column rules counted in the score
+  nearDuplicates?: NearDuplicateSummary; // Duplicate clusters counted in the score
+  functionalDependencies?: FunctionalDependencyResult; // Dependencies found between columns and the rows breaking them
+  freshness?: FreshnessResult; // Latency, staleness, future dates and SLA breaches per date column
+  timeSeries?: TimeSeriesResult; // Rows per period of the chosen date column, with flagged periods
+}
+
+/**
+ * Scores one dimension incrementally: observe() sees every row once during
+ * the scoring scan, finish() turns the accumulated counts into a result.
+ * Scorers that only need column metadata omit observe().
+ */
+export interface DimensionScorer {
+  observe?: (row: ParsedRow) => void;
+  finish: () => DimensionResult;
+}
+
+/**
+ * Plain-language text for the explanations section of the report
+ */
+export interface DimensionExplanationTemplate {
+  summary: (score: number, dimension: DQIDimension) => string;
+  businessImpact: (score: number, dimension: DQIDimension) => string;
+}
+
+// Ids are assigned when the report is assembled
+export type DimensionRecommendation = Omit<DQIRecommendation, 'id'>;
+
+export type RecommendationGenerator = (
+  dimension: DQIDimension,
+  metadata: DatasetMetadata
+) => DimensionRecommendation[];
+
+export interface DimensionConfig {
+  id: string; // Stable key used in reports, e.g. "reconcilability"
+  name: string; // Display name
+  baseWeight: number; // Relative weight; the scoring profile may override it, then weights of applicable dimensions are normalized to sum to 1
+  applicabilityCheck: (metadata: DatasetMetadata) => boolean;
+  createScorer: (metadata: DatasetMetadata, profile: ScoringProfile) => DimensionScorer; // Penalty multipliers come from the profile
+  explanation?: DimensionExplanationTemplate; // Generic text is used when omitted
+  recommend?: RecommendationGenerator; // Recommendations to add for this dimension's result
+}
+
+export interface RegisteredDimension {
+  config: DimensionConfig;
+  builtIn: boolean;
+  replaced: boolean; // A built-in whose config was swapped through replace
+  enabled: boolean;
+}
+
+export interface DimensionInfo {
+  id: string;
+  name: string;
+  baseWeight: number;
+  builtIn: boolean;
+  replaced: boolean;
+  enabled: boolean;
+}
+
+export interface DimensionRegistry {
+  register: (config: DimensionConfig) => void; // Throws if the id is taken
+  replace: (config: DimensionConfig) => void; // Throws if the id is unknown; keeps the dimension's position and, when left out, its explanation and recommendations
+  disable: (id: string) => void;
+  enable: (id: string) => void;
+  unregister: (id: string) => void; // Custom dimensions only; built-ins can be disabled instead
+  list: () => DimensionInfo[];
+  active: (disabled?: string[]) => RegisteredDimension[]; // Enabled dimensions in registration order
+  reset: () => void; // Back to the built-in dimensions, all enabled
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+function validateConfig(config: DimensionConfig): void {
+  if (!config.id || !/^[a-z][a-z0-9_-]*$/i.test(config.id)) {
+    throw new Error(`Dimension id '${config.id}' must start with a letter and use only letters, digits, '-' or '_'`);
+  }
+  if (!config.name) {
+    throw new Error(`Dimension '${config.id}' needs a display name`);
+  }
+  if (!isFinite(config.baseWeight) || config.baseWeight < 0) {
+    throw new Error(`Dimension '${config.id}' has an invalid base weight: ${config.baseWeight}`);
+  }
+}
+
+/**
+ * Create a registry holding the given built-in dimensions, all enabled
+ */
+export function createDimensionRegistry(builtIns: DimensionConfig[]): DimensionRegistry {
+  // Map keeps insertion order, so dimensions are scored and reported in registration order
+  const entries = new Map<string, RegisteredDimension>();
+
+  const lookup = (id: string) => {
+    const entry = entries.get(id);
+    if (!entry) throw new Error(`Unknown dimension '${id}'`);
+    return entry;
+  };
+
+  const reset = () => {
+    entries.clear();
+    for (const config of builtIns) {
+      entries.set(config.id, { config, builtIn: true, replaced: false, enabled: true });
+    }
+  };
+  reset();
+
+  return {
+    register: (config) => {
+      validateConfig(config);
+      if (entries.has(config.id)) {
+        throw new Error(`Dimension '${config.id}' is already registered; use replaceDimension to change it`);
+      }
+      entries.set(config.id, { config, builtIn: false, replaced: false, enabled: true });
+    },
+    replace: (config) => {
+      validateConfig(config);
+      const entry = lookup(config.id);
+      entry.config = {
+        ...config,
+        explanation: config.explanation ?? entry.config.explanation,
+        recommend: config.recommend ?? entry.config.recommend,
+      };
+      entry.replaced = entry.builtIn;
+    },
+    disable: (id) => {
+      lookup(id).enabled = false;
+    },
+    enable: (id) => {
+      lookup(id).enabled = true;
+    },
+    unregister: (id) => {
+      if (lookup(id).builtIn) {
+        throw new Error(`Dimension '${id}' is built in; disable it instead`);
+      }
+      entries.delete(id);
+    },
+    list: () => Array.from(entries.values()).map(({ config, builtIn, replaced, enabled }) => ({
+      id: config.id,
+      name: config.name,
+      baseWeight: config.baseWeight,
+      builtIn,
+      replaced,
+      enabled,
+    })),
+    active: (disabled = []) => Array.from(entries.values()).filter(
+      entry => entry.enabled && !disabled.includes(entry.config.id)
+    ),
+    reset,
+  };
+}
@@ -0,0 +1,501 @@
+/**
+ * Domain Packs
+ * The industry knowledge the engine applies when no rules file says
+ * otherwise: which column names hold amounts, identifiers of related
+ * records or statuses, which columns must come in pairs, which values to
+ * validate, which fields are sensitive, and how findings read to the
+ * business. One pack is active per analysis and named in the report.
+ *
+ * Packs are plain data so they can be loaded from a JSON or YAML file:
+ *
+ *   id: clinical-trials
+ *   version: 1.0.0
+ *   name: Clinical Trials
+ *   roles:
+ *     amount: [dose]
+ *     nonNegative: [dose, age_years]
+ *     reference: [subject, site]
+ *   companions:
+ *     - when: [dose]
+ *       requires: [unit, uom]
+ *       finding: Dose field exists without a unit of measure field
+ *   validators:
+ *     - id: site-code
+ *       columns: [site_code]
+ *       rule: { regex: '^S\d{3}$' }
+ *   sensitiveColumnNames: [subject_name, dob]
+ *   explanations:
+ *     validity: { poor: Invalid doses may invalidate trial results., good: Valid doses support sound analysis. }
+ *
+ * Column names match a role when their lower-cased text contains one of
+ * its fragments. Like scoring profiles, packs are registered per
+ * JavaScript context: register them in customDimensions.ts, or pass a
+ * loaded pack as the analysis' domainPack option.
+ */
+
+import { CORE_SCHEMA, load as loadYAML } from 'js-yaml';
+import { validateRuleSpec, type ColumnRuleSpec } from './columnRules';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ColumnRoles {
+  amount: string[]; // Money-like columns: zeros are suspicious and negatives count as anomalies
+  currency: string[]; // ISO 4217 codes; amounts with more decimals than the row's currency allows are inaccurate
+  nonNegative: string[]; // Negative values are invalid
+  numeric: string[]; // Text values are invalid and inaccurate
+  reference: string[]; // Besides *_id columns, columns whose nulls are orphan records
+  status: string[]; // Nulls in the first matching column are integrity issues
+}
+
+export interface CompanionRule {
+  when: string[]; // A column matching any of these...
+  requires: string[]; // ...needs a column matching one of these
+  currencySymbols?: boolean; // Amounts written with currency symbols or codes also satisfy it
+  finding: string; // Reported under integrity when the companion is missing
+}
+
+export interface DomainValidator {
+  id: string; // e.g. "npi"
+  description?: string;
+  columns: string[]; // Name fragments of the columns checked
+  rule: ColumnRuleSpec; // Same checks as a rules file column
+  dimension?: 'validity' | 'accuracy'; // Where failures count (default validity)
+}
+
+export interface DomainExplanation {
+  poor: string; // Business impact when the dimension scores below poorBelow
+  good: string;
+  poorBelow?: number; // Default 70
+}
+
+export interface DomainPack {
+  id: string; // e.g. "healthcare"
+  version: string;
+  name: string;
+  description?: string;
+  roles: ColumnRoles;
+  companions: CompanionRule[];
+  validators: DomainValidator[]; // Applied by the name-based validity checks; a rules file replaces them
+  sensitiveColumnNames: string[]; // Added to the always-redacted card and credential names
+  sensitivePatterns: string[]; // Regular expressions for values redacted from samples
+  explanations: Record<string, DomainExplanation>; // Dimension id to business-impact text
+}
+
+// What files and callers may pass: every list is optional
+export type DomainPackInput = Pick<DomainPack, 'id' | 'version' | 'name' | 'description'> &
+  Partial<Omit<DomainPack, 'id' | 'version' | 'name' | 'description' | 'roles'>> & {
+    roles?: Partial<ColumnRoles>;
+  };
+
+export interface DomainPackInfo {
+  id: string;
+  version: string;
+  name: string;
+  description?: string;
+}
+
+// ============================================================================
+// BUILT-IN PACKS
+// ============================================================================
+
+const NO_ROLES: ColumnRoles = { amount: [], currency: [], nonNegative: [], numeric: [], reference: [], status: [] };
+
+const PAYMENTS_PACK: DomainPack = {
+  id: 'payments',
+  version: '1.0.0',
+  name: 'Payments',
+  description: 'Card and account transactions: amounts need currencies, card data is redacted',
+  roles: {
+    amount: ['amount'],
+    currency: ['currency', 'ccy'],
+    nonNegative: ['amount', 'price', 'quantity', 'count', 'total', 'balance', 'fee', 'cost'],
+    numeric: ['amount', 'price', 'quantity'],
+    reference: ['merchant', 'customer'],
+    status: ['status'],
+  },
+  companions: [
+    {
+      when: ['amount'],
+      requires: ['currency'],
+      currencySymbols: true,
+      finding: 'Amount field exists without corresponding currency field',
+    },
+  ],
+  validators: [
+    // Checked and counted only; card numbers are redacted from samples by name and pattern
+    {
+      id: 'pan-luhn',
+      description: 'card number check digit',
+      columns: ['card_number', 'cardnumber', 'card_no', 'cc_number', 'pan_number'],
+      rule: { format: 'luhn' },
+      dimension: 'accuracy',
+    },
+    { id: 'iso-4217', description: 'ISO 4217 currency code', columns: ['currency', 'ccy'], rule: { format: 'iso4217' } },
+    { id: 'iso-3166', description: 'ISO 3166 country code', columns: ['country'], rule: { format: 'iso3166' } },
+    { id: 'mcc', description: 'merchant category code', columns: ['mcc', 'merchant_category'], rule: { format: 'mcc' } },
+  ],
+  sensitiveColumnNames: ['pan'],
+  sensitivePatterns: ['\\b\\d{3,4}\\b'], // CVV
+  explanations: {
+    completeness: {
+      poor: 'Missing data may cause transaction failures or compliance gaps.',
+      good: 'Current completeness supports reliable transaction processing.',
+    },
+    uniqueness: {
+      poor: 'Duplicates may inflate metrics and cause double-processing risks.',
+      good: 'Low duplication rate ensures accurate transaction counts.',
+      poorBelow: 85,
+    },
+    validity: {
+      poor: 'Invalid values may trigger payment rejections or compliance flags.',
+      good: 'Valid data supports successful transaction authorization.',
+    },
+    timeliness: {
+      poor: 'Stale or future-dated records may affect settlement and reporting.',
+      good: 'Current timestamps support accurate real-time processing.',
+    },
+    accuracy: {
+      poor: 'Inaccurate data may lead to incorrect billing or fraud detection issues.',
+      good: 'Accurate data supports reliable fraud detection and billing.',
+    },
+    integrity: {
+      poor: 'Broken references may cause orphan transactions or reconciliation failures.',
+      good: 'Strong integrity supports complete audit trails.',
+    },
+  },
+};
+
+const BUILT_IN_PACKS: DomainPack[] = [
+  PAYMENTS_PACK,
+  {
+    id: 'healthcare',
+    version: '1.0.0',
+    name: 'Healthcare',
+    description: 'Claims and encounters: billed amounts, clinical codes, patient identifiers treated as sensitive',
+    roles: {
+      amount: ['charge', 'billed', 'paid_amount', 'allowed_amount'],
+      currency: [],
+      nonNegative: ['charge', 'billed', 'paid', 'allowed', 'units', 'dose', 'length_of_stay'],
+      numeric: ['charge', 'billed', 'units', 'dose'],
+      reference: ['patient', 'provider', 'encounter', 'payer'],
+      status: ['claim_status', 'encounter_status'],
+    },
+    companions: [
+      {
+        when: ['dose', 'dosage'],
+        requires: ['unit', 'uom'],
+        finding: 'Dose field exists without a unit of measure field',
+      },
+    ],
+    validators: [
+      { id: 'npi', description: 'National Provider Identifier', columns: ['npi'], rule: { regex: '^\\d{10}$' } },
+      {
+        id: 'icd-10',
+        description: 'ICD-10 diagnosis code',
+        columns: ['icd', 'diagnosis_code', 'dx_code'],
+        rule: { regex: '^[A-TV-Z][0-9][0-9AB](\\.?[0-9A-TV-Z]{1,4})?$' },
+      },
+      { id: 'cpt', description: 'CPT procedure code', columns: ['cpt', 'procedure_code'], rule: { regex: '^\\d{4}[0-9A-Z]$' } },
+    ],
+    sensitiveColumnNames: [
+      'mrn', 'medical_record', 'patient_name', 'first_name', 'last_name', 'date_of_birth', 'dob', 'birth_date',
+      'address', 'member_id', 'insurance_id', 'policy_number', 'diagnosis',
+    ],
+    sensitivePatterns: [],
+    explanations: {
+      completeness: {
+        poor: 'Missing fields may cause claim denials or gaps in the patient record.',
+        good: 'Current completeness supports reliable claims and clinical reporting.',
+      },
+      uniqueness: {
+        poor: 'Duplicate encounters may cause double billing and skewed utilization figures.',
+        good: 'Low duplication rate keeps encounter and claim counts accurate.',
+        poorBelow: 85,
+      },
+      validity: {
+        poor: 'Invalid codes or identifiers may cause claim rejections by payers.',
+        good: 'Valid codes support clean claim submission.',
+      },
+      timeliness: {
+        poor: 'Stale or future-dated records may break filing deadlines and care timelines.',
+        good: 'Current timestamps support accurate care timelines.',
+      },
+      accuracy: {
+        poor: 'Inaccurate values may lead to incorrect reimbursement or clinical decisions.',
+        good: 'Accurate data supports correct reimbursement and clinical reporting.',
+      },
+      integrity: {
+        poor: 'Broken references may leave claims without patients or providers.',
+        good: 'Strong integrity links every claim to its patient and provider.',
+      },
+    },
+  },
+  {
+    id: 'retail',
+    version: '1.0.0',
+    name: 'Retail',
+    description: 'Orders, inventory and product catalogues: prices, quantities and product codes',
+    roles: {
+      amount: ['price', 'amount', 'revenue'],
+      currency: ['currency'],
+      nonNegative: ['price', 'amount', 'revenue', 'quantity', 'qty', 'stock', 'inventory', 'cost', 'tax'],
+      numeric: ['price', 'amount', 'quantity', 'qty', 'cost'],
+      reference: ['store', 'product', 'customer'],
+      status: ['order_status', 'fulfillment_status'],
+    },
+    companions: [
+      {
+        when: ['discount'],
+        requires: ['price', 'amount'],
+        finding: 'Discount field exists without a price field',
+      },
+    ],
+    validators: [
+      {
+        id: 'gtin',
+        description: 'GTIN/UPC/EAN barcode',
+        columns: ['gtin', 'upc', 'ean', 'barcode'],
+        rule: { regex: '^(\\d{8}|\\d{12,14})$' },
+      },
+    ],
+    sensitiveColumnNames: ['loyalty_card', 'customer_name', 'address'],
+    sensitivePatterns: [],
+    explanations: {
+      completeness: {
+        poor: 'Missing fields may block fulfilment or leave products unlisted.',
+        good: 'Current completeness supports reliable order fulfilment.',
+      },
+      uniqueness: {
+        poor: 'Duplicate orders or products may inflate sales and inventory figures.',
+        good: 'Low duplication rate keeps sales and stock counts accurate.',
+        poorBelow: 85,
+      },
+      validity: {
+        poor: 'Invalid prices or product codes may cause checkout and catalogue errors.',
+        good: 'Valid prices and codes support smooth checkout.',
+      },
+      timeliness: {
+        poor: 'Stale or future-dated records may distort sales trends and stock planning.',
+        good: 'Current timestamps support accurate sales and stock planning.',
+      },
+      accuracy: {
+        poor: 'Inaccurate values may lead to mispricing and wrong replenishment.',
+        good: 'Accurate data supports correct pricing and replenishment.',
+      },
+      integrity: {
+        poor: 'Broken references may leave orders without products or stores.',
+        good: 'Strong integrity ties every order to its products and store.',
+      },
+    },
+  },
+  {
+    id: 'general',
+    version: '1.0.0',
+    name: 'General',
+    description: 'No industry heuristics; only generic checks and card and credential redaction',
+    roles: NO_ROLES,
+    companions: [],
+    validators: [],
+    sensitiveColumnNames: [],
+    sensitivePatterns: [],
+    explanations: {},
+  },
+];
+
+export const DEFAULT_DOMAIN_PACK_ID = PAYMENTS_PACK.id;
+
+// ============================================================================
+// VALIDATION & LOADING
+// ============================================================================
+
+const ROLE_NAMES: (keyof ColumnRoles)[] = ['amount', 'currency', 'nonNegative', 'numeric', 'reference', 'status'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringList(packId: string, field: string, value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || v.trim() === '')) {
+    throw new Error(`Domain pack '${packId}' field '${field}' must be a list of non-empty strings`);
+  }
+  return value.map(v => v.toLowerCase());
+}
+
+function validateCompanion(packId: string, value: unknown, index: number): CompanionRule {
+  const field = `companions[${index}]`;
+  if (!isRecord(value)) throw new Error(`Domain pack '${packId}' ${field} must be an object`);
+  const when = stringList(packId, `${field}.when`, value.when);
+  const requires = stringList(packId, `${field}.requires`, value.requires);
+  if (when.length === 0 || requires.length === 0) {
+    throw new Error(`Domain pack '${packId}' ${field} needs 'when' and 'requires' name lists`);
+  }
+  if (typeof value.finding !== 'string' || !value.finding) {
+    throw new Error(`Domain pack '${packId}' ${field} needs a 'finding' text`);
+  }
+  return { when, requires, currencySymbols: value.currencySymbols === true || undefined, finding: value.finding };
+}
+
+function validateValidator(packId: string, value: unknown, index: number): DomainValidator {
+  if (!isRecord(value) || typeof value.id !== 'string' || !value.id) {
+    throw new Error(`Domain pack '${packId}' validators[${index}] needs an 'id'`);
+  }
+  const columns = stringList(packId, `validators.${value.id}.columns`, value.columns);
+  if (columns.length === 0) throw new Error(`Domain pack '${packId}' validator '${value.id}' names no columns`);
+  if (value.dimension !== undefined && value.dimension !== 'validity' && value.dimension !== 'accuracy') {
+    throw new Error(`Domain pack '${packId}' validator '${value.id}' dimension must be validity or accuracy`);
+  }
+  return {
+    id: value.id,
+    description: typeof value.description === 'string' ? value.description : undefined,
+    columns,
+    rule: validateRuleSpec(value.id, value.rule),
+    dimension: value.dimension as DomainValidator['dimension'],
+  };
+}
+
+function validateExplanation(packId: string, dimension: string, value: unknown): DomainExplanation {
+  if (!isRecord(value) || typeof value.poor !== 'string' || typeof value.good !== 'string') {
+    throw new Error(`Domain pack '${packId}' explanation for '${dimension}' needs 'poor' and 'good' texts`);
+  }
+  if (value.poorBelow !== undefined && (typeof value.poorBelow !== 'number' || value.poorBelow < 0 || value.poorBelow > 100)) {
+    throw new Error(`Domain pack '${packId}' explanation for '${dimension}' has a poorBelow outside 0-100`);
+  }
+  return { poor: value.poor, good: value.good, poorBelow: value.poorBelow as number | undefined };
+}
+
+/**
+ * Check a pack document, filling omitted lists with empty ones
+ */
+export function validateDomainPack(document: unknown): DomainPack {
+  if (!isRecord(document)) throw new Error('Domain pack must be an object');
+  const { id, name } = document;
+  const version = typeof document.version === 'number' ? String(document.version) : document.version;
+  if (typeof id !== 'string' || !/^[a-z][a-z0-9_-]*$/i.test(id)) {
+    throw new Error(`Domain pack id '${String(id)}' must start with a letter and use only letters, digits, '-' or '_'`);
+  }
+  if (typeof version !== 'string' || !/^\d+(\.\d+)*$/.test(version)) {
+    throw new Error(`Domain pack '${id}' needs a numeric version such as 1.0.0`);
+  }
+  if (typeof name !== 'string' || !name) throw new Error(`Domain pack '${id}' needs a display name`);
+
+  if (document.roles !== undefined && !isRecord(document.roles)) {
+    throw new Error(`Domain pack '${id}' field 'roles' must map role names to column name lists`);
+  }
+  const roleInput: Record<string, unknown> = isRecord(document.roles) ? document.roles : {};
+  for (const role of Object.keys(roleInput)) {
+    if (!ROLE_NAMES.includes(role as keyof ColumnRoles)) {
+      throw new Error(`Domain pack '${id}' has unknown role '${role}'; expected one of ${ROLE_NAMES.join(', ')}`);
+    }
+  }
+  const roles = { ...NO_ROLES };
+  for (const role of ROLE_NAMES) roles[role] = stringList(id, `roles.${role}`, roleInput[role]);
+
+  const listOf = (field: string) => {
+    const value = document[field];
+    if (value !== undefined && !Array.isArray(value)) throw new Error(`Domain pack '${id}' field '${field}' must be a list`);
+    return (value ?? []) as unknown[];
+  };
+
+  const sensitivePatterns = listOf('sensitivePatterns').map(pattern => {
+    if (typeof pattern !== 'string') throw new Error(`Domain pack '${id}' sensitive patterns must be strings`);
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(`Domain pack '${id}' sensitive pattern is not a valid regular expression: ${pattern}`);
+    }
+    return pattern;
+  });
+
+  if (document.explanations !== undefined && !isRecord(document.explanations)) {
+    throw new Error(`Domain pack '${id}' field 'explanations' must map dimension ids to texts`);
+  }
+  const explanations: Record<string, DomainExplanation> = {};
+  for (const [dimension, text] of Object.entries(isRecord(document.explanations) ? document.explanations : {})) {
+    explanations[dimension] = validateExplanation(id, dimension, text);
+  }
+
+  const validators = listOf('validators').map((v, i) => validateValidator(id, v, i));
+  const duplicate = validators.find((v, i) => validators.findIndex(other => other.id === v.id) !== i);
+  if (duplicate) throw new Error(`Domain pack '${id}' has more than one validator with id '${duplicate.id}'`);
+
+  return {
+    id,
+    version,
+    name,
+    description: typeof document.description === 'string' ? document.description : undefined,
+    roles,
+    companions: listOf('companions').map((c, i) => validateCompanion(id, c, i)),
+    validators,
+    sensitiveColumnNames: stringList(id, 'sensitiveColumnNames', document.sensitiveColumnNames),
+    sensitivePatterns,
+    explanations,
+  };
+}
+
+/**
+ * Parse a JSON or YAML domain pack file
+ */
+export function parseDomainPackFile(text: string, fileName = ''): DomainPack {
+  const isJSON = /\.json$/i.test(fileName) || (!/\.ya?ml$/i.test(fileName) && text.trimStart().startsWith('{'));
+  let document: unknown;
+  try {
+    document = isJSON ? JSON.parse(text) : loadYAML(text, { schema: CORE_SCHEMA });
+  } catch (err) {
+    throw new Error(`Domain pack file is not valid ${isJSON ? 'JSON' : 'YAML'}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateDomainPack(document);
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const packs: DomainPack[] = [...BUILT_IN_PACKS];
+
+/**
+ * Add a pack, or replace a registered one with the same id
+ */
+export function registerDomainPack(input: DomainPackInput): void {
+  const pack = validateDomainPack(input);
+  const index = packs.findIndex(p => p.id === pack.id);
+  if (index >= 0) packs[index] = pack;
+  else packs.push(pack);
+}
+
+/**
+ * Every registered pack, for selection lists
+ */
+export function listDomainPacks(): DomainPackInfo[] {
+  return packs.map(({ id, version, name, description }) => ({ id, version, name, description }));
+}
+
+export function getDomainPack(id: string): DomainPack {
+  const pack = packs.find(p => p.id === id);
+  if (!pack) throw new Error(`Unknown domain pack '${id}'`);
+  return pack;
+}
+
+/**
+ * The pack an analysis runs with: a registered id, a pack passed inline
+ * (e.g. loaded from a file), or the payments pack
+ */
+export function resolveDomainPack(selection?: string | DomainPackInput): DomainPack {
+  if (selection === undefined) return getDomainPack(DEFAULT_DOMAIN_PACK_ID);
+  if (typeof selection === 'string') return getDomainPack(selection);
+  return validateDomainPack(selection);
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Whether a column name contains any of a role's fragments
+ */
+export function matchesRole(columnName: string, fragments: string[]): boolean {
+  const name = columnName.toLowerCase();
+  return fragments.some(f => name.includes(f));
+}
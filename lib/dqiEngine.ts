@@ -1,6 +1,7 @@
 /**
  * Data Quality Intelligence (DQI) Engine
  * Privacy-preserving, metadata-only analysis for Visa payment transactions
+ * and, through domain packs, other industries' data
  * 
  * ⚠️ SECURITY: This engine NEVER stores raw card/transaction data
  * ✅ Only computes objective data quality scores from metadata
@@ -8,6 +9,139 @@
  * ✅ Outputs standardized audit JSON
  */
 
+import {
+  createBusinessRuleEvaluator,
+  type BusinessRuleDimension,
+  type BusinessRuleEvaluator,
+  type BusinessRuleResult,
+} from './businessRules';
+import { createKeyChecker, type CandidateKeyDiscovery, type ColumnDistinct, type PrimaryKeyCheck } from './candidateKeys';
+import { createRuleEvaluator, type ColumnRuleSet, type RuleEvaluator, type RuleResult } from './columnRules';
+import { createCSVTokenizer, type CSVParseStats } from './csvParser';
+import {
+  createDateFormatDetector,
+  createDateParser,
+  DEFAULT_DATE_ORDER,
+  looksLikeDate,
+  type DateFormatInfo,
+  type DateOrder,
+} from './dateParsing';
+import {
+  createDimensionRegistry,
+  type DimensionConfig,
+  type DimensionExplanationTemplate,
+  type DimensionInfo,
+  type DimensionRecommendation,
+  type DimensionScorer,
+  type RecommendationGenerator,
+  type RegisteredDimension,
+} from './dimensionRegistry';
+import { decodeText, detectEncoding, resolveDialect, type CSVDialect, type DialectInfo } from './dialectDetection';
+import {
+  matchesRole,
+  resolveDomainPack,
+  type DomainPack,
+  type DomainPackInfo,
+  type DomainPackInput,
+  type DomainValidator,
+} from './domainPacks';
+import {
+  extractSheetTable,
+  isExcelFile,
+  readWorkbook,
+  type ExcelOptions,
+  type WorkbookInfo,
+} from './excelReader';
+import {
+  createFreshnessTracker,
+  createReferenceClock,
+  describeHours,
+  resolveFreshnessConfig,
+  type FreshnessConfig,
+  type FreshnessOptions,
+  type FreshnessResult,
+  type ReferenceClock,
+} from './freshness';
+import { createDependencyFinder, type FunctionalDependencyResult } from './functionalDependencies';
+import {
+  createTimeSeriesTracker,
+  describePeriod,
+  validateTimeSeriesOptions,
+  type TimeSeriesOptions,
+  type PeriodFlag,
+  type TimeSeriesPeriod,
+  type TimeSeriesResult,
+  type TimeSeriesTracker,
+} from './timeSeries';
+import { isJSONFile, parseJSONTable, type JSONFieldPath, type JSONIngestInfo } from './jsonReader';
+import {
+  columnMissingRules,
+  describeMissingCounts,
+  resolveMissingValueConfig,
+  type ColumnMissingRules,
+  type MissingValueConfig,
+  type MissingValueCounts,
+  type MissingValueOptions,
+} from './missingValues';
+import {
+  createNumberTracker,
+  DEFAULT_NUMBER_FORMAT,
+  resolveNumberFormat,
+  type CurrencyInfo,
+  type NumberFormat,
+  type NumberFormatInfo,
+  type NumberTracker,
+} from './numberParsing';
+import {
+  createNearDuplicateDetector,
+  resolveNearDuplicateConfig,
+  type NearDuplicateConfig,
+  type NearDuplicateOptions,
+  type NearDuplicateSummary,
+} from './nearDuplicates';
+import {
+  computeOutlierBounds,
+  describeOutlierBounds,
+  resolveOutlierSpecs,
+  type OutlierBounds,
+  type OutlierMethodSpec,
+  type OutlierOptions,
+} from './outliers';
+import { isParquetFile, readParquetTable, type ParquetDeclaredType, type ParquetInfo } from './parquetReader';
+import { currencyMinorUnits, decimalPlaces } from './referenceCodes';
+import {
+  createKeyCollector,
+  createRelationshipChecker,
+  declaredKeysFor,
+  resolveRelationships,
+  type KeyCollector,
+  type ReferenceOptions,
+  type ReferenceTable,
+  type ReferenceTableInfo,
+  type RelationshipChecker,
+  type RelationshipResult,
+} from './referentialIntegrity';
+import {
+  resolveScoringProfile,
+  type GradeCutoffs,
+  type ComplianceThresholds,
+  type ScoringPenalties,
+  type ScoringProfile,
+  type ScoringProfileInput,
+} from './scoringProfiles';
+import {
+  createDistinctCounter,
+  createReservoir,
+  createRunningStats,
+  createTopValues,
+  hashString,
+  medianOf,
+  quantile,
+  type FrequentValue,
+  type Reservoir,
+  type RunningStats,
+} from './streamingStats';
+
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
@@ -19,6 +153,26 @@ export interface DatasetMetadata {
   columnCount: number;
   schema: ColumnSchema[];
   statisticalSummary: StatisticalSummary;
+  sourceFormat: 'csv' | 'excel' | 'json' | 'parquet';
+  parsing?: CSVParseStats; // How the tokenizer handled quoting, line endings and blank lines
+  dialect?: DialectInfo; // Delimiter, quote char, header and encoding the file was read with
+  workbook?: WorkbookInfo; // Sheet and header row an Excel file was read from
+  json?: JSONIngestInfo; // Record location and flattening stats for JSON/NDJSON
+  parquet?: ParquetInfo; // Declared schema and row-group statistics for Parquet
+  processing?: ProcessingInfo; // How the file was read and which figures are estimates
+  missingValues: MissingValueConfig; // Null tokens, sentinels and blank handling the analysis used
+  numberFormat?: NumberFormatInfo; // Decimal and thousands separators text numbers were read with
+  dateOrder: DateOrder; // Day/month order assumed where a column's dates never settle it
+  validationRules?: ColumnRuleSet; // Declared column rules and business rules the analysis was scored against
+  referenceTables?: ReferenceTableInfo[]; // Related tables uploaded with the file
+  referentialIntegrity?: RelationshipResult[]; // Foreign key checks against those tables, filled in by the scoring scan
+  domainPack: DomainPack; // Column roles, validators and business text the name-based checks used
+  duplicateDetection: NearDuplicateConfig; // Columns, blocking and similarity threshold used for near-duplicates
+  outlierSettings?: OutlierOptions; // Outlier methods asked for; each column's fences are in its statistics
+  freshness: FreshnessConfig; // Reference time, stale limit and SLAs timeliness measures against
+  timeSeries?: TimeSeriesOptions; // Date column and settings the feed is checked as a time series with
+  candidateKeys?: CandidateKeyDiscovery; // Minimal unique column combinations, filled in by the scoring scan
+  primaryKey?: PrimaryKeyCheck; // The confirmed primary key and its repeats, filled in by the scoring scan
   dataHash: string; // SHA-256 hash for audit trail, not raw data
   analyzedAt: string;
 }
@@ -26,11 +180,40 @@ export interface DatasetMetadata {
 export interface ColumnSchema {
   name: string;
   inferredType: 'string' | 'number' | 'date' | 'boolean' | 'currency' | 'identifier' | 'mixed';
-  nullRatio: number; // 0-1
+  nullRatio: number; // 0-1, all missing kinds (nulls, empty strings and sentinels)
   uniqueRatio: number; // 0-1
   sampleValues: string[]; // Safe samples only (max 3, redacted if sensitive)
   patterns: string[]; // Detected patterns (e.g., "YYYY-MM-DD", "XX-XXXX-XXXX")
   statistics?: NumericStatistics;
+  typeSource?: 'inferred' | 'declared'; // 'declared' when taken from a typed schema (Parquet)
+  sourcePath?: string; // Original field path for nested sources, e.g. $.merchant.address.city
+  profiledAs?: 'array-length'; // Set when the column holds the length of an array field
+  missing?: MissingValueCounts; // Breakdown of the missing values behind nullRatio
+  currency?: CurrencyInfo; // Symbol or ISO code written alongside the amounts
+  dateFormat?: DateFormatInfo; // Inferred date format and timezone that timeliness parses with
+  topValues?: TopValuesInfo; // Most frequent values, redacted like the samples
+  lengths?: LengthStatistics; // Character lengths of the text values
+  entropy?: number; // Shannon entropy of the values in bits; 0 for a constant column
+}
+
+export interface TopValuesInfo {
+  values: FrequentValue[]; // Values seen at least twice, most frequent first (max 10)
+  approximate?: boolean; // Counts are lower bounds once rare values were pruned
+}
+
+export interface LengthStatistics {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface ProcessingInfo {
+  mode: 'streaming' | 'in-memory'; // CSV is streamed in chunks; other formats are decoded whole
+  passes: number; // Full scans over the rows (profiling, then scoring)
+  chunkBytes?: number; // Read size when streaming
+  approximateDistinctColumns: string[]; // Unique ratios estimated from a hash sample past the exact limit
+  approximateDuplicateRows: boolean; // Duplicate row count estimated past the exact limit
+  sampledMedianColumns: string[]; // Medians, quantiles and histograms taken from a fixed-size sample
 }
 
 export interface NumericStatistics {
@@ -39,6 +222,24 @@ export interface NumericStatistics {
   mean: number;
   median: number;
   stdDev: number;
+  quantiles?: Quantiles;
+  histogram?: HistogramBin[]; // Equal-width bins from min to max
+  outliers?: OutlierBounds; // Method and fences outlier values are counted against
+}
+
+export interface Quantiles {
+  p1: number;
+  p5: number;
+  p25: number;
+  p75: number;
+  p95: number;
+  p99: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number; // Exclusive, except for the last bin
+  count: number; // Sampled values when the column's median is sampled
 }
 
 export interface StatisticalSummary {
@@ -57,6 +258,13 @@ export interface DQIDimension {
   applicable: boolean;
   findings: string[];
   impactedColumns: string[];
+  custom?: boolean; // Added through registerDimension rather than shipped with the engine
+  ruleResults?: RuleResult[]; // Per-rule pass/fail counts when the score comes from declared rules
+  businessRuleResults?: BusinessRuleResult[]; // Cross-column rules whose violations count against this dimension
+  nearDuplicates?: NearDuplicateSummary; // Duplicate clusters found after normalizing formatting
+  functionalDependencies?: FunctionalDependencyResult; // Column dependencies for data owners to confirm, with the rows breaking them
+  freshness?: FreshnessResult; // Latency distribution, stale and future dates and SLA breaches per date column
+  timeSeries?: TimeSeriesResult; // Rows per period with missing, duplicated and anomalous periods
 }
 
 export interface CompositeDQS {
@@ -65,6 +273,26 @@ export interface CompositeDQS {
   confidence: number; // 0-100
 }
 
+export interface MalformedRow {
+  line: number; // 1-based line the record starts on
+  expectedFields: number;
+  actualFields: number | null; // null when the line could not be parsed at all
+}
+
+export interface StructuralValidity {
+  expectedFields: number; // Field count set by the header
+  recordsRead: number; // Data records in the file, malformed ones included
+  malformedRows: number; // Records excluded from analysis
+  tooFewFields: number;
+  tooManyFields: number;
+  unparseableRows: number; // NDJSON lines that were not valid JSON objects
+  malformedRatio: number; // 0-1 of records read
+  fieldCountHistogram: { fields: number; rows: number }[]; // Field counts seen on malformed records
+  samples: MalformedRow[]; // First MAX_REPORTED_MALFORMED_ROWS malformed records
+  unterminatedQuote: boolean; // A quote was never closed, so the end of the file may have merged into one field
+  scorePenalty: number; // Points deducted from the composite score
+}
+
 export interface DQIExplanation {
   dimension: string;
   summary: string;
@@ -82,8 +310,37 @@ export interface DQIRecommendation {
   remediation: string;
 }
 
+export interface AnalysisProgress {
+  stage: 'reading' | 'profiling' | 'scoring' | 'reporting';
+  percent: number; // 0-100 across the whole analysis
+  bytesProcessed: number; // Bytes parsed so far in the current scan
+  totalBytes: number;
+  dimension?: string; // Dimension currently being scored
+}
+
+export interface AnalysisOptions {
+  dialect?: Partial<CSVDialect>; // User overrides; anything omitted is auto-detected
+  excel?: ExcelOptions; // Sheet and header row for workbooks
+  missingValues?: MissingValueOptions; // Null tokens, sentinels and blank handling, analysis-wide and per column
+  numberFormat?: Partial<NumberFormat>; // Decimal and thousands separators; anything omitted is detected
+  dateOrder?: DateOrder; // Day/month order assumed for columns whose dates never settle it (default MDY)
+  disabledDimensions?: string[]; // Dimension ids left out of this analysis only
+  rules?: ColumnRuleSet; // Declared column rules; validity scores against these instead of name-based guesses
+  references?: ReferenceOptions; // Related tables and key relationships integrity is checked against
+  scoringProfile?: string | ScoringProfileInput; // Profile id ("id" or "id@version") or an inline profile; default standard
+  domainPack?: string | DomainPackInput; // Pack id or a loaded pack; default payments
+  nearDuplicates?: NearDuplicateOptions; // Normalization, blocking and similarity for near-duplicate rows
+  outliers?: OutlierOptions; // Outlier method per numeric column (default mean ± 3σ)
+  freshness?: FreshnessOptions; // Reference time and SLAs for timeliness (default: dates against the analysis time)
+  timeSeries?: TimeSeriesOptions; // Date column to check for missing periods and volume anomalies (default: not checked)
+  primaryKey?: string[]; // Confirmed primary key columns; uniqueness is scored on these instead of identifier names
+  onProgress?: (progress: AnalysisProgress) => void; // Called per parsed chunk and per scored dimension
+  signal?: AbortSignal; // Stops the analysis at the next chunk or row batch
+}
+
 export interface DQIReport {
   datasetMetadata: DatasetMetadata;
+  structuralValidity: StructuralValidity;
   dimensions: DQIDimension[];
   compositeDQS: CompositeDQS;
   explanations: DQIExplanation[];
@@ -95,6 +352,8 @@ export interface DQIReport {
     timestamp: string;
     engineVersion: string;
     checksumVerified: boolean;
+    scoringProfile: ScoringProfile; // Every weight, penalty and threshold the scores were computed with
+    domainPack: DomainPackInfo; // Industry heuristics the analysis applied
   };
 }
 
@@ -102,16 +361,16 @@ export interface DQIReport {
 // SENSITIVE DATA PATTERNS (for redaction)
 // ============================================================================
 
+// Redacted whatever the domain pack; packs add their own names and patterns
 const SENSITIVE_PATTERNS = {
   PAN: /\b(?:\d{4}[-\s]?){3}\d{4}\b/, // Card numbers
-  CVV: /\b\d{3,4}\b/, // CVV
   SSN: /\b\d{3}-\d{2}-\d{4}\b/, // Social Security
   EMAIL: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/,
   PHONE: /\b(?:\+?1[-.\s]?)?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/,
 };
 
 const SENSITIVE_COLUMN_NAMES = [
-  'pan', 'card_number', 'cardnumber', 'card_no', 'cc_number',
+  'card_number', 'cardnumber', 'card_no', 'cc_number',
   'cvv', 'cvc', 'security_code', 'ssn', 'social_security',
   'password', 'pin', 'secret', 'token', 'auth_code'
 ];
@@ -123,9 +382,9 @@ const SENSITIVE_COLUMN_NAMES = [
 /**
  * Generate a SHA-256 hash of data for audit purposes
  */
-async function generateDataHash(data: string): Promise<string> {
+async function generateDataHash(data: string | Uint8Array): Promise<string> {
   const encoder = new TextEncoder();
-  const dataBuffer = encoder.encode(data);
+  const dataBuffer = typeof data === 'string' ? encoder.encode(data) : new Uint8Array(data);
   const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
@@ -138,44 +397,54 @@ function generateEvaluationId(): string {
   return `DQI-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 }
 
+type Redactor = (value: string, columnName: string) => string;
+
 /**
- * Check if a column name suggests sensitive data
+ * Redact sensitive values for safe sample display, by column name or value
+ * pattern, using the built-in lists plus the domain pack's
  */
-function isSensitiveColumn(name: string): boolean {
-  const normalized = name.toLowerCase().replace(/[_\-\s]/g, '');
-  return SENSITIVE_COLUMN_NAMES.some(s => normalized.includes(s.replace(/[_\-\s]/g, '')));
+function createRedactor(pack: DomainPack): Redactor {
+  const normalize = (name: string) => name.toLowerCase().replace(/[_\-\s]/g, '');
+  const names = [...SENSITIVE_COLUMN_NAMES, ...pack.sensitiveColumnNames].map(normalize);
+  const patterns = [...Object.values(SENSITIVE_PATTERNS), ...pack.sensitivePatterns.map(p => new RegExp(p))];
+
+  return (value, columnName) => {
+    const normalized = normalize(columnName);
+    if (names.some(s => normalized.includes(s))) {
+      return '***REDACTED***';
+    }
+    
+    if (patterns.some(pattern => pattern.test(value))) {
+      return '***REDACTED***';
+    }
+    
+    // Truncate long values
+    if (value.length > 50) {
+      return value.substring(0, 47) + '...';
+    }
+    
+    return value;
+  };
 }
 
 /**
- * Redact sensitive values for safe sample display
+ * Reference a column by its original field path when it was flattened
+ * from a nested source, so findings point at the real field
  */
-function redactSensitiveValue(value: string, columnName: string): string {
-  if (isSensitiveColumn(columnName)) {
-    return '***REDACTED***';
-  }
-  
-  for (const [, pattern] of Object.entries(SENSITIVE_PATTERNS)) {
-    if (pattern.test(value)) {
-      return '***REDACTED***';
-    }
-  }
-  
-  // Truncate long values
-  if (value.length > 50) {
-    return value.substring(0, 47) + '...';
-  }
-  
-  return value;
+function fieldReference(name: string, metadata: DatasetMetadata): string {
+  const col = metadata.schema.find(c => c.name === name);
+  if (!col?.sourcePath) return name;
+  return col.profiledAs === 'array-length' ? `${col.sourcePath} (array length)` : col.sourcePath;
 }
 
 /**
  * Calculate grade from score
  */
-function calculateGrade(score: number): CompositeDQS['grade'] {
-  if (score >= 90) return 'A';
-  if (score >= 80) return 'B';
-  if (score >= 70) return 'C';
-  if (score >= 60) return 'D';
+function calculateGrade(score: number, cutoffs: GradeCutoffs): CompositeDQS['grade'] {
+  if (score >= cutoffs.A) return 'A';
+  if (score >= cutoffs.B) return 'B';
+  if (score >= cutoffs.C) return 'C';
+  if (score >= cutoffs.D) return 'D';
   return 'F';
 }
 
@@ -183,61 +452,29 @@ function calculateGrade(score: number): CompositeDQS['grade'] {
 // CSV PARSING (Temporary - disposed after metadata extraction)
 // ============================================================================
 
-interface ParsedRow {
+/**
+ * One row as scorers see it: column name to parsed value
+ */
+export interface ParsedRow {
   [key: string]: string | number | boolean | null;
 }
 
-function parseCSVContent(content: string): { headers: string[]; rows: ParsedRow[] } {
-  const lines = content.trim().split('\n');
-  if (lines.length === 0) return { headers: [], rows: [] };
-
-  const headers = parseCSVLine(lines[0]);
-  const rows: ParsedRow[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    if (values.length === headers.length) {
-      const row: ParsedRow = {};
-      headers.forEach((header, idx) => {
-        row[header] = parseValue(values[idx]);
-      });
-      rows.push(row);
-    }
-  }
-
-  return { headers, rows };
-}
-
-function parseCSVLine(line: string): string[] {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      values.push(current.trim().replace(/^"|"$/g, ''));
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  values.push(current.trim().replace(/^"|"$/g, ''));
-  return values;
-}
+type CellValue = ParsedRow[string];
+type NumberParser = (text: string) => number | null;
 
-function parseValue(value: string): string | number | boolean | null {
-  const trimmed = value.trim().replace(/^"|"$/g, '');
+function parseValue(value: string, rules: ColumnMissingRules, parseNumber: NumberParser): string | number | boolean | null {
+  const trimmed = value.trim();
   
-  if (trimmed === '' || trimmed.toLowerCase() === 'null' || trimmed.toLowerCase() === 'na' || trimmed === '-') {
+  if (trimmed === '') {
+    return rules.emptyStrings === 'null' ? null : '';
+  }
+  if (rules.isNullToken(trimmed)) {
     return null;
   }
   
-  // Try number
-  const num = Number(trimmed.replace(/[$,]/g, ''));
-  if (!isNaN(num) && trimmed !== '' && !/^0\d+/.test(trimmed)) {
+  // Try number (locale separators, currency markers, accounting negatives)
+  const num = parseNumber(trimmed);
+  if (num !== null) {
     return num;
   }
   
@@ -248,45 +485,398 @@ function parseValue(value: string): string | number | boolean | null {
   return trimmed;
 }
 
+/**
+ * Typed cells (workbooks, JSON) are kept as-is; only text goes through parseValue
+ */
+function buildTypedRow(
+  headers: string[],
+  record: CellValue[],
+  rules: ColumnMissingRules[],
+  numberParsers: NumberParser[]
+): ParsedRow {
+  const row: ParsedRow = {};
+  headers.forEach((header, idx) => {
+    const cell = record[idx];
+    row[header] = typeof cell === 'string' ? parseValue(cell, rules[idx], numberParsers[idx]) : cell;
+  });
+  return row;
+}
+
+/**
+ * One parser per column so each scan can tally the currency markers it sees
+ */
+function columnNumberParsers(numbers: NumberTracker, columnCount: number): NumberParser[] {
+  return Array.from({ length: columnCount }, (_, idx) => (text: string) => numbers.parse(idx, text));
+}
+
 // ============================================================================
-// METADATA EXTRACTION ENGINE
+// FILE LOADING
 // ============================================================================
 
-function inferColumnType(values: (string | number | boolean | null)[], columnName: string): ColumnSchema['inferredType'] {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined);
-  if (nonNullValues.length === 0) return 'string';
+/**
+ * A table that can be read row by row. CSV is streamed from the File on
+ * every scan; other formats are decoded once and iterated in memory.
+ */
+interface TableSource {
+  headers: string[]; // Filled in by the first scan for streamed CSV
+  hashInput: string | Uint8Array; // What the audit hash is computed over
+  sourceFormat: DatasetMetadata['sourceFormat'];
+  streamed: boolean;
+  parsing?: CSVParseStats; // Updated by each CSV scan
+  dialect?: DialectInfo;
+  workbook?: WorkbookInfo;
+  json?: JSONIngestInfo;
+  parquet?: ParquetInfo;
+  fieldPaths?: Record<string, JSONFieldPath>;
+  declaredTypes?: Record<string, ParquetDeclaredType>;
+  structure?: StructuralValidity; // Updated by each scan
+  missingValues: MissingValueConfig;
+  numberFormat?: NumberFormatInfo; // Absent for typed sources (Parquet), whose numbers need no parsing
+  currencies?: Record<string, CurrencyInfo>; // Currency markers per column, updated by each scan
+  // One full pass over the data rows; onChunk reports bytes parsed so far
+  scan: (onRow: (row: ParsedRow) => void, onChunk?: (bytesProcessed: number) => void) => Promise<void>;
+}
 
-  const types = new Map<string, number>();
+const STREAM_CHUNK_BYTES = 4 * 1024 * 1024;
+const PROGRESS_ROW_INTERVAL = 10_000; // Rows between progress reports for in-memory formats
+const SAMPLE_BYTES = 64 * 1024;
+const NUMBER_FORMAT_SAMPLE_RECORDS = 200; // Records whose text cells are used to detect separators
+const MAX_REPORTED_MALFORMED_ROWS = 50;
 
-  // Check for identifier patterns (high uniqueness + specific naming)
-  const identifierPatterns = ['id', 'key', 'code', 'ref', 'num', 'no'];
-  const isLikelyIdentifier = identifierPatterns.some(p => columnName.toLowerCase().includes(p));
-
-  for (const val of nonNullValues) {
-    if (typeof val === 'number') {
-      types.set('number', (types.get('number') || 0) + 1);
-    } else if (typeof val === 'boolean') {
-      types.set('boolean', (types.get('boolean') || 0) + 1);
-    } else if (typeof val === 'string') {
-      // Check for currency
-      if (/^\$?[\d,]+\.?\d*$/.test(val) || /^[\d,]+\.?\d*\s*(USD|EUR|GBP|INR)$/i.test(val)) {
-        types.set('currency', (types.get('currency') || 0) + 1);
-      }
-      // Check for date
-      else if (/^\d{4}-\d{2}-\d{2}/.test(val) || /^\d{2}\/\d{2}\/\d{4}/.test(val) || /^\d{2}-\d{2}-\d{4}/.test(val)) {
-        types.set('date', (types.get('date') || 0) + 1);
-      }
-      // Check for identifier
-      else if (isLikelyIdentifier && /^[A-Z0-9\-_]+$/i.test(val)) {
-        types.set('identifier', (types.get('identifier') || 0) + 1);
+interface StructureTracker {
+  observe: (line: number | undefined, actualFields: number | null) => boolean; // True when the record is well formed
+  finish: (unterminatedQuote?: boolean) => StructuralValidity;
+}
+
+/**
+ * Count records whose field count differs from the header. These are left
+ * out of the analysis, so they are reported and scored instead.
+ */
+function createStructureTracker(expectedFields: number): StructureTracker {
+  const histogram = new Map<number, number>();
+  const samples: MalformedRow[] = [];
+  let recordsRead = 0;
+  let tooFewFields = 0;
+  let tooManyFields = 0;
+  let unparseableRows = 0;
+
+  return {
+    observe: (line, actualFields) => {
+      recordsRead++;
+      if (actualFields === expectedFields) return true;
+
+      if (actualFields === null) unparseableRows++;
+      else if (actualFields < expectedFields) tooFewFields++;
+      else tooManyFields++;
+      if (actualFields !== null) histogram.set(actualFields, (histogram.get(actualFields) || 0) + 1);
+      if (line !== undefined && samples.length < MAX_REPORTED_MALFORMED_ROWS) {
+        samples.push({ line, expectedFields, actualFields });
       }
-      else {
-        types.set('string', (types.get('string') || 0) + 1);
+      return false;
+    },
+    finish: (unterminatedQuote = false) => {
+      const malformedRows = tooFewFields + tooManyFields + unparseableRows;
+      const malformedRatio = recordsRead > 0 ? malformedRows / recordsRead : 0;
+
+      return {
+        expectedFields,
+        recordsRead,
+        malformedRows,
+        tooFewFields,
+        tooManyFields,
+        unparseableRows,
+        malformedRatio,
+        fieldCountHistogram: Array.from(histogram, ([fields, rows]) => ({ fields, rows })).sort((a, b) => a.fields - b.fields),
+        samples,
+        unterminatedQuote,
+        scorePenalty: 0, // Set from the scoring profile once the analysis is scored
+      };
+    },
+  };
+}
+
+/**
+ * Composite points charged for records that never reached the dimensions
+ */
+function calculateStructuralPenalty(structure: StructuralValidity, penalties: ScoringPenalties): number {
+  let penalty = 0;
+  if (structure.malformedRows > 0) {
+    // Any dropped record costs at least a point, however large the file
+    penalty = Math.max(1, Math.min(
+      penalties.malformedRowsMax,
+      Math.round(structure.malformedRatio * 100 * penalties.malformedRowsPerPercent)
+    ));
+  }
+  if (structure.unterminatedQuote) penalty = Math.max(penalty, penalties.unterminatedQuote);
+  return penalty;
+}
+
+function readFileBytes(file: File): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(new Uint8Array(event.target?.result as ArrayBuffer));
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+async function readFileSlice(file: File, start: number, end: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Decode and tokenize a CSV file chunk by chunk; only one chunk and the
+ * record being built are held in memory at a time
+ */
+async function streamCSVRecords(
+  file: File,
+  dialect: CSVDialect,
+  onRecord: (record: string[], line: number) => void,
+  onChunk?: (bytesProcessed: number) => void
+): Promise<CSVParseStats> {
+  const decoder = new TextDecoder(dialect.encoding);
+  const tokenizer = createCSVTokenizer(onRecord, { delimiter: dialect.delimiter, quoteChar: dialect.quoteChar });
+
+  for (let offset = 0; offset < file.size; offset += STREAM_CHUNK_BYTES) {
+    const chunk = await readFileSlice(file, offset, offset + STREAM_CHUNK_BYTES);
+    tokenizer.push(decoder.decode(chunk, { stream: true }));
+    onChunk?.(Math.min(offset + STREAM_CHUNK_BYTES, file.size));
+  }
+  tokenizer.push(decoder.decode());
+
+  return tokenizer.finish();
+}
+
+async function openCSVSource(file: File, options: AnalysisOptions): Promise<TableSource> {
+  // One byte past the sniff window lets resolveDialect see that the sample was cut short
+  const head = await readFileSlice(file, 0, SAMPLE_BYTES + 1);
+  const dialect = resolveDialect(head, options.dialect);
+  const headText = decodeText(head, dialect.encoding);
+  const missingValues = resolveMissingValueConfig(options.missingValues, 'null');
+
+  // Separators are detected from the records in the sniffed head
+  const sampleCells: string[] = [];
+  const sampler = createCSVTokenizer(record => sampleCells.push(...record), {
+    delimiter: dialect.delimiter,
+    quoteChar: dialect.quoteChar,
+    maxRecords: NUMBER_FORMAT_SAMPLE_RECORDS,
+  });
+  sampler.push(headText);
+  sampler.finish();
+  const numberFormat = resolveNumberFormat(options.numberFormat, sampleCells);
+
+  const source: TableSource = {
+    headers: [],
+    hashInput: headText.substring(0, 10000), // Hash first 10K chars
+    sourceFormat: 'csv',
+    streamed: true,
+    dialect,
+    missingValues,
+    numberFormat,
+    scan: async (onRow, onChunk) => {
+      let headers: string[] = [];
+      let rules: ColumnMissingRules[] = [];
+      let numbers = createNumberTracker(numberFormat, 0);
+      let numberParsers: NumberParser[] = [];
+      let structure = createStructureTracker(0);
+      source.parsing = await streamCSVRecords(file, dialect, (record, line) => {
+        if (headers.length === 0) {
+          headers = dialect.hasHeader
+            ? record.map(h => h.trim())
+            : record.map((_, idx) => `column_${idx + 1}`);
+          source.headers = headers;
+          rules = headers.map(header => columnMissingRules(missingValues, header));
+          numbers = createNumberTracker(numberFormat, headers.length);
+          numberParsers = columnNumberParsers(numbers, headers.length);
+          structure = createStructureTracker(headers.length);
+          if (dialect.hasHeader) return;
+        }
+        if (structure.observe(line, record.length)) {
+          const row: ParsedRow = {};
+          headers.forEach((header, idx) => {
+            row[header] = parseValue(record[idx], rules[idx], numberParsers[idx]);
+          });
+          onRow(row);
+        }
+      }, onChunk);
+      source.structure = structure.finish(source.parsing.unterminatedQuote);
+      source.currencies = numbers.currencies(headers);
+    },
+  };
+
+  return source;
+}
+
+function inMemorySource(
+  table: Omit<TableSource, 'streamed' | 'scan'>,
+  records: CellValue[][],
+  toRow: (record: CellValue[], numberParsers: NumberParser[]) => ParsedRow,
+  totalBytes: number
+): TableSource {
+  const source: TableSource = {
+    ...table,
+    streamed: false,
+    scan: async (onRow, onChunk) => {
+      const structure = createStructureTracker(table.headers.length);
+      const numbers = createNumberTracker(table.numberFormat ?? DEFAULT_NUMBER_FORMAT, table.headers.length);
+      const numberParsers = columnNumberParsers(numbers, table.headers.length);
+      // Unparseable NDJSON lines never became records; only the first few line numbers are known
+      for (let i = 0; i < (table.json?.invalidLines ?? 0); i++) {
+        structure.observe(table.json?.invalidLineNumbers[i], null);
       }
-    }
+
+      // Bytes are apportioned by row since the file was decoded up front
+      records.forEach((record, idx) => {
+        if (structure.observe(undefined, record.length)) onRow(toRow(record, numberParsers));
+        if ((idx + 1) % PROGRESS_ROW_INTERVAL === 0) {
+          onChunk?.(Math.round((totalBytes * (idx + 1)) / records.length));
+        }
+      });
+      onChunk?.(totalBytes);
+      source.structure = structure.finish();
+      source.currencies = numbers.currencies(table.headers);
+    },
+  };
+
+  return source;
+}
+
+/**
+ * Text cells from the first records of a decoded table, for separator detection
+ */
+function textSample(records: CellValue[][]): string[] {
+  return records
+    .slice(0, NUMBER_FORMAT_SAMPLE_RECORDS)
+    .flatMap(record => record.filter((cell): cell is string => typeof cell === 'string'));
+}
+
+async function openTable(file: File, options: AnalysisOptions): Promise<TableSource> {
+  if (isExcelFile(file)) {
+    const bytes = await readFileBytes(file);
+    const workbook = await readWorkbook(bytes);
+    const table = await extractSheetTable(workbook, file.name, options.excel);
+    const missingValues = resolveMissingValueConfig(options.missingValues, 'null');
+    const numberFormat = resolveNumberFormat(options.numberFormat, textSample(table.records));
+    const rules = table.headers.map(header => columnMissingRules(missingValues, header));
+    return inMemorySource(
+      { headers: table.headers, hashInput: bytes, sourceFormat: 'excel', workbook: table.workbook, missingValues, numberFormat },
+      table.records,
+      (record, numberParsers) => buildTypedRow(table.headers, record, rules, numberParsers),
+      file.size
+    );
+  }
+
+  if (isParquetFile(file)) {
+    const bytes = await readFileBytes(file);
+    const table = await readParquetTable(bytes);
+    // Declared types are authoritative, so text cells are not re-parsed as numbers
+    return inMemorySource(
+      {
+        headers: table.headers,
+        hashInput: bytes,
+        sourceFormat: 'parquet',
+        parquet: table.info,
+        fieldPaths: table.fieldPaths,
+        declaredTypes: table.declaredTypes,
+        missingValues: resolveMissingValueConfig(options.missingValues, 'distinct'),
+      },
+      table.records,
+      record => {
+        const row: ParsedRow = {};
+        table.headers.forEach((header, idx) => {
+          row[header] = record[idx];
+        });
+        return row;
+      },
+      file.size
+    );
+  }
+
+  if (isJSONFile(file)) {
+    const bytes = await readFileBytes(file);
+    const { encoding } = detectEncoding(bytes.subarray(0, SAMPLE_BYTES));
+    const content = decodeText(bytes, encoding);
+    const table = parseJSONTable(content, file.name);
+    const missingValues = resolveMissingValueConfig(options.missingValues, 'distinct');
+    const numberFormat = resolveNumberFormat(options.numberFormat, textSample(table.records));
+    const rules = table.headers.map(header => columnMissingRules(missingValues, header));
+    return inMemorySource(
+      {
+        headers: table.headers,
+        hashInput: content.substring(0, 10000),
+        sourceFormat: 'json',
+        json: table.info,
+        fieldPaths: table.fieldPaths,
+        missingValues,
+        numberFormat,
+      },
+      table.records,
+      (record, numberParsers) => buildTypedRow(table.headers, record, rules, numberParsers),
+      file.size
+    );
   }
 
-  // Find dominant type
+  return openCSVSource(file, options);
+}
+
+/**
+ * Read a related table once for its key columns. It shares the analysis'
+ * missing value and number settings but detects its own CSV dialect.
+ */
+async function loadReferenceTable(file: File, options: AnalysisOptions, references: ReferenceOptions): Promise<ReferenceTable> {
+  const source = await openTable(file, { missingValues: options.missingValues, numberFormat: options.numberFormat });
+  const declaredKeys = declaredKeysFor(file.name, references);
+  let collector: KeyCollector | null = null;
+
+  await source.scan(row => {
+    // Streamed CSV headers are known once the first row arrives
+    if (!collector) collector = createKeyCollector(file.name, source.headers, source.missingValues, declaredKeys);
+    collector.observe(row);
+  });
+  return (collector ?? createKeyCollector(file.name, source.headers, source.missingValues, declaredKeys)).finish();
+}
+
+// ============================================================================
+// METADATA EXTRACTION ENGINE
+// ============================================================================
+
+const DISTINCT_EXACT_LIMIT = 50_000; // Distinct values per column counted exactly before estimating
+const ROW_DISTINCT_EXACT_LIMIT = 1_000_000; // Distinct rows counted exactly before estimating
+const MEDIAN_SAMPLE_SIZE = 10_000; // Values kept per numeric column for the median
+const PATTERN_SAMPLE_SIZE = 100; // String values per column checked for format patterns
+const TOP_VALUES_TRACKED = 100; // Frequent values tracked per column; rarer ones are pruned past twice this
+const TOP_VALUES_REPORTED = 10;
+const HISTOGRAM_BINS = 10;
+
+const IDENTIFIER_NAME_PATTERNS = ['id', 'key', 'code', 'ref', 'num', 'no'];
+
+/**
+ * Classify one non-null value for type inference
+ */
+function classifyValue(val: string | number | boolean, isLikelyIdentifier: boolean): string {
+  if (typeof val === 'number') return 'number';
+  if (typeof val === 'boolean') return 'boolean';
+  // Check for currency
+  if (/^\$?[\d,]+\.?\d*$/.test(val) || /^[\d,]+\.?\d*\s*(USD|EUR|GBP|INR)$/i.test(val)) {
+    return 'currency';
+  }
+  // Check for date
+  if (looksLikeDate(val)) {
+    return 'date';
+  }
+  // Check for identifier (high uniqueness + specific naming)
+  if (isLikelyIdentifier && /^[A-Z0-9\-_]+$/i.test(val)) {
+    return 'identifier';
+  }
+  return 'string';
+}
+
+/**
+ * Pick the dominant type from per-type value counts
+ */
+function resolveColumnType(types: Map<string, number>, nonNullCount: number): ColumnSchema['inferredType'] {
+  if (nonNullCount === 0) return 'string';
+
   let maxType = 'string';
   let maxCount = 0;
   for (const [type, count] of types) {
@@ -297,7 +887,7 @@ function inferColumnType(values: (string | number | boolean | null)[], columnNam
   }
 
   // Check for mixed types
-  const dominanceRatio = maxCount / nonNullValues.length;
+  const dominanceRatio = maxCount / nonNullCount;
   if (dominanceRatio < 0.8 && types.size > 1) {
     return 'mixed';
   }
@@ -305,190 +895,707 @@ function inferColumnType(values: (string | number | boolean | null)[], columnNam
   return maxType as ColumnSchema['inferredType'];
 }
 
-function detectPatterns(values: (string | number | boolean | null)[]): string[] {
-  const patterns: Set<string> = new Set();
-  const stringValues = values.filter(v => typeof v === 'string') as string[];
+/**
+ * Non-date format patterns; date formats come from the column's date detector,
+ * which settles day/month order from every value rather than the shape of one
+ */
+function detectValuePatterns(val: string, patterns: Set<string>): void {
+  // Currency patterns
+  if (/^\$[\d,]+\.?\d*$/.test(val)) patterns.add('$XXX.XX');
+  
+  // Code patterns; whether a code is a real ISO code is a validity check
+  if (/^[A-Z]{2,3}$/.test(val)) patterns.add('COUNTRY/CURRENCY_CODE');
+  if (/^[A-Z]{3}\d+$/.test(val)) patterns.add('ALPHANUMERIC_ID');
+}
 
-  for (const val of stringValues.slice(0, 100)) {
-    // Date patterns
-    if (/^\d{4}-\d{2}-\d{2}/.test(val)) patterns.add('YYYY-MM-DD');
-    if (/^\d{2}\/\d{2}\/\d{4}/.test(val)) patterns.add('MM/DD/YYYY');
-    if (/^\d{2}-\d{2}-\d{4}/.test(val)) patterns.add('DD-MM-YYYY');
-    
-    // Currency patterns
-    if (/^\$[\d,]+\.?\d*$/.test(val)) patterns.add('$XXX.XX');
-    
-    // Code patterns
-    if (/^[A-Z]{2,3}$/.test(val)) patterns.add('COUNTRY/CURRENCY_CODE');
-    if (/^[A-Z]{3}\d+$/.test(val)) patterns.add('ALPHANUMERIC_ID');
+function calculateNumericStatistics(stats: RunningStats, sample: Reservoir, outlierSpec: OutlierMethodSpec): NumericStatistics {
+  if (stats.count() === 0) {
+    return { min: 0, max: 0, mean: 0, median: 0, stdDev: 0 };
   }
 
-  return Array.from(patterns);
+  const sorted = sample.sorted();
+  const statistics: NumericStatistics = {
+    min: Math.round(stats.min() * 100) / 100,
+    max: Math.round(stats.max() * 100) / 100,
+    mean: Math.round(stats.mean() * 100) / 100,
+    median: Math.round(medianOf(sorted) * 100) / 100,
+    stdDev: Math.round(stats.stdDev() * 100) / 100,
+  };
+  const round = (x: number) => Math.round(x * 100) / 100;
+  statistics.quantiles = {
+    p1: round(quantile(sorted, 0.01)),
+    p5: round(quantile(sorted, 0.05)),
+    p25: round(quantile(sorted, 0.25)),
+    p75: round(quantile(sorted, 0.75)),
+    p95: round(quantile(sorted, 0.95)),
+    p99: round(quantile(sorted, 0.99)),
+  };
+  statistics.histogram = buildHistogram(stats.min(), stats.max(), sorted);
+  const outliers = computeOutlierBounds(outlierSpec, statistics, sorted, !sample.isComplete());
+  if (outliers) statistics.outliers = outliers;
+  return statistics;
+}
+
+/**
+ * Equal-width bins over the column's full range, filled from the sample
+ */
+function buildHistogram(min: number, max: number, sorted: number[]): HistogramBin[] {
+  if (max <= min) return [{ from: min, to: max, count: sorted.length }];
+  const width = (max - min) / HISTOGRAM_BINS;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: Math.round((min + i * width) * 100) / 100,
+    to: Math.round((i === HISTOGRAM_BINS - 1 ? max : min + (i + 1) * width) * 100) / 100,
+    count: 0,
+  }));
+  for (const value of sorted) {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.max(0, Math.floor((value - min) / width)))].count++;
+  }
+  return bins;
 }
 
-function calculateNumericStatistics(values: number[]): NumericStatistics {
-  if (values.length === 0) {
-    return { min: 0, max: 0, mean: 0, median: 0, stdDev: 0 };
+/**
+ * Frequent values as shown in the report: redacted, with values that
+ * redact to the same text merged, and singletons left out
+ */
+function reportTopValues(values: FrequentValue[], header: string, redact: Redactor): FrequentValue[] {
+  const merged = new Map<string, number>();
+  for (const { value, count } of values) {
+    const shown = redact(value, header);
+    merged.set(shown, (merged.get(shown) || 0) + count);
   }
+  return Array.from(merged, ([value, count]) => ({ value, count }))
+    .filter(v => v.count >= 2)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUES_REPORTED);
+}
 
-  const sorted = [...values].sort((a, b) => a - b);
-  const min = sorted[0];
-  const max = sorted[sorted.length - 1];
-  const sum = values.reduce((a, b) => a + b, 0);
-  const mean = sum / values.length;
-  const median = sorted.length % 2 === 0
-    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-    : sorted[Math.floor(sorted.length / 2)];
-  
-  const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
-  const avgSquaredDiff = squaredDiffs.reduce((a, b) => a + b, 0) / values.length;
-  const stdDev = Math.sqrt(avgSquaredDiff);
+/**
+ * Columns checked by timeliness and the future-date anomaly count
+ */
+function isDateColumn(column: ColumnSchema): boolean {
+  return column.inferredType === 'date' || column.name.toLowerCase().includes('date');
+}
+
+interface ColumnProfile {
+  schema: ColumnSchema;
+  missingCount: number; // Nulls, empty strings and sentinels
+  approximateDistinct: boolean; // Unique ratio is estimated from a hash sample
+  distinct: number; // Distinct non-missing values, estimated when approximateDistinct
+  sampledMedian: boolean; // Median comes from a reservoir sample
+}
+
+interface ColumnProfiler {
+  observe: (value: CellValue | undefined) => void;
+  finish: () => ColumnProfile;
+}
+
+/**
+ * Build a column's schema one value at a time with bounded memory.
+ * Missing values of every kind are counted and kept out of the type,
+ * distinct and numeric statistics.
+ */
+function createColumnProfiler(
+  header: string,
+  rules: ColumnMissingRules,
+  dateOrder: DateOrder,
+  redact: Redactor,
+  outlierSpec: OutlierMethodSpec,
+  declaredType?: ColumnSchema['inferredType']
+): ColumnProfiler {
+  const isLikelyIdentifier = IDENTIFIER_NAME_PATTERNS.some(p => header.toLowerCase().includes(p));
+  const types = new Map<string, number>();
+  const distinct = createDistinctCounter(DISTINCT_EXACT_LIMIT);
+  const numeric = createRunningStats();
+  const numericSample = createReservoir(MEDIAN_SAMPLE_SIZE);
+  const frequent = createTopValues(TOP_VALUES_TRACKED);
+  const lengths = createRunningStats();
+  const patterns = new Set<string>();
+  const dates = createDateFormatDetector(dateOrder);
+  const sampleValues: string[] = [];
+  const missing: MissingValueCounts = { nulls: 0, emptyStrings: 0, sentinels: 0 };
+  let total = 0;
+  let nonNull = 0;
+  let patternChecks = 0;
 
   return {
-    min: Math.round(min * 100) / 100,
-    max: Math.round(max * 100) / 100,
-    mean: Math.round(mean * 100) / 100,
-    median: Math.round(median * 100) / 100,
-    stdDev: Math.round(stdDev * 100) / 100,
+    observe: (value) => {
+      total++;
+      const kind = rules.classify(value);
+      if (kind === 'null') missing.nulls++;
+      else if (kind === 'empty') missing.emptyStrings++;
+      else if (kind === 'sentinel') missing.sentinels++;
+      if (kind || value === null || value === undefined) return;
+      nonNull++;
+      distinct.add(String(value));
+      frequent.add(String(value));
+
+      if (!declaredType) {
+        const type = classifyValue(value, isLikelyIdentifier);
+        types.set(type, (types.get(type) || 0) + 1);
+      }
+      if (typeof value === 'number') {
+        numeric.add(value);
+        numericSample.add(value);
+      } else if (typeof value === 'string') {
+        lengths.add(value.length);
+        dates.observe(value);
+        if (patternChecks < PATTERN_SAMPLE_SIZE) {
+          patternChecks++;
+          detectValuePatterns(value, patterns);
+        }
+      }
+      // Get safe sample values (redacted if sensitive)
+      if (sampleValues.length < 3) {
+        sampleValues.push(redact(String(value), header));
+      }
+    },
+    finish: () => {
+      const inferredType = declaredType ?? resolveColumnType(types, nonNull);
+      const dateFormat = dates.finish();
+      const schema: ColumnSchema = {
+        name: header,
+        inferredType,
+        nullRatio: Math.round((1 - nonNull / Math.max(total, 1)) * 100) / 100,
+        uniqueRatio: nonNull > 0 ? Math.round((1 - distinct.duplicateRatio()) * 100) / 100 : 0,
+        sampleValues,
+        patterns: [...(dateFormat?.formats ?? []), ...patterns],
+        typeSource: declaredType ? 'declared' : 'inferred',
+        missing,
+      };
+      if (dateFormat && isDateColumn(schema)) schema.dateFormat = dateFormat;
+      if (nonNull > 0) {
+        const values = reportTopValues(frequent.top(TOP_VALUES_TRACKED), header, redact);
+        if (values.length > 0) schema.topValues = { values, approximate: frequent.isExact() ? undefined : true };
+        schema.entropy = Math.round(distinct.entropy() * 100) / 100;
+      }
+      // Text stray in a numeric column says little about lengths
+      if (lengths.count() > 0 && inferredType !== 'number' && inferredType !== 'currency') {
+        schema.lengths = { min: lengths.min(), max: lengths.max(), mean: Math.round(lengths.mean() * 10) / 10 };
+      }
+
+      // Add numeric statistics if applicable
+      const hasStatistics = (inferredType === 'number' || inferredType === 'currency') && numeric.count() > 0;
+      if (hasStatistics) {
+        schema.statistics = calculateNumericStatistics(numeric, numericSample, outlierSpec);
+      }
+
+      return {
+        schema,
+        missingCount: total - nonNull,
+        approximateDistinct: !distinct.isExact(),
+        distinct: distinct.count(),
+        sampledMedian: hasStatistics && !numericSample.isComplete(),
+      };
+    },
   };
 }
 
-function extractColumnSchema(header: string, values: (string | number | boolean | null)[]): ColumnSchema {
-  const nonNullValues = values.filter(v => v !== null && v !== undefined);
-  const uniqueValues = new Set(nonNullValues.map(v => String(v)));
-  const inferredType = inferColumnType(values, header);
-  
-  // Get safe sample values (redacted if sensitive)
-  const sampleValues = nonNullValues
-    .slice(0, 3)
-    .map(v => redactSensitiveValue(String(v), header));
-
-  const schema: ColumnSchema = {
-    name: header,
-    inferredType,
-    nullRatio: Math.round((1 - nonNullValues.length / values.length) * 100) / 100,
-    uniqueRatio: Math.round((uniqueValues.size / Math.max(nonNullValues.length, 1)) * 100) / 100,
-    sampleValues,
-    patterns: detectPatterns(values),
-  };
+/**
+ * Stable text key for a row, used only for duplicate detection (hashed, never stored)
+ */
+function rowKey(row: ParsedRow, headers: string[]): string {
+  return headers
+    .map(h => {
+      const v = row[h];
+      if (v === null || v === undefined) return '\u0000';
+      return typeof v === 'string' ? `"${v}` : String(v);
+    })
+    .join('\u0001');
+}
 
-  // Add numeric statistics if applicable
-  if (inferredType === 'number' || inferredType === 'currency') {
-    const numericValues = values.filter(v => typeof v === 'number') as number[];
-    if (numericValues.length > 0) {
-      schema.statistics = calculateNumericStatistics(numericValues);
-    }
-  }
+interface AnomalyCounter {
+  observe: (row: ParsedRow) => void;
+  count: () => number;
+}
 
-  return schema;
+/**
+ * Count anomalies (negative amounts, future dates, outliers) during a scan.
+ * Amount columns are those the domain pack names. Future means after the
+ * analysis reference time. Sentinels are missing values, not anomalies,
+ * so they are skipped. Outliers are also counted per column into the
+ * column's fences, which validity reports from.
+ */
+function createAnomalyCounter(
+  schema: ColumnSchema[],
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder,
+  pack: DomainPack,
+  reference: ReferenceClock,
+  referenceColumn?: string
+): AnomalyCounter {
+  const withRules = (columns: ColumnSchema[]) =>
+    columns.map(c => ({ name: c.name, rules: columnMissingRules(missingValues, c.name) }));
+  // Count negative amounts
+  const amountColumns = withRules(schema.filter(c => c.statistics && matchesRole(c.name, pack.roles.amount) && c.statistics.min < 0));
+  // Count future dates
+  const dateColumns = schema.filter(c => isDateColumn(c) && c.name !== referenceColumn).map(c => ({
+    name: c.name,
+    rules: columnMissingRules(missingValues, c.name),
+    parse: createDateParser(c.dateFormat, dateOrder),
+  }));
+  // Count statistical outliers against the fences set while profiling
+  const outlierColumns = schema
+    .filter(c => c.statistics?.outliers)
+    .map(c => {
+      const bounds = c.statistics!.outliers!;
+      bounds.count = 0;
+      return { name: c.name, rules: columnMissingRules(missingValues, c.name), bounds };
+    });
+  let anomalyCount = 0;
+
+  return {
+    observe: (row) => {
+      for (const col of amountColumns) {
+        const v = row[col.name];
+        if (typeof v === 'number' && v < 0 && !col.rules.classify(v)) anomalyCount++;
+      }
+      for (const col of dateColumns) {
+        const dateVal = row[col.name];
+        if (dateVal && typeof dateVal === 'string' && !col.rules.classify(dateVal)) {
+          const date = col.parse(dateVal);
+          const now = date && reference(row);
+          if (now && date > now) anomalyCount++;
+        }
+      }
+      for (const col of outlierColumns) {
+        const v = row[col.name];
+        if (typeof v === 'number' && (v > col.bounds.upper || v < col.bounds.lower) && !col.rules.classify(v)) {
+          anomalyCount++;
+          col.bounds.count!++;
+        }
+      }
+    },
+    count: () => anomalyCount,
+  };
 }
 
 // ============================================================================
 // DIMENSION IDENTIFICATION & SCORING
 // ============================================================================
 
-interface DimensionConfig {
-  id: string;
-  name: string;
-  baseWeight: number;
-  applicabilityCheck: (metadata: DatasetMetadata) => boolean;
-  scorer: (rows: ParsedRow[], metadata: DatasetMetadata) => { score: number; findings: string[]; impactedColumns: string[] };
-}
+const CASE_TRACKING_LIMIT = 10_000; // Distinct lower-cased values tracked per column for case checks
 
-const DIMENSION_CONFIGS: DimensionConfig[] = [
-  {
-    id: 'completeness',
-    name: 'Completeness',
-    baseWeight: 0.20,
-    applicabilityCheck: () => true, // Always applicable
-    scorer: (rows, metadata) => {
-      const findings: string[] = [];
-      const impactedColumns: string[] = [];
-      
-      let totalCells = 0;
-      let filledCells = 0;
-      
-      for (const col of metadata.schema) {
-        totalCells += rows.length;
-        const filled = rows.length * (1 - col.nullRatio);
-        filledCells += filled;
-        
-        if (col.nullRatio > 0.05) {
-          impactedColumns.push(col.name);
-          findings.push(`Column '${col.name}' has ${Math.round(col.nullRatio * 100)}% missing values`);
-        }
-      }
-      
-      const completenessRatio = filledCells / totalCells;
-      // More aggressive scoring - each 1% missing = 1.5 point deduction
-      const score = Math.round(Math.max(0, 100 - ((1 - completenessRatio) * 150)));
-      
-      if (score < 90) {
-        findings.push(`Overall data completeness is ${Math.round(completenessRatio * 100)}%, with ${Math.round((1-completenessRatio) * totalCells)} missing cells`);
-      }
-      
-      return { score, findings, impactedColumns };
-    }
-  },
-  {
-    id: 'consistency',
-    name: 'Consistency',
-    baseWeight: 0.15,
-    applicabilityCheck: () => true,
-    scorer: (rows, metadata) => {
+/**
+ * Validity against a declared rules file. Findings name each failing rule;
+ * the score applies the scoring profile's validity penalty to the failure rate,
+ * as the built-in checks do.
+ */
+function createRuleValidityScorer(metadata: DatasetMetadata, ruleSet: ColumnRuleSet, penalty: number): DimensionScorer {
+  const evaluator = createRuleEvaluator(ruleSet, metadata.schema, metadata.missingValues, metadata.dateOrder);
+
+  return {
+    observe: evaluator.observe,
+    finish: () => {
+      const ruleResults = evaluator.results();
       const findings: string[] = [];
       const impactedColumns: string[] = [];
-      let inconsistentRecords = 0;
-      const totalRecords = rows.length;
-      
-      for (const col of metadata.schema) {
-        // Check for mixed types (severe inconsistency)
-        if (col.inferredType === 'mixed') {
-          inconsistentRecords += Math.round(rows.length * 0.3); // 30% penalty per mixed column
-          impactedColumns.push(col.name);
-          findings.push(`Column '${col.name}' has inconsistent data types (mixed string/number/date)`);
+      let checked = 0;
+      let failed = 0;
+
+      for (const rule of ruleResults) {
+        checked += rule.passed + rule.failed;
+        failed += rule.failed;
+        if (rule.columnMissing && !findings.some(f => f.includes(`column '${rule.column}'`))) {
+          findings.push(`Rules target column '${rule.column}', which is not in the file`);
         }
-        
-        // Check for format consistency in patterns
-        if (col.patterns.length > 1) {
-          inconsistentRecords += Math.round(rows.length * 0.1);
-          if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-          findings.push(`Column '${col.name}' has multiple formats: ${col.patterns.join(', ')}`);
-        }
-        
-        // Check for case inconsistencies in categorical columns
-        if (col.inferredType === 'string') {
-          const values = rows.map(r => r[col.name]).filter(v => typeof v === 'string' && v.length > 0) as string[];
-          if (values.length > 0) {
-            // Check if same values appear in different cases (e.g., "VISA" vs "visa")
-            const normalized = new Map<string, Set<string>>();
-            for (const v of values) {
-              const key = v.toLowerCase();
-              if (!normalized.has(key)) normalized.set(key, new Set());
-              normalized.get(key)!.add(v);
-            }
-            
-            let caseInconsistencies = 0;
-            for (const [, variants] of normalized) {
-              if (variants.size > 1) {
-                caseInconsistencies += variants.size - 1;
-              }
-            }
-            
-            if (caseInconsistencies > 0) {
-              inconsistentRecords += caseInconsistencies * 5;
-              if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-              findings.push(`Column '${col.name}' has ${caseInconsistencies} case inconsistencies (e.g., "VISA" vs "visa")`);
-            }
-          }
+        if (rule.failed > 0) {
+          if (!impactedColumns.includes(rule.column)) impactedColumns.push(rule.column);
+          findings.push(`Rule '${rule.id}' (${rule.expectation}) failed for ${rule.failed} of ${rule.passed + rule.failed} values${rule.approximate ? ' (estimated)' : ''}`);
         }
       }
-      
-      // Score based on inconsistent record rate
-      const inconsistencyRate = inconsistentRecords / (totalRecords * metadata.schema.length);
-      const score = Math.round(Math.max(0, 100 - (inconsistencyRate * 500)));
-      
-      return { score, findings, impactedColumns };
+
+      const failureRate = checked > 0 ? failed / checked : 0;
+      const score = Math.round(Math.max(0, 100 - failureRate * penalty));
+      return { score, findings, impactedColumns, ruleResults };
+    },
+  };
+}
+
+interface DomainValidatorRun {
+  validator: DomainValidator;
+  evaluator: RuleEvaluator;
+}
+
+/**
+ * Rule evaluators for the domain pack's validators that count against one
+ * dimension, each over the columns whose names it matches. Validators
+ * matching no column are left out.
+ */
+function createDomainValidators(metadata: DatasetMetadata, dimension: 'validity' | 'accuracy'): DomainValidatorRun[] {
+  return metadata.domainPack.validators.flatMap(validator => {
+    if ((validator.dimension ?? 'validity') !== dimension) return [];
+    const columns = metadata.schema.filter(c => matchesRole(c.name, validator.columns));
+    if (columns.length === 0) return [];
+    const ruleSet: ColumnRuleSet = { columns: Object.fromEntries(columns.map(c => [c.name, validator.rule])) };
+    return [{ validator, evaluator: createRuleEvaluator(ruleSet, metadata.schema, metadata.missingValues, metadata.dateOrder) }];
+  });
+}
+
+/**
+ * Add findings for failed domain validator checks; returns the failed value count.
+ * Only counts are reported, so card numbers checked here never reach the report.
+ */
+function reportDomainValidators(validators: DomainValidatorRun[], findings: string[], impactedColumns: string[]): number {
+  let failed = 0;
+  for (const { validator, evaluator } of validators) {
+    for (const result of evaluator.results()) {
+      if (result.failed === 0) continue;
+      failed += result.failed;
+      if (!impactedColumns.includes(result.column)) impactedColumns.push(result.column);
+      findings.push(`Domain check '${validator.id}' (${result.expectation}) failed for ${result.failed} of ${result.passed + result.failed} values in column '${result.column}'`);
+    }
+  }
+  return failed;
+}
+
+/**
+ * Time-series tracker for the chosen date column, with findings for
+ * settings that name columns the file does not have
+ */
+function createSeriesTracker(metadata: DatasetMetadata): { tracker: TimeSeriesTracker | null; findings: string[] } {
+  const options = metadata.timeSeries;
+  if (!options) return { tracker: null, findings: [] };
+  const findings: string[] = [];
+  const column = metadata.schema.find(c => c.name === options.column);
+  if (!column) {
+    return { tracker: null, findings: [`Time-series column '${options.column}' is not in the file`] };
+  }
+  let amountColumn = metadata.schema.find(c => c.statistics && matchesRole(c.name, metadata.domainPack.roles.amount));
+  if (options.amountColumn) {
+    amountColumn = metadata.schema.find(c => c.name === options.amountColumn);
+    if (!amountColumn) findings.push(`Time-series amount column '${options.amountColumn}' is not in the file`);
+  }
+  const headers = metadata.schema.map(c => c.name);
+  const tracker = createTimeSeriesTracker(
+    options,
+    column,
+    amountColumn,
+    metadata.missingValues,
+    metadata.dateOrder,
+    row => hashString(rowKey(row, headers))
+  );
+  return { tracker, findings };
+}
+
+/**
+ * Add findings for missing, duplicated and anomalous periods; returns the
+ * share of periods flagged
+ */
+function reportTimeSeries(series: TimeSeriesResult, findings: string[], impactedColumns: string[]): number {
+  const { column, granularity, periods } = series;
+  const unit = granularity === 'day' ? 'days' : `${granularity}s`;
+  const label = (start: string) => describePeriod(start, granularity);
+  const deviation = (value: number, baseline = 0) => (baseline > 0 ? (value - baseline) / baseline : 0);
+  const change = (d: number) => `${d >= 0 ? '+' : ''}${Math.round(d * 100)}%`;
+  const largest = (flag: PeriodFlag, value: (p: TimeSeriesPeriod) => number) => periods
+    .filter(p => p.flags?.includes(flag))
+    .reduce((a, b) => (Math.abs(value(b)) > Math.abs(value(a)) ? b : a));
+
+  if (series.coarsened) {
+    findings.push(`Time series on '${column}' was bucketed by ${granularity}: finer periods would have been too many`);
+  }
+  if (series.missingPeriods > 0) {
+    const shown = series.gaps.slice(0, 3).map(g => (g.periods === 1 ? label(g.from) : `${label(g.from)} to ${label(g.to)}`));
+    findings.push(`${series.missingPeriods} ${unit} have no rows by '${column}': ${shown.join(', ')}${series.gaps.length > 3 ? ` and ${series.gaps.length - 3} more gaps` : ''}`);
+  }
+  if (series.duplicatePeriods > 0) {
+    findings.push(`${series.duplicatePeriods} ${unit} look loaded twice: most of their rows repeat earlier rows`);
+  }
+  const percent = Math.round(series.threshold * 100);
+  if (series.volumeAnomalies > 0) {
+    const volumeChange = (p: TimeSeriesPeriod) => deviation(p.rows, p.baseline);
+    const p = largest('volume', volumeChange);
+    findings.push(`${series.volumeAnomalies} ${unit} have row counts ${percent}% or more away from the rolling baseline; largest ${label(p.start)} with ${p.rows} rows against ${p.baseline} (${change(volumeChange(p))})`);
+  }
+  if (series.amountAnomalies > 0) {
+    const amountChange = (p: TimeSeriesPeriod) => deviation(p.amount ?? 0, p.amountBaseline);
+    const p = largest('amount', amountChange);
+    findings.push(`${series.amountAnomalies} ${unit} have '${series.amountColumn}' totals ${percent}% or more away from the rolling baseline; largest ${label(p.start)} (${change(amountChange(p))})`);
+  }
+  if (series.outOfRange > 0) {
+    findings.push(series.truncated
+      ? `${series.outOfRange} rows dated far outside the rest of '${column}', or before the latest ${series.periods.length} ${unit}, were left out of the time series`
+      : `${series.outOfRange} rows dated far outside the rest of '${column}' were left out of the time series`);
+  }
+
+  const flagged = periods.filter(p => p.flags).length;
+  if (flagged > 0 && !impactedColumns.includes(column)) impactedColumns.push(column);
+  return periods.length > 0 ? flagged / periods.length : 0;
+}
+
+interface MinorUnitChecker {
+  observe: (row: ParsedRow) => void;
+  report: (findings: string[], impactedColumns: string[]) => number;
+}
+
+/**
+ * Amounts written with more decimals than their currency has minor units,
+ * such as fractional yen. The currency comes from the row's currency
+ * column, else from the ISO code written on the amounts. Null when the
+ * domain pack names no amounts with a known currency.
+ */
+function createMinorUnitChecker(metadata: DatasetMetadata): MinorUnitChecker | null {
+  const { roles } = metadata.domainPack;
+  const currencyColumn = metadata.schema.find(c => matchesRole(c.name, roles.currency) && !matchesRole(c.name, roles.amount));
+  const amounts = metadata.schema
+    .filter(c => c.statistics && matchesRole(c.name, roles.amount) && (currencyColumn || c.currency?.code))
+    .map(c => ({
+      name: c.name,
+      code: c.currency?.code,
+      rules: columnMissingRules(metadata.missingValues, c.name),
+      mismatched: 0,
+      codes: new Set<string>(),
+    }));
+  if (amounts.length === 0) return null;
+
+  return {
+    observe: (row) => {
+      const rowCode = currencyColumn ? row[currencyColumn.name] : undefined;
+      for (const amount of amounts) {
+        const v = row[amount.name];
+        if (typeof v !== 'number' || amount.rules.classify(v)) continue;
+        const code = typeof rowCode === 'string' ? rowCode.trim().toUpperCase() : amount.code;
+        const minorUnits = code ? currencyMinorUnits(code) : undefined;
+        if (minorUnits === undefined || decimalPlaces(v) <= minorUnits) continue;
+        amount.mismatched++;
+        if (amount.codes.size < 5) amount.codes.add(`${code} ${minorUnits}`);
+      }
+    },
+    report: (findings, impactedColumns) => {
+      let mismatched = 0;
+      for (const amount of amounts) {
+        if (amount.mismatched === 0) continue;
+        mismatched += amount.mismatched;
+        if (!impactedColumns.includes(amount.name)) impactedColumns.push(amount.name);
+        findings.push(`Column '${amount.name}' has ${amount.mismatched} amounts with more decimals than their currency allows (${[...amount.codes].join(', ')} decimals)`);
+      }
+      return mismatched;
+    },
+  };
+}
+
+/**
+ * Evaluator for the business rules that count against one dimension, or
+ * null when the rules file declares none for it
+ */
+function createDimensionRuleEvaluator(metadata: DatasetMetadata, dimension: BusinessRuleDimension): BusinessRuleEvaluator | null {
+  const rules = (metadata.validationRules?.businessRules ?? []).filter(r => (r.dimension ?? 'consistency') === dimension);
+  if (rules.length === 0) return null;
+  return createBusinessRuleEvaluator(rules, metadata.schema, metadata.missingValues, metadata.dateOrder, isDateColumn);
+}
+
+/**
+ * Add findings and impacted columns for business rule results
+ */
+function reportBusinessRules(results: BusinessRuleResult[], findings: string[], impactedColumns: string[]): void {
+  for (const rule of results) {
+    if (rule.missingColumns) {
+      findings.push(`Business rule '${rule.id}' was not checked: ${rule.missingColumns.map(c => `'${c}'`).join(', ')} not in the file`);
+    } else if (rule.error) {
+      findings.push(`Business rule '${rule.id}' was not checked: ${rule.error}`);
+    } else if (rule.violated > 0) {
+      for (const column of rule.columns) {
+        if (!impactedColumns.includes(column)) impactedColumns.push(column);
+      }
+      findings.push(`Business rule '${rule.id}' (${rule.expression}) violated by ${rule.violated} of ${rule.passed + rule.violated} rows`);
+    }
+  }
+}
+
+/**
+ * Add findings for foreign key checks; returns integrity issues from the
+ * scored relationships (orphan rows and rows breaking the expected cardinality)
+ */
+function reportRelationships(
+  results: RelationshipResult[],
+  findings: string[],
+  impactedColumns: string[]
+): number {
+  let issues = 0;
+  for (const rel of results) {
+    const label = `'${rel.column}' → ${rel.table}.${rel.key}`;
+    if (rel.unresolved) {
+      findings.push(`Relationship ${label} was not checked: ${rel.unresolved}`);
+      continue;
+    }
+    if (!rel.scored) {
+      const matchRate = rel.checked > 0 ? Math.round((rel.matched / rel.checked) * 100) : 0;
+      findings.push(`Suggested relationship ${label} matched only ${matchRate}% of values and was not scored`);
+      continue;
+    }
+    if (rel.orphans > 0) {
+      issues += rel.orphans;
+      if (!impactedColumns.includes(rel.column)) impactedColumns.push(rel.column);
+      findings.push(`Relationship ${label}: ${rel.orphans} of ${rel.checked} keys have no match in ${rel.table}${rel.approximate ? ' (estimated)' : ''}`);
+    }
+    if (rel.nulls > 0) {
+      findings.push(`Relationship ${label}: ${rel.nulls} rows have no ${rel.column} value`);
+    }
+    if (rel.cardinalityViolated) {
+      issues += rel.cardinalityViolations;
+      if (!impactedColumns.includes(rel.column)) impactedColumns.push(rel.column);
+      const rows = `${rel.cardinalityViolations} row${rel.cardinalityViolations === 1 ? '' : 's'} affected`;
+      findings.push(rel.duplicateParentKeys > 0
+        ? `Relationship ${label} expects ${rel.expectedCardinality}, but ${rel.duplicateParentKeys} ${rel.key} values repeat in ${rel.table} (${rows})`
+        : `Relationship ${label} expects one-to-one, but ${rel.column} values repeat (${rows})`);
+    }
+  }
+  return issues;
+}
+
+const DIMENSION_CONFIGS: DimensionConfig[] = [
+  {
+    id: 'completeness',
+    name: 'Completeness',
+    baseWeight: 0.20,
+    applicabilityCheck: () => true, // Always applicable
+    createScorer: (metadata, profile) => ({
+      finish: () => {
+        const findings: string[] = [];
+        const impactedColumns: string[] = [];
+        
+        let totalCells = 0;
+        let filledCells = 0;
+        let sentinels = 0;
+        
+        for (const col of metadata.schema) {
+          totalCells += metadata.rowCount;
+          const filled = metadata.rowCount * (1 - col.nullRatio);
+          filledCells += filled;
+          sentinels += col.missing?.sentinels ?? 0;
+          
+          if (col.nullRatio > 0.05) {
+            impactedColumns.push(col.name);
+            // Only break the count down when it is not all plain nulls
+            const breakdown = col.missing && col.missing.emptyStrings + col.missing.sentinels > 0
+              ? ` (${describeMissingCounts(col.missing)})`
+              : '';
+            findings.push(`Column '${col.name}' has ${Math.round(col.nullRatio * 100)}% missing values${breakdown}`);
+          }
+        }
+        
+        if (sentinels > 0) {
+          findings.push(`${sentinels} sentinel values (placeholders such as ${metadata.missingValues.sentinels.slice(0, 2).join(', ') || 'column-specific codes'}) are counted as missing`);
+        }
+        
+        const completenessRatio = filledCells / totalCells;
+        // The missing share is scaled by the scoring profile's completeness penalty
+        const score = Math.round(Math.max(0, 100 - ((1 - completenessRatio) * profile.penalties.completeness)));
+        
+        if (score < 90) {
+          findings.push(`Overall data completeness is ${Math.round(completenessRatio * 100)}%, with ${Math.round((1-completenessRatio) * totalCells)} missing cells`);
+        }
+        
+        return { score, findings, impactedColumns };
+      }
+    })
+  },
+  {
+    id: 'consistency',
+    name: 'Consistency',
+    baseWeight: 0.15,
+    applicabilityCheck: () => true,
+    createScorer: (metadata, profile) => {
+      // Check for case inconsistencies in categorical columns
+      const stringColumns = metadata.schema
+        .filter(c => c.inferredType === 'string')
+        .map(c => ({ name: c.name, rules: columnMissingRules(metadata.missingValues, c.name) }));
+      const caseVariants = new Map<string, Map<string, Set<string>>>(
+        stringColumns.map(c => [c.name, new Map()])
+      );
+      const businessRules = createDimensionRuleEvaluator(metadata, 'consistency');
+      const dependencies = createDependencyFinder(metadata.schema, metadata.rowCount, metadata.missingValues);
+
+      return {
+        observe: (row) => {
+          businessRules?.observe(row);
+          dependencies.observe(row);
+          for (const col of stringColumns) {
+            const v = row[col.name];
+            if (typeof v !== 'string' || col.rules.classify(v)) continue;
+            const normalized = caseVariants.get(col.name)!;
+            const key = v.toLowerCase();
+            let variants = normalized.get(key);
+            if (!variants) {
+              // High-cardinality columns stop tracking new values once the limit is hit
+              if (normalized.size >= CASE_TRACKING_LIMIT) continue;
+              variants = new Set();
+              normalized.set(key, variants);
+            }
+            variants.add(v);
+          }
+        },
+        finish: () => {
+          const findings: string[] = [];
+          const impactedColumns: string[] = [];
+          let inconsistentRecords = 0;
+          const totalRecords = metadata.rowCount;
+          
+          for (const col of metadata.schema) {
+            // Check for mixed types (severe inconsistency)
+            if (col.inferredType === 'mixed') {
+              inconsistentRecords += Math.round(totalRecords * profile.penalties.mixedTypeRows);
+              impactedColumns.push(col.name);
+              findings.push(`Column '${col.name}' has inconsistent data types (mixed string/number/date)`);
+            }
+            
+            // Check for format consistency in patterns
+            if (col.patterns.length > 1) {
+              inconsistentRecords += Math.round(totalRecords * profile.penalties.multipleFormatRows);
+              if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
+              findings.push(`Column '${col.name}' has multiple formats: ${col.patterns.join(', ')}`);
+            }
+            
+            // Same values appearing in different cases (e.g., "VISA" vs "visa")
+            const normalized = caseVariants.get(col.name);
+            if (normalized) {
+              let caseInconsistencies = 0;
+              for (const [, variants] of normalized) {
+                if (variants.size > 1) {
+                  caseInconsistencies += variants.size - 1;
+                }
+              }
+              
+              if (caseInconsistencies > 0) {
+                inconsistentRecords += caseInconsistencies * profile.penalties.caseVariantRows;
+                if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
+                findings.push(`Column '${col.name}' has ${caseInconsistencies} case inconsistencies (e.g., "VISA" vs "visa")`);
+              }
+            }
+          }
+          
+          // Each violating row makes the cells its rule compares disagree
+          const businessRuleResults = businessRules?.results();
+          if (businessRuleResults) {
+            reportBusinessRules(businessRuleResults, findings, impactedColumns);
+            for (const rule of businessRuleResults) {
+              inconsistentRecords += rule.violated * rule.columns.length;
+            }
+          }
+          
+          // A row breaking a dependency that otherwise holds has one inconsistent cell, the dependent value.
+          // Dependencies sharing a dependent (zip → city, merchant_id → city) mostly flag the same cells, so only the largest counts.
+          const functionalDependencies = dependencies.finish();
+          const dependentViolations = new Map<string, number>();
+          for (const dep of functionalDependencies.dependencies) {
+            if (dep.violatingRows === 0) continue;
+            dependentViolations.set(dep.dependent, Math.max(dependentViolations.get(dep.dependent) ?? 0, dep.violatingRows));
+            if (!impactedColumns.includes(dep.dependent)) impactedColumns.push(dep.dependent);
+            findings.push(`Column '${dep.dependent}' disagrees with '${dep.determinant}' on ${dep.violatingRows} rows; the dependency holds for ${Math.round(dep.confidence * 1000) / 10}% of rows`);
+          }
+          for (const violations of dependentViolations.values()) inconsistentRecords += violations;
+          const exact = functionalDependencies.dependencies.filter(d => d.violatingRows === 0);
+          if (exact.length > 0) {
+            findings.push(`${exact.length} column dependencies hold on every row, e.g. ${exact.slice(0, 2).map(d => `${d.determinant} → ${d.dependent}`).join(', ')}`);
+          }
+          
+          // Score based on inconsistent record rate
+          const inconsistencyRate = inconsistentRecords / (totalRecords * metadata.schema.length);
+          const score = Math.round(Math.max(0, 100 - (inconsistencyRate * profile.penalties.consistency)));
+          
+          return { score, findings, impactedColumns, businessRuleResults, functionalDependencies };
+        }
+      };
     }
   },
   {
@@ -499,52 +1606,88 @@ const DIMENSION_CONFIGS: DimensionConfig[] = [
       // Always applicable - uniqueness matters for all datasets
       return true;
     },
-    scorer: (rows, metadata) => {
-      const findings: string[] = [];
-      const impactedColumns: string[] = [];
-      
-      // Check for duplicate rows
-      const seen = new Set<string>();
-      let duplicates = 0;
-      
-      for (const row of rows) {
-        const key = JSON.stringify(row);
-        if (seen.has(key)) {
-          duplicates++;
-        } else {
-          seen.add(key);
-        }
-      }
-      
-      const duplicateRate = duplicates / rows.length;
-      
-      if (duplicates > 0) {
-        findings.push(`Found ${duplicates} duplicate rows (${Math.round(duplicateRate * 100)}% of dataset)`);
-      }
-      
-      // Check identifier columns for uniqueness
-      const idColumns = metadata.schema.filter(c => 
-        c.inferredType === 'identifier' || c.name.toLowerCase().includes('id')
-      );
-      
-      let idDuplicateIssues = 0;
-      for (const col of idColumns) {
-        if (col.uniqueRatio < 1) {
-          impactedColumns.push(col.name);
-          const dupPercentage = Math.round((1 - col.uniqueRatio) * 100);
-          findings.push(`Identifier column '${col.name}' has ${dupPercentage}% non-unique values`);
-          idDuplicateIssues += (1 - col.uniqueRatio);
+    createScorer: (metadata, profile) => {
+      const config = metadata.duplicateDetection;
+      const detector = config.enabled
+        ? createNearDuplicateDetector(config, metadata.schema, metadata.missingValues, metadata.dateOrder)
+        : null;
+
+      return {
+        observe: detector?.observe,
+        finish: () => {
+          const findings: string[] = [];
+          const impactedColumns: string[] = [];
+        
+          // Duplicate rows were counted while profiling
+          const duplicates = metadata.statisticalSummary.duplicateRows;
+        
+          if (duplicates > 0) {
+            findings.push(`Found ${duplicates} duplicate rows (${Math.round((duplicates / metadata.rowCount) * 100)}% of dataset)`);
+          }
+        
+          // Rows that repeat another once whitespace, case, seconds and trailing zeros are set aside
+          const nearDuplicates = detector?.finish(duplicates);
+          if (nearDuplicates && nearDuplicates.nearDuplicateRows > 0) {
+            findings.push(`Found ${nearDuplicates.nearDuplicateRows}${nearDuplicates.approximate ? '+' : ''} near-duplicate rows that differ only in formatting${nearDuplicates.fuzzyMatches > 0 ? ` or by less than ${Math.round((1 - config.similarityThreshold) * 100)}% of their text` : ''}`);
+          }
+          if (nearDuplicates && nearDuplicates.clusters > 0) {
+            findings.push(`${nearDuplicates.clusters} duplicate clusters cover ${nearDuplicates.rowsInClusters} rows; the largest has ${nearDuplicates.largestCluster}`);
+          }
+          if (config.missingColumns) {
+            findings.push(`Near-duplicate settings name columns not in the file: ${config.missingColumns.join(', ')}`);
+          }
+          const duplicateRate = (duplicates + (nearDuplicates?.nearDuplicateRows ?? 0)) / metadata.rowCount;
+        
+          // A confirmed primary key replaces the identifier name guesses
+          const key = metadata.primaryKey;
+          let idPenalty = 0;
+          if (key && !key.missingColumns) {
+            const keyName = key.columns.join(', ');
+            // Whole-row repeats also repeat the key; they are already penalized above
+            const keyRepeats = Math.max(0, key.duplicateKeyRows - duplicates);
+            if (key.duplicateKeyRows > 0) {
+              impactedColumns.push(...key.columns);
+              findings.push(`Primary key (${keyName}) repeats on ${key.duplicateKeyRows}${key.approximate ? '+' : ''} rows${duplicates > 0 ? `, ${Math.min(duplicates, key.duplicateKeyRows)} of them whole-row duplicates` : ''}`);
+            }
+            if (key.missingKeyRows > 0) {
+              impactedColumns.push(...key.columns.filter(c => !impactedColumns.includes(c)));
+              findings.push(`Primary key (${keyName}) is missing on ${key.missingKeyRows} rows`);
+            }
+            idPenalty = ((keyRepeats + key.missingKeyRows) / metadata.rowCount) * profile.penalties.duplicateKeys;
+          } else {
+            if (key?.missingColumns) {
+              findings.push(`Primary key columns not in the file: ${key.missingColumns.join(', ')}; identifier names were checked instead`);
+            }
+            // Check identifier columns for uniqueness
+            const idColumns = metadata.schema.filter(c => 
+              c.inferredType === 'identifier' || c.name.toLowerCase().includes('id')
+            );
+          
+            let idDuplicateIssues = 0;
+            for (const col of idColumns) {
+              if (col.uniqueRatio < 1) {
+                impactedColumns.push(col.name);
+                const dupPercentage = Math.round((1 - col.uniqueRatio) * 100);
+                findings.push(`Identifier column '${col.name}' has ${dupPercentage}% non-unique values`);
+                idDuplicateIssues += (1 - col.uniqueRatio);
+              }
+            }
+            idPenalty = idDuplicateIssues * profile.penalties.duplicateIds;
+
+            const candidates = metadata.candidateKeys?.keys ?? [];
+            if (candidates.length > 0) {
+              findings.push(`Candidate primary keys: ${candidates.slice(0, 3).map(k => `(${k.columns.join(', ')})${k.unverified ? ' unverified' : ''}`).join(', ')}; confirm one to score uniqueness on it`);
+            }
+          }
+        
+          // Score: penalize both row duplicates and primary key (or ID column) duplicates
+          // (standard profile: each 1% duplicate rows = 3 point penalty)
+          const rowPenalty = duplicateRate * profile.penalties.duplicateRows;
+          const score = Math.round(Math.max(0, 100 - rowPenalty - idPenalty));
+        
+          return { score, findings, impactedColumns, nearDuplicates };
         }
-      }
-      
-      // Score: penalize both row duplicates and ID column duplicates
-      // Each 1% duplicate rows = 3 point penalty
-      // ID columns with duplicates add additional penalty
-      const rowPenalty = duplicateRate * 300;
-      const idPenalty = idDuplicateIssues * 20;
-      const score = Math.round(Math.max(0, 100 - rowPenalty - idPenalty));
-      
-      return { score, findings, impactedColumns };
+      };
     }
   },
   {
@@ -552,75 +1695,93 @@ const DIMENSION_CONFIGS: DimensionConfig[] = [
     name: 'Validity',
     baseWeight: 0.15,
     applicabilityCheck: () => true,
-    scorer: (rows, metadata) => {
-      const findings: string[] = [];
-      const impactedColumns: string[] = [];
-      let invalidRecords = 0;
-      const totalRecords = rows.length;
-      
-      for (const col of metadata.schema) {
-        const values = rows.map(r => r[col.name]);
-        
-        // Check for negative values in typically positive fields
-        const positiveFields = ['amount', 'price', 'quantity', 'count', 'total', 'balance', 'fee', 'cost'];
-        if (positiveFields.some(f => col.name.toLowerCase().includes(f))) {
-          const negativeCount = values.filter(v => typeof v === 'number' && v < 0).length;
-          if (negativeCount > 0) {
-            invalidRecords += negativeCount;
-            impactedColumns.push(col.name);
-            findings.push(`Column '${col.name}' has ${negativeCount} invalid negative values`);
+    createScorer: (metadata, profile) => {
+      const ruleSet = metadata.validationRules;
+      if (ruleSet && Object.keys(ruleSet.columns).length > 0) {
+        return createRuleValidityScorer(metadata, ruleSet, profile.penalties.validity);
+      }
+      const { roles } = metadata.domainPack;
+      const columns = metadata.schema.map(col => ({
+        col,
+        // Null tokens and sentinels are missing values, scored under completeness
+        rules: columnMissingRules(metadata.missingValues, col.name),
+        // Negative values in typically positive fields
+        checkPositive: matchesRole(col.name, roles.nonNegative),
+        // Zero values in amount fields
+        checkZero: matchesRole(col.name, roles.amount),
+        // Non-numeric values in expected numeric columns
+        checkNumeric: matchesRole(col.name, roles.numeric),
+        negativeCount: 0,
+        zeroCount: 0,
+        nonNumericCount: 0,
+      }));
+      const validators = createDomainValidators(metadata, 'validity');
+
+      return {
+        observe: (row) => {
+          for (const c of columns) {
+            const v = row[c.col.name];
+            if (c.rules.classify(v)) continue;
+            if (typeof v === 'number') {
+              if (c.checkPositive && v < 0) c.negativeCount++;
+              if (c.checkPositive && v === 0) c.zeroCount++;
+            } else if (c.checkNumeric) {
+              c.nonNumericCount++;
+            }
           }
+          for (const v of validators) v.evaluator.observe(row);
+        },
+        finish: () => {
+          const findings: string[] = [];
+          const impactedColumns: string[] = [];
+          let invalidRecords = 0;
+          const totalRecords = metadata.rowCount;
           
-          // Check for zero values in amount fields
-          const zeroCount = values.filter(v => v === 0).length;
-          if (zeroCount > 0 && col.name.toLowerCase().includes('amount')) {
-            invalidRecords += zeroCount;
-            findings.push(`Column '${col.name}' has ${zeroCount} suspicious zero values`);
-          }
-        }
-        
-        // Check for outliers in numeric columns
-        if (col.statistics && col.statistics.stdDev > 0) {
-          const numericValues = values.filter(v => typeof v === 'number') as number[];
-          const upperBound = col.statistics.mean + 3 * col.statistics.stdDev;
-          const lowerBound = col.statistics.mean - 3 * col.statistics.stdDev;
-          const outlierCount = numericValues.filter(v => v > upperBound || v < lowerBound).length;
-          if (outlierCount > 0) {
-            invalidRecords += outlierCount;
-            if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-            findings.push(`Column '${col.name}' has ${outlierCount} outlier values (outside 3σ range)`);
+          for (const c of columns) {
+            const { col } = c;
+            if (c.checkPositive) {
+              if (c.negativeCount > 0) {
+                invalidRecords += c.negativeCount;
+                impactedColumns.push(col.name);
+                findings.push(`Column '${col.name}' has ${c.negativeCount} invalid negative values`);
+              }
+              if (c.zeroCount > 0 && c.checkZero) {
+                invalidRecords += c.zeroCount;
+                findings.push(`Column '${col.name}' has ${c.zeroCount} suspicious zero values`);
+              }
+            }
+            
+            // Counted with the anomaly count during the scan, so the two always agree
+            const outliers = col.statistics?.outliers;
+            if (outliers?.count) {
+              invalidRecords += outliers.count;
+              if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
+              findings.push(`Column '${col.name}' has ${outliers.count} outlier values (outside ${describeOutlierBounds(outliers)})`);
+            }
+            
+            if (c.checkNumeric && c.nonNumericCount > 0) {
+              invalidRecords += c.nonNumericCount;
+              if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
+              findings.push(`Column '${col.name}' has ${c.nonNumericCount} non-numeric values in numeric field`);
+            }
           }
-        }
-        
-        // Check for "NULL", "NA", etc. as string literals
-        const invalidNullStrings = values.filter(v => 
-          typeof v === 'string' && ['null', 'na', 'n/a', 'none', 'undefined', '-', ''].includes(v.toLowerCase().trim())
-        ).length;
-        if (invalidNullStrings > 0) {
-          invalidRecords += invalidNullStrings;
-          if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-          findings.push(`Column '${col.name}' has ${invalidNullStrings} invalid null-like strings`);
-        }
-        
-        // Check for non-numeric values in expected numeric columns
-        if (col.name.toLowerCase().includes('amount') || col.name.toLowerCase().includes('price')) {
-          const nonNumericCount = values.filter(v => 
-            v !== null && v !== undefined && typeof v !== 'number'
-          ).length;
-          if (nonNumericCount > 0) {
-            invalidRecords += nonNumericCount;
-            if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-            findings.push(`Column '${col.name}' has ${nonNumericCount} non-numeric values in numeric field`);
+          
+          const unknownOutlierColumns = Object.keys(metadata.outlierSettings?.columns ?? {})
+            .filter(name => !metadata.schema.some(c => c.name === name));
+          if (unknownOutlierColumns.length > 0) {
+            findings.push(`Outlier settings name columns not in the file: ${unknownOutlierColumns.join(', ')}`);
           }
+          
+          invalidRecords += reportDomainValidators(validators, findings, impactedColumns);
+          
+          // Each invalid record reduces score proportionally
+          // (standard profile: 10% invalid = 30 point penalty)
+          const invalidRate = invalidRecords / (totalRecords * metadata.schema.length);
+          const score = Math.round(Math.max(0, 100 - (invalidRate * profile.penalties.validity)));
+          
+          return { score, findings, impactedColumns };
         }
-      }
-      
-      // Each invalid record reduces score proportionally
-      // 10% invalid = 30 point penalty
-      const invalidRate = invalidRecords / (totalRecords * metadata.schema.length);
-      const score = Math.round(Math.max(0, 100 - (invalidRate * 300)));
-      
-      return { score, findings, impactedColumns };
+      };
     }
   },
   {
@@ -628,85 +1789,110 @@ const DIMENSION_CONFIGS: DimensionConfig[] = [
     name: 'Timeliness',
     baseWeight: 0.10,
     applicabilityCheck: (metadata) => {
-      return metadata.schema.some(c => c.inferredType === 'date' || c.name.toLowerCase().includes('date'));
+      return metadata.schema.some(c =>
+        isDateColumn(c) || metadata.freshness.slas.some(s => s.column === c.name) || c.name === metadata.timeSeries?.column
+      );
     },
-    scorer: (rows, metadata) => {
-      const findings: string[] = [];
-      const impactedColumns: string[] = [];
-      
-      const dateColumns = metadata.schema.filter(c => 
-        c.inferredType === 'date' || c.name.toLowerCase().includes('date')
+    createScorer: (metadata, profile) => {
+      // Dates are parsed with each column's inferred format, so 03/04/2025 is read the same way as its neighbours
+      const freshness = createFreshnessTracker(
+        metadata.schema,
+        metadata.freshness,
+        metadata.missingValues,
+        metadata.dateOrder,
+        new Date(metadata.analyzedAt),
+        isDateColumn
       );
-      
-      if (dateColumns.length === 0) {
-        return { score: 100, findings: ['No date columns to evaluate'], impactedColumns: [] };
-      }
-      
-      const now = new Date();
-      let totalDates = 0;
-      let futureDates = 0;
-      let staleDates = 0;
-      let invalidDates = 0;
-      
-      for (const col of dateColumns) {
-        for (const row of rows) {
-          const dateVal = row[col.name];
-          if (dateVal === null || dateVal === undefined || dateVal === '') continue;
-          
-          totalDates++;
-          
-          if (typeof dateVal === 'string') {
-            const date = new Date(dateVal);
-            
-            // Check for invalid dates
-            if (isNaN(date.getTime())) {
-              invalidDates++;
-              if (!impactedColumns.includes(col.name)) {
-                impactedColumns.push(col.name);
-                findings.push(`Column '${col.name}' contains invalid date values`);
-              }
-              continue;
+      const series = createSeriesTracker(metadata);
+
+      return {
+        observe: (row) => {
+          freshness.observe(row);
+          series.tracker?.observe(row);
+        },
+        finish: () => {
+          const result = freshness.finish();
+          const findings: string[] = [...series.findings];
+          const impactedColumns: string[] = [];
+
+          if (result.missingColumns.length > 0) {
+            findings.push(`Freshness settings name columns not in the file: ${result.missingColumns.join(', ')}`);
+          }
+          const timeSeries = series.tracker?.finish();
+          // Share of periods missing, loaded twice or off their baseline
+          const seriesPenalty = timeSeries
+            ? reportTimeSeries(timeSeries, findings, impactedColumns) * profile.penalties.periodAnomalies
+            : 0;
+          if (result.columns.length === 0) {
+            return { score: Math.round(Math.max(0, 100 - seriesPenalty)), findings: [...findings, 'No date columns to evaluate'], impactedColumns, timeSeries };
+          }
+
+          let totalDates = 0;
+          let futureDates = 0;
+          let staleDates = 0;
+          let invalidDates = 0;
+          let slaDates = 0;
+          let slaBreaches = 0;
+          for (const c of result.columns) {
+            totalDates += c.values;
+            futureDates += c.future;
+            staleDates += c.stale;
+            invalidDates += c.invalid;
+            if (c.invalid > 0) {
+              impactedColumns.push(c.column);
+              findings.push(`Column '${c.column}' contains invalid date values`);
             }
-            
-            // Future dates (potential error)
-            if (date > now) {
-              futureDates++;
-              if (!findings.some(f => f.includes('future dates'))) {
-                impactedColumns.push(col.name);
-                findings.push(`Column '${col.name}' contains future dates (data integrity issue)`);
-              }
+            const format = metadata.schema.find(col => col.name === c.column)?.dateFormat;
+            if (format?.ambiguous) {
+              const assumed = format.formats.filter(f => !f.startsWith('YYYY')).join(', ');
+              findings.push(`Column '${c.column}' never shows which part is the day; dates were read as ${assumed}`);
             }
-            
-            // Very old dates (data staleness) - more than 2 years old
-            const yearsDiff = (now.getTime() - date.getTime()) / (365 * 24 * 60 * 60 * 1000);
-            if (yearsDiff > 2) {
-              staleDates++;
+            if (format?.timezone === 'mixed') {
+              findings.push(`Column '${c.column}' mixes timezones or has timestamps without one`);
+            }
+            if (c.noReference > 0) {
+              findings.push(`Column '${c.column}' has ${c.noReference} dates on rows without a readable ${c.reference} to measure them against`);
             }
+            if (c.sla) {
+              slaDates += c.measured;
+              slaBreaches += c.sla.breaches;
+              if (c.sla.breaches > 0) {
+                if (!impactedColumns.includes(c.column)) impactedColumns.push(c.column);
+                findings.push(`Column '${c.column}' misses its ${describeHours(c.sla.maxLatencyHours)} freshness SLA against ${c.reference} on ${c.sla.breaches} of ${c.measured} dates`);
+              }
+            }
+          }
+          // Future dates are reported against the first column they appear in
+          const futureColumn = result.columns.find(c => c.future > 0);
+          if (futureColumn) {
+            if (!impactedColumns.includes(futureColumn.column)) impactedColumns.push(futureColumn.column);
+            findings.push(`Column '${futureColumn.column}' contains future dates (data integrity issue)`);
+          }
+          
+          if (totalDates === 0) {
+            return { score: Math.round(Math.max(0, profile.penalties.noDatesScore - seriesPenalty)), findings: [...findings, 'No valid dates found to evaluate'], impactedColumns, freshness: result, timeSeries };
+          }
+          
+          // Calculate penalties
+          const futurePenalty = (futureDates / totalDates) * profile.penalties.futureDates; // Heavy penalty for future dates
+          const invalidPenalty = (invalidDates / totalDates) * profile.penalties.invalidDates;
+          const stalePenalty = (staleDates / totalDates) * profile.penalties.staleDates;
+          const slaPenalty = slaDates > 0 ? (slaBreaches / slaDates) * profile.penalties.slaBreaches : 0;
+          
+          if (futureDates > 0) {
+            findings.push(`${futureDates} records have dates after ${result.reference === 'analysis time' ? 'the analysis time' : result.reference}`);
+          }
+          if (invalidDates > 0) {
+            findings.push(`${invalidDates} records have invalid/unparseable dates`);
           }
+          if (staleDates > 0) {
+            findings.push(`${staleDates} records have dates more than ${result.staleAfterDays} days old`);
+          }
+          
+          const score = Math.round(Math.max(0, 100 - futurePenalty - invalidPenalty - stalePenalty - slaPenalty - seriesPenalty));
+          return { score, findings, impactedColumns, freshness: result, timeSeries };
         }
-      }
-      
-      if (totalDates === 0) {
-        return { score: 80, findings: ['No valid dates found to evaluate'], impactedColumns };
-      }
-      
-      // Calculate penalties
-      const futurePenalty = (futureDates / totalDates) * 150; // Heavy penalty for future dates
-      const invalidPenalty = (invalidDates / totalDates) * 100;
-      const stalePenalty = (staleDates / totalDates) * 30;
-      
-      if (futureDates > 0) {
-        findings.push(`${futureDates} records have future dates`);
-      }
-      if (invalidDates > 0) {
-        findings.push(`${invalidDates} records have invalid/unparseable dates`);
-      }
-      if (staleDates > 0) {
-        findings.push(`${staleDates} records have dates older than 2 years`);
-      }
-      
-      const score = Math.round(Math.max(0, 100 - futurePenalty - invalidPenalty - stalePenalty));
-      return { score, findings, impactedColumns };
+      };
     }
   },
   {
@@ -714,59 +1900,82 @@ const DIMENSION_CONFIGS: DimensionConfig[] = [
     name: 'Accuracy',
     baseWeight: 0.15,
     applicabilityCheck: () => true,
-    scorer: (rows, metadata) => {
-      const findings: string[] = [];
-      const impactedColumns: string[] = [];
-      let inaccurateRecords = 0;
-      const totalRecords = rows.length;
-      
-      for (const col of metadata.schema) {
-        const values = rows.map(r => r[col.name]);
-        
-        // Mixed types indicate accuracy issues - count each mixed value
-        if (col.inferredType === 'mixed') {
-          const mixedCount = Math.round(rows.length * 0.2); // Estimate 20% are type mismatches
-          inaccurateRecords += mixedCount;
-          impactedColumns.push(col.name);
-          findings.push(`Column '${col.name}' has mixed data types (data entry errors)`);
-        }
-        
-        // Check for identifier columns with duplicates
-        if ((col.name.toLowerCase().includes('id') || col.inferredType === 'identifier') && col.uniqueRatio < 1) {
-          const dupCount = Math.round((1 - col.uniqueRatio) * rows.length);
-          inaccurateRecords += dupCount;
-          if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-          findings.push(`Identifier column '${col.name}' has ${dupCount} duplicate values`);
-        }
-        
-        // Check for numeric columns with non-numeric values
-        if (col.name.toLowerCase().includes('amount') || 
-            col.name.toLowerCase().includes('price') || 
-            col.name.toLowerCase().includes('quantity')) {
-          const nonNumericCount = values.filter(v => 
-            v !== null && v !== undefined && typeof v !== 'number'
-          ).length;
-          if (nonNumericCount > 0) {
-            inaccurateRecords += nonNumericCount;
-            if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-            findings.push(`Column '${col.name}' has ${nonNumericCount} non-numeric values`);
+    createScorer: (metadata, profile) => {
+      const columns = metadata.schema.map(col => ({
+        col,
+        checkNumeric: matchesRole(col.name, metadata.domainPack.roles.numeric),
+        rules: columnMissingRules(metadata.missingValues, col.name),
+        nonNumericCount: 0,
+        emptyStringCount: 0,
+      }));
+      const validators = createDomainValidators(metadata, 'accuracy');
+      const minorUnits = createMinorUnitChecker(metadata);
+
+      return {
+        observe: (row) => {
+          for (const c of columns) {
+            const v = row[c.col.name];
+            const kind = c.rules.classify(v);
+            // Only blanks kept as distinct empty strings are flagged; null tokens and sentinels are not inaccurate
+            if (kind === 'empty') c.emptyStringCount++;
+            if (kind || typeof v === 'number') continue;
+            if (c.checkNumeric) c.nonNumericCount++;
           }
+          for (const v of validators) v.evaluator.observe(row);
+          minorUnits?.observe(row);
+        },
+        finish: () => {
+          const findings: string[] = [];
+          const impactedColumns: string[] = [];
+          let inaccurateRecords = 0;
+          const totalRecords = metadata.rowCount;
+          const keyConfirmed = metadata.primaryKey !== undefined && !metadata.primaryKey.missingColumns;
+          
+          for (const c of columns) {
+            const { col } = c;
+            
+            // Mixed types indicate accuracy issues - count each mixed value
+            if (col.inferredType === 'mixed') {
+              const mixedCount = Math.round(totalRecords * profile.penalties.mixedTypeInaccurateRows); // Estimated type mismatches
+              inaccurateRecords += mixedCount;
+              impactedColumns.push(col.name);
+              findings.push(`Column '${col.name}' has mixed data types (data entry errors)`);
+            }
+            
+            // Check for identifier columns with duplicates, unless a confirmed primary key settles which must be unique
+            if (!keyConfirmed && (col.name.toLowerCase().includes('id') || col.inferredType === 'identifier') && col.uniqueRatio < 1) {
+              const dupCount = Math.round((1 - col.uniqueRatio) * totalRecords);
+              inaccurateRecords += dupCount;
+              if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
+              findings.push(`Identifier column '${col.name}' has ${dupCount} duplicate values`);
+            }
+            
+            // Check for numeric columns with non-numeric values
+            if (c.checkNumeric && c.nonNumericCount > 0) {
+              inaccurateRecords += c.nonNumericCount;
+              if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
+              findings.push(`Column '${col.name}' has ${c.nonNumericCount} non-numeric values`);
+            }
+            
+            // Check for empty strings that should be null
+            if (c.emptyStringCount > 0) {
+              inaccurateRecords += c.emptyStringCount;
+              if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
+              findings.push(`Column '${col.name}' has ${c.emptyStringCount} empty strings (should be null)`);
+            }
+          }
+          
+          // Values with the right shape but a wrong check digit or precision, e.g. mistyped card numbers
+          inaccurateRecords += reportDomainValidators(validators, findings, impactedColumns);
+          if (minorUnits) inaccurateRecords += minorUnits.report(findings, impactedColumns);
+          
+          // Score: each 1% inaccurate records = 3 point penalty under the standard profile
+          const inaccuracyRate = inaccurateRecords / (totalRecords * metadata.schema.length);
+          const score = Math.round(Math.max(0, 100 - (inaccuracyRate * profile.penalties.accuracy)));
+          
+          return { score, findings, impactedColumns };
         }
-        
-        // Check for empty strings that should be null
-        const emptyStringCount = values.filter(v => v === '').length;
-        if (emptyStringCount > 0) {
-          inaccurateRecords += emptyStringCount;
-          if (!impactedColumns.includes(col.name)) impactedColumns.push(col.name);
-          findings.push(`Column '${col.name}' has ${emptyStringCount} empty strings (should be null)`);
-        }
-      }
-      
-      // Score: each 1% inaccurate records = 3 point penalty
-      const inaccuracyRate = inaccurateRecords / (totalRecords * metadata.schema.length);
-      const score = Math.round(Math.max(0, 100 - (inaccuracyRate * 300)));
-      
-      return { score, findings, impactedColumns };
+      };
     }
   },
   {
@@ -774,70 +1983,102 @@ const DIMENSION_CONFIGS: DimensionConfig[] = [
     name: 'Integrity',
     baseWeight: 0.10,
     applicabilityCheck: (metadata) => {
-      return metadata.columnCount > 3;
+      return metadata.columnCount > 3 ||
+        (metadata.validationRules?.businessRules ?? []).some(r => r.dimension === 'integrity') ||
+        (metadata.referenceTables?.length ?? 0) > 0;
     },
-    scorer: (rows, metadata) => {
-      const findings: string[] = [];
-      const impactedColumns: string[] = [];
-      let integrityIssues = 0;
-      const totalRecords = rows.length;
-      
-      // Check for orphan records (null foreign keys / reference columns)
-      const fkColumns = metadata.schema.filter(c => 
-        c.name.toLowerCase().includes('_id') || 
-        (c.name.toLowerCase().endsWith('id') && c.name.length > 2) ||
-        c.name.toLowerCase().includes('merchant') ||
-        c.name.toLowerCase().includes('customer')
-      );
-      
-      for (const col of fkColumns) {
-        const nullCount = Math.round(col.nullRatio * totalRecords);
-        if (nullCount > 0) {
-          integrityIssues += nullCount;
-          impactedColumns.push(col.name);
-          findings.push(`Reference column '${col.name}' has ${nullCount} null values (orphan records)`);
-        }
-      }
-      
-      // Check for rows with mostly empty values (incomplete records)
+    createScorer: (metadata, profile) => {
+      // Rows with mostly empty values (incomplete records)
+      const columns = metadata.schema.map(col => ({
+        name: col.name,
+        rules: columnMissingRules(metadata.missingValues, col.name),
+      }));
       let incompleteRows = 0;
-      for (const row of rows) {
-        const values = Object.values(row);
-        const nullCount = values.filter(v => v === null || v === undefined || v === '').length;
-        if (nullCount > values.length * 0.5) {
-          incompleteRows++;
-        }
-      }
-      if (incompleteRows > 0) {
-        integrityIssues += incompleteRows * 2;
-        findings.push(`${incompleteRows} rows are more than 50% empty (incomplete records)`);
-      }
-      
-      // Check for referential patterns
-      const hasAmount = metadata.schema.some(c => c.name.toLowerCase().includes('amount'));
-      const hasCurrency = metadata.schema.some(c => c.name.toLowerCase().includes('currency'));
-      const hasStatus = metadata.schema.some(c => c.name.toLowerCase().includes('status'));
-      
-      if (hasAmount && !hasCurrency) {
-        integrityIssues += Math.round(totalRecords * 0.1);
-        findings.push('Amount field exists without corresponding currency field');
-      }
-      
-      // Check for status field with null values
-      if (hasStatus) {
-        const statusCol = metadata.schema.find(c => c.name.toLowerCase().includes('status'));
-        if (statusCol && statusCol.nullRatio > 0) {
-          const nullCount = Math.round(statusCol.nullRatio * totalRecords);
-          integrityIssues += nullCount;
-          findings.push(`Status column has ${nullCount} missing values`);
+      const businessRules = createDimensionRuleEvaluator(metadata, 'integrity');
+      const { roles, companions } = metadata.domainPack;
+
+      return {
+        observe: (row) => {
+          businessRules?.observe(row);
+          let missingCount = 0;
+          for (const col of columns) {
+            if (col.rules.classify(row[col.name])) missingCount++;
+          }
+          if (missingCount > columns.length * 0.5) {
+            incompleteRows++;
+          }
+        },
+        finish: () => {
+          const findings: string[] = [];
+          const impactedColumns: string[] = [];
+          let integrityIssues = 0;
+          const totalRecords = metadata.rowCount;
+          
+          const relationships = metadata.referentialIntegrity ?? [];
+          if (relationships.some(r => r.scored)) {
+            // Keys checked against uploaded tables replace guesses from column names
+            integrityIssues += reportRelationships(relationships, findings, impactedColumns);
+          } else {
+            reportRelationships(relationships, findings, impactedColumns);
+            
+            // Check for orphan records (null foreign keys / reference columns)
+            const fkColumns = metadata.schema.filter(c => 
+              c.name.toLowerCase().includes('_id') || 
+              (c.name.toLowerCase().endsWith('id') && c.name.length > 2) ||
+              matchesRole(c.name, roles.reference)
+            );
+            
+            for (const col of fkColumns) {
+              const nullCount = Math.round(col.nullRatio * totalRecords);
+              if (nullCount > 0) {
+                integrityIssues += nullCount;
+                impactedColumns.push(col.name);
+                findings.push(`Reference column '${col.name}' has ${nullCount} null values (orphan records)`);
+              }
+            }
+          }
+          
+          if (incompleteRows > 0) {
+            integrityIssues += incompleteRows * profile.penalties.incompleteRowIssues;
+            findings.push(`${incompleteRows} rows are more than 50% empty (incomplete records)`);
+          }
+          
+          // Check for fields the domain pack says come in pairs, e.g. amount and currency
+          for (const companion of companions) {
+            const needed = metadata.schema.some(c => matchesRole(c.name, companion.when));
+            const present = metadata.schema.some(c =>
+              matchesRole(c.name, companion.requires) || (companion.currencySymbols && c.currency)
+            );
+            if (needed && !present) {
+              integrityIssues += Math.round(totalRecords * profile.penalties.missingCompanionRows);
+              findings.push(companion.finding);
+            }
+          }
+          
+          // Check for status field with null values
+          const statusCol = metadata.schema.find(c => matchesRole(c.name, roles.status));
+          if (statusCol && statusCol.nullRatio > 0) {
+            const nullCount = Math.round(statusCol.nullRatio * totalRecords);
+            integrityIssues += nullCount;
+            findings.push(`Status column has ${nullCount} missing values`);
+          }
+          
+          // Each row breaking a declared business rule is one integrity issue
+          const businessRuleResults = businessRules?.results();
+          if (businessRuleResults) {
+            reportBusinessRules(businessRuleResults, findings, impactedColumns);
+            for (const rule of businessRuleResults) {
+              integrityIssues += rule.violated;
+            }
+          }
+          
+          // Score based on integrity issue rate
+          const integrityRate = integrityIssues / totalRecords;
+          const score = Math.round(Math.max(0, 100 - (integrityRate * profile.penalties.integrity)));
+          
+          return { score, findings, impactedColumns, businessRuleResults };
         }
-      }
-      
-      // Score based on integrity issue rate
-      const integrityRate = integrityIssues / totalRecords;
-      const score = Math.round(Math.max(0, 100 - (integrityRate * 100)));
-      
-      return { score, findings, impactedColumns };
+      };
     }
   }
 ];
@@ -846,61 +2087,85 @@ const DIMENSION_CONFIGS: DimensionConfig[] = [
 // EXPLAINABILITY ENGINE
 // ============================================================================
 
-function generateExplanation(dimension: DQIDimension): DQIExplanation {
-  const summaries: Record<string, (score: number) => string> = {
-    completeness: (s) => s >= 80 
+// Domain-neutral text; the domain pack's business impact for a dimension replaces it
+
+const BUILT_IN_EXPLANATIONS: Record<string, DimensionExplanationTemplate> = {
+  completeness: {
+    summary: (s) => s >= 80 
       ? `Excellent data completeness at ${s}%. Your dataset has minimal missing values.`
       : s >= 60
         ? `Data completeness is moderate at ${s}%. Some fields require attention.`
         : `Critical completeness issues. ${100 - s}% of expected data is missing.`,
-    consistency: (s) => s >= 80
+    businessImpact: (s) => s < 70 
+      ? 'Missing data may cause processing failures or compliance gaps.'
+      : 'Current completeness supports reliable downstream processing.',
+  },
+  consistency: {
+    summary: (s) => s >= 80
       ? `Strong data consistency at ${s}%. Formats and types are well-standardized.`
       : `Consistency issues detected. ${100 - s}% of data has format/type inconsistencies.`,
-    uniqueness: (s) => s >= 90
+    businessImpact: (s) => s < 70
+      ? 'Inconsistent formats may cause processing errors and reconciliation issues.'
+      : 'Format standardization supports smooth data integration.',
+  },
+  uniqueness: {
+    summary: (s) => s >= 90
       ? `High uniqueness at ${s}%. Very few duplicate records detected.`
       : `Duplicate records found. ${100 - s}% of data may be redundant.`,
-    validity: (s) => s >= 80
+    businessImpact: (s) => s < 85
+      ? 'Duplicates may inflate metrics and cause double-processing risks.'
+      : 'Low duplication rate ensures accurate record counts.',
+  },
+  validity: {
+    summary: (s) => s >= 80
       ? `${s}% of values pass business rule validation checks.`
       : `${100 - s}% of values violate expected business rules or constraints.`,
-    timeliness: (s) => s >= 80
+    businessImpact: (s) => s < 70
+      ? 'Invalid values may be rejected downstream or raise compliance flags.'
+      : 'Valid data supports reliable downstream processing.',
+  },
+  timeliness: {
+    summary: (s) => s >= 80
       ? `Data freshness is excellent. Timestamps are current and valid.`
       : `Timeliness concerns detected. Some dates may be stale or invalid.`,
-    accuracy: (s) => s >= 80
+    businessImpact: (s) => s < 70
+      ? 'Stale or future-dated records may distort time-based reporting.'
+      : 'Current timestamps support accurate time-based reporting.',
+  },
+  accuracy: {
+    summary: (s) => s >= 80
       ? `High accuracy at ${s}%. Values conform to expected formats and ranges.`
       : `Accuracy issues in ${100 - s}% of data. Review data entry processes.`,
-    integrity: (s) => s >= 80
+    businessImpact: (s) => s < 70
+      ? 'Inaccurate data may lead to incorrect reporting and decisions.'
+      : 'Accurate data supports reliable reporting and decisions.',
+  },
+  integrity: {
+    summary: (s) => s >= 80
       ? `Strong referential integrity. Cross-field relationships are maintained.`
       : `Integrity gaps detected. Some references may be broken or incomplete.`,
-  };
-
-  const impacts: Record<string, (score: number) => string> = {
-    completeness: (s) => s < 70 
-      ? 'Missing data may cause transaction failures or compliance gaps.'
-      : 'Current completeness supports reliable transaction processing.',
-    consistency: (s) => s < 70
-      ? 'Inconsistent formats may cause processing errors and reconciliation issues.'
-      : 'Format standardization supports smooth data integration.',
-    uniqueness: (s) => s < 85
-      ? 'Duplicates may inflate metrics and cause double-processing risks.'
-      : 'Low duplication rate ensures accurate transaction counts.',
-    validity: (s) => s < 70
-      ? 'Invalid values may trigger payment rejections or compliance flags.'
-      : 'Valid data supports successful transaction authorization.',
-    timeliness: (s) => s < 70
-      ? 'Stale or future-dated records may affect settlement and reporting.'
-      : 'Current timestamps support accurate real-time processing.',
-    accuracy: (s) => s < 70
-      ? 'Inaccurate data may lead to incorrect billing or fraud detection issues.'
-      : 'Accurate data supports reliable fraud detection and billing.',
-    integrity: (s) => s < 70
-      ? 'Broken references may cause orphan transactions or reconciliation failures.'
+    businessImpact: (s) => s < 70
+      ? 'Broken references may cause orphan records or reconciliation failures.'
       : 'Strong integrity supports complete audit trails.',
-  };
+  },
+};
 
+function generateExplanation(dimension: DQIDimension, config: DimensionConfig, pack: DomainPack): DQIExplanation {
+  const impact = pack.explanations[dimension.id];
+  // A broken custom template costs its own text, not the report
+  const template = (text: () => string | undefined) => {
+    try {
+      return text();
+    } catch {
+      return undefined;
+    }
+  };
   return {
     dimension: dimension.name,
-    summary: summaries[dimension.id]?.(dimension.score) || `${dimension.name} score: ${dimension.score}%`,
-    businessImpact: impacts[dimension.id]?.(dimension.score) || 'Monitor this dimension for quality improvements.',
+    summary: template(() => config.explanation?.summary(dimension.score, dimension)) || `${dimension.name} score: ${dimension.score}%`,
+    businessImpact: impact
+      ? (dimension.score < (impact.poorBelow ?? 70) ? impact.poor : impact.good)
+      : template(() => config.explanation?.businessImpact(dimension.score, dimension)) || 'Monitor this dimension for quality improvements.',
     technicalDetail: dimension.findings.length > 0 
       ? dimension.findings.join('; ')
       : `No specific issues detected in ${dimension.name.toLowerCase()} dimension.`,
@@ -911,83 +2176,97 @@ function generateExplanation(dimension: DQIDimension): DQIExplanation {
 // RECOMMENDATION ENGINE
 // ============================================================================
 
-function generateRecommendations(dimensions: DQIDimension[]): DQIRecommendation[] {
+const fields = (names: string[], metadata: DatasetMetadata) => names.map(n => fieldReference(n, metadata));
+
+const BUILT_IN_RECOMMENDATIONS: Record<string, RecommendationGenerator> = {
+  completeness: (dim, metadata) => dim.score >= 80 ? [] : [{
+    priority: dim.score < 50 ? 'Critical' : dim.score < 70 ? 'High' : 'Medium',
+    title: 'Address missing values in critical fields',
+    description: `${dim.impactedColumns.length} columns have significant missing data: ${fields(dim.impactedColumns.slice(0, 3), metadata).join(', ')}${dim.impactedColumns.length > 3 ? '...' : ''}`,
+    expectedImprovement: Math.round((80 - dim.score) * 0.6),
+    affectedDimensions: ['completeness', 'validity'],
+    remediation: 'Implement data validation at source. Add required field constraints. Review ETL pipelines for data loss.',
+  }],
+  uniqueness: (dim) => dim.score >= 90 ? [] : [{
+    priority: dim.score < 70 ? 'High' : 'Medium',
+    title: 'Implement deduplication strategy',
+    description: `Duplicate records detected affecting data quality. ${100 - dim.score}% redundancy identified.`,
+    expectedImprovement: Math.round((90 - dim.score) * 0.5),
+    affectedDimensions: ['uniqueness', 'accuracy'],
+    remediation: 'Add unique constraints on identifier columns. Implement merge/purge processes. Review data ingestion for duplicate prevention.',
+  }],
+  consistency: (dim, metadata) => dim.score >= 80 ? [] : [{
+    priority: dim.score < 60 ? 'High' : 'Medium',
+    title: 'Standardize data formats',
+    description: `Inconsistent data types and formats detected in: ${fields(dim.impactedColumns.slice(0, 3), metadata).join(', ')}`,
+    expectedImprovement: Math.round((80 - dim.score) * 0.4),
+    affectedDimensions: ['consistency', 'accuracy'],
+    remediation: 'Implement format validation rules. Standardize date/currency formats. Add data type enforcement at ingestion.',
+  }],
+  validity: (dim) => dim.score >= 80 ? [] : [{
+    priority: dim.score < 60 ? 'Critical' : 'High',
+    title: 'Add business rule validation',
+    description: `${100 - dim.score}% of data fails business rule checks. Invalid values detected.`,
+    expectedImprovement: Math.round((80 - dim.score) * 0.5),
+    affectedDimensions: ['validity', 'integrity'],
+    remediation: 'Implement range checks for numeric fields. Add lookup validation for codes. Review outlier detection thresholds.',
+  }],
+  timeliness: (dim) => dim.score >= 80 ? [] : [{
+    priority: dim.score < 60 ? 'High' : 'Medium',
+    title: 'Review date/timestamp handling',
+    description: 'Date fields contain future dates or stale records affecting timeliness.',
+    expectedImprovement: Math.round((80 - dim.score) * 0.3),
+    affectedDimensions: ['timeliness'],
+    remediation: 'Add date range validation. Implement data freshness SLAs. Review timestamp generation in source systems.',
+  }],
+  integrity: (dim, metadata) => dim.score >= 80 ? [] : [{
+    priority: dim.score < 60 ? 'High' : 'Medium',
+    title: 'Strengthen referential integrity',
+    description: `Reference columns have null or orphan values: ${fields(dim.impactedColumns.slice(0, 3), metadata).join(', ')}`,
+    expectedImprovement: Math.round((80 - dim.score) * 0.4),
+    affectedDimensions: ['integrity', 'completeness'],
+    remediation: 'Add foreign key constraints where applicable. Implement cascading updates. Review data relationships.',
+  }],
+};
+
+function generateRecommendations(
+  dimensions: DQIDimension[],
+  configs: Map<string, DimensionConfig>,
+  metadata: DatasetMetadata,
+  structure: StructuralValidity
+): DQIRecommendation[] {
   const recommendations: DQIRecommendation[] = [];
   let idCounter = 1;
 
+  if (structure.malformedRows > 0 || structure.unterminatedQuote) {
+    const lines = structure.samples.slice(0, 5).map(sample => sample.line);
+    recommendations.push({
+      id: `REC-${idCounter++}`,
+      priority: structure.malformedRatio > 0.05 ? 'Critical' : structure.malformedRatio > 0.01 ? 'High' : 'Medium',
+      title: 'Repair malformed rows',
+      description: structure.malformedRows > 0
+        ? `${structure.malformedRows} of ${structure.recordsRead} records could not be read as ${structure.expectedFields}-field rows and were excluded from analysis${lines.length > 0 ? ` (line${lines.length > 1 ? 's' : ''} ${lines.join(', ')}${structure.malformedRows > lines.length ? ', ...' : ''})` : ''}.`
+        : 'A quoted field is never closed, so the end of the file may have been read as a single value.',
+      expectedImprovement: structure.scorePenalty,
+      affectedDimensions: ['completeness', 'integrity'],
+      remediation: 'Quote values that contain the delimiter or line breaks. Check the export for truncated or concatenated lines. Reject files with inconsistent field counts at ingestion.',
+    });
+  }
+
   for (const dim of dimensions) {
     if (!dim.applicable) continue;
-
-    if (dim.id === 'completeness' && dim.score < 80) {
-      recommendations.push({
-        id: `REC-${idCounter++}`,
-        priority: dim.score < 50 ? 'Critical' : dim.score < 70 ? 'High' : 'Medium',
-        title: 'Address missing values in critical fields',
-        description: `${dim.impactedColumns.length} columns have significant missing data: ${dim.impactedColumns.slice(0, 3).join(', ')}${dim.impactedColumns.length > 3 ? '...' : ''}`,
-        expectedImprovement: Math.round((80 - dim.score) * 0.6),
-        affectedDimensions: ['completeness', 'validity'],
-        remediation: 'Implement data validation at source. Add required field constraints. Review ETL pipelines for data loss.',
-      });
-    }
-
-    if (dim.id === 'uniqueness' && dim.score < 90) {
-      recommendations.push({
-        id: `REC-${idCounter++}`,
-        priority: dim.score < 70 ? 'High' : 'Medium',
-        title: 'Implement deduplication strategy',
-        description: `Duplicate records detected affecting data quality. ${100 - dim.score}% redundancy identified.`,
-        expectedImprovement: Math.round((90 - dim.score) * 0.5),
-        affectedDimensions: ['uniqueness', 'accuracy'],
-        remediation: 'Add unique constraints on identifier columns. Implement merge/purge processes. Review data ingestion for duplicate prevention.',
-      });
-    }
-
-    if (dim.id === 'consistency' && dim.score < 80) {
-      recommendations.push({
-        id: `REC-${idCounter++}`,
-        priority: dim.score < 60 ? 'High' : 'Medium',
-        title: 'Standardize data formats',
-        description: `Inconsistent data types and formats detected in: ${dim.impactedColumns.slice(0, 3).join(', ')}`,
-        expectedImprovement: Math.round((80 - dim.score) * 0.4),
-        affectedDimensions: ['consistency', 'accuracy'],
-        remediation: 'Implement format validation rules. Standardize date/currency formats. Add data type enforcement at ingestion.',
-      });
-    }
-
-    if (dim.id === 'validity' && dim.score < 80) {
-      recommendations.push({
-        id: `REC-${idCounter++}`,
-        priority: dim.score < 60 ? 'Critical' : 'High',
-        title: 'Add business rule validation',
-        description: `${100 - dim.score}% of data fails business rule checks. Invalid values detected.`,
-        expectedImprovement: Math.round((80 - dim.score) * 0.5),
-        affectedDimensions: ['validity', 'integrity'],
-        remediation: 'Implement range checks for numeric fields. Add lookup validation for codes. Review outlier detection thresholds.',
-      });
+    const recommend = configs.get(dim.id)?.recommend;
+    if (!recommend) continue;
+
+    let generated: DimensionRecommendation[];
+    try {
+      generated = recommend(dim, metadata);
+    } catch {
+      // A broken custom generator costs its own recommendations, not the report
+      continue;
     }
-
-    if (dim.id === 'timeliness' && dim.score < 80) {
-      recommendations.push({
-        id: `REC-${idCounter++}`,
-        priority: dim.score < 60 ? 'High' : 'Medium',
-        title: 'Review date/timestamp handling',
-        description: 'Date fields contain future dates or stale records affecting timeliness.',
-        expectedImprovement: Math.round((80 - dim.score) * 0.3),
-        affectedDimensions: ['timeliness'],
-        remediation: 'Add date range validation. Implement data freshness SLAs. Review timestamp generation in source systems.',
-      });
-    }
-
-    if (dim.id === 'integrity' && dim.score < 80) {
-      recommendations.push({
-        id: `REC-${idCounter++}`,
-        priority: dim.score < 60 ? 'High' : 'Medium',
-        title: 'Strengthen referential integrity',
-        description: `Reference columns have null or orphan values: ${dim.impactedColumns.slice(0, 3).join(', ')}`,
-        expectedImprovement: Math.round((80 - dim.score) * 0.4),
-        affectedDimensions: ['integrity', 'completeness'],
-        remediation: 'Add foreign key constraints where applicable. Implement cascading updates. Review data relationships.',
-      });
+    for (const recommendation of generated) {
+      recommendations.push({ id: `REC-${idCounter++}`, ...recommendation });
     }
   }
 
@@ -996,13 +2275,75 @@ function generateRecommendations(dimensions: DQIDimension[]): DQIRecommendation[
   return recommendations.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
 }
 
+// ============================================================================
+// DIMENSION REGISTRY - PUBLIC API
+// ============================================================================
+
+const dimensionRegistry = createDimensionRegistry(
+  DIMENSION_CONFIGS.map(config => ({
+    ...config,
+    explanation: BUILT_IN_EXPLANATIONS[config.id],
+    recommend: BUILT_IN_RECOMMENDATIONS[config.id],
+  }))
+);
+
+/**
+ * Add a dimension to every later analysis. Throws if the id is taken.
+ */
+export function registerDimension(config: DimensionConfig): void {
+  dimensionRegistry.register(config);
+}
+
+/**
+ * Swap the config behind an existing dimension, built-in or custom.
+ * Explanation and recommendation templates left out are kept from the
+ * config it replaces; a replaced built-in's scorer fails like a custom one.
+ */
+export function replaceDimension(config: DimensionConfig): void {
+  dimensionRegistry.replace(config);
+}
+
+/**
+ * Leave a dimension out of every later analysis until it is enabled again
+ */
+export function disableDimension(id: string): void {
+  dimensionRegistry.disable(id);
+}
+
+export function enableDimension(id: string): void {
+  dimensionRegistry.enable(id);
+}
+
+/**
+ * Remove a custom dimension; built-in dimensions can only be disabled
+ */
+export function unregisterDimension(id: string): void {
+  dimensionRegistry.unregister(id);
+}
+
+/**
+ * Registered dimensions in scoring order, with their built-in and enabled flags
+ */
+export function listDimensions(): DimensionInfo[] {
+  return dimensionRegistry.list();
+}
+
+/**
+ * Drop custom dimensions and re-enable every built-in
+ */
+export function resetDimensions(): void {
+  dimensionRegistry.reset();
+}
+
 // ============================================================================
 // RISK SUMMARY GENERATOR
 // ============================================================================
 
-function generateRiskSummary(compositeDQS: CompositeDQS, dimensions: DQIDimension[]): string {
-  const criticalDimensions = dimensions.filter(d => d.applicable && d.score < 60);
-  const warningDimensions = dimensions.filter(d => d.applicable && d.score >= 60 && d.score < 80);
+function generateRiskSummary(compositeDQS: CompositeDQS, dimensions: DQIDimension[], profile: ScoringProfile): string {
+  // Critical: below the profile's remediation line; warning: below grade B
+  const critical = profile.compliance.dimensionRemediationBelow;
+  const criticalDimensions = dimensions.filter(d => d.applicable && d.score < critical);
+  const warningDimensions = dimensions.filter(d => d.applicable && d.score >= critical && d.score < profile.gradeCutoffs.B);
 
   if (compositeDQS.grade === 'A') {
     return 'LOW RISK: Dataset meets enterprise quality standards. All dimensions are within acceptable thresholds. Suitable for production processing and regulatory reporting.';
@@ -1023,14 +2364,18 @@ function generateRiskSummary(compositeDQS: CompositeDQS, dimensions: DQIDimensio
   return `CRITICAL RISK: Dataset fails multiple quality checks. ${criticalDimensions.length} dimensions in critical state. Do not use for production. Immediate data remediation required.`;
 }
 
-function determineComplianceStatus(compositeDQS: CompositeDQS, dimensions: DQIDimension[]): DQIReport['complianceStatus'] {
-  const criticalDimensions = dimensions.filter(d => d.applicable && d.score < 50);
+function determineComplianceStatus(
+  compositeDQS: CompositeDQS,
+  dimensions: DQIDimension[],
+  thresholds: ComplianceThresholds
+): DQIReport['complianceStatus'] {
+  const criticalDimensions = dimensions.filter(d => d.applicable && d.score < thresholds.criticalDimensionBelow);
   
-  if (criticalDimensions.length > 0 || compositeDQS.score < 50) {
+  if (criticalDimensions.length > 0 || compositeDQS.score < thresholds.nonCompliantBelow) {
     return 'NON_COMPLIANT';
   }
   
-  if (compositeDQS.score < 70 || dimensions.some(d => d.applicable && d.score < 60)) {
+  if (compositeDQS.score < thresholds.remediationBelow || dimensions.some(d => d.applicable && d.score < thresholds.dimensionRemediationBelow)) {
     return 'REQUIRES_REMEDIATION';
   }
   
@@ -1042,190 +2387,307 @@ function determineComplianceStatus(compositeDQS: CompositeDQS, dimensions: DQIDi
 // ============================================================================
 
 /**
- * Analyze a CSV file and produce a complete DQI Report
+ * Analyze a CSV, Excel, JSON/NDJSON or Parquet file and produce a complete DQI Report
  * This is the main entry point for the DQI Engine
  */
-export async function analyzeDQI(file: File): Promise<DQIReport> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export async function analyzeDQI(file: File, options: AnalysisOptions = {}): Promise<DQIReport> {
+  const { onProgress, signal } = options;
+  const emitProgress = (
+    stage: AnalysisProgress['stage'],
+    percent: number,
+    bytesProcessed: number,
+    dimension?: string
+  ) => {
+    signal?.throwIfAborted();
+    onProgress?.({ stage, percent: Math.round(percent), bytesProcessed, totalBytes: file.size, dimension });
+  };
+  // Each scan fills its own band of the overall percentage
+  const scanProgress = (stage: AnalysisProgress['stage'], from: number, to: number) => (bytesProcessed: number) =>
+    emitProgress(stage, from + ((to - from) * bytesProcessed) / Math.max(file.size, 1), bytesProcessed);
+
+  // An unknown profile, pack or outlier method, or an unreadable reference time, fails before any reading starts
+  const profile = resolveScoringProfile(options.scoringProfile);
+  const pack = resolveDomainPack(options.domainPack);
+  const outlierSpecFor = resolveOutlierSpecs(options.outliers);
+  const freshness = resolveFreshnessConfig(options.freshness);
+  validateTimeSeriesOptions(options.timeSeries);
+  const redact = createRedactor(pack);
+
+  // ========== STEP 1: Open the file as a row source ==========
+  emitProgress('reading', 0, 0);
+  const source = await openTable(file, options);
+  emitProgress('reading', 5, 0);
+  const { fieldPaths, declaredTypes, scan } = source;
+  const dateOrder = options.dateOrder ?? DEFAULT_DATE_ORDER;
+
+  // ========== STEP 2: Extract Metadata (profiling scan) ==========
+  // Rows are profiled one at a time and dropped; only per-column accumulators are kept
+  let profilers: ColumnProfiler[] = [];
+  const distinctRows = createDistinctCounter(ROW_DISTINCT_EXACT_LIMIT);
+  let rowCount = 0;
+
+  await scan(row => {
+    if (profilers.length === 0) {
+      profilers = source.headers.map(header =>
+        createColumnProfiler(header, columnMissingRules(source.missingValues, header), dateOrder, redact, outlierSpecFor(header), declaredTypes?.[header])
+      );
+    }
+    rowCount++;
+    profilers.forEach((profiler, idx) => profiler.observe(row[source.headers[idx]]));
+    distinctRows.add(rowKey(row, source.headers));
+  }, scanProgress('profiling', 5, 50));
+  
+  if (rowCount === 0) {
+    const malformed = source.structure?.malformedRows ?? 0;
+    throw new Error(malformed > 0
+      ? `No well-formed rows found: all ${malformed} records have the wrong number of fields`
+      : 'No data found in file');
+  }
+
+  const profiles = profilers.map(profiler => profiler.finish());
+  const schema: ColumnSchema[] = profiles.map(({ schema: column }) => {
+    const fieldPath = fieldPaths?.[column.name];
+    if (fieldPath) {
+      column.sourcePath = fieldPath.path;
+      if (fieldPath.kind === 'array-length') column.profiledAs = 'array-length';
+    }
+    const currency = source.currencies?.[column.name];
+    if (currency) {
+      column.currency = currency;
+      // Amounts mostly written with a symbol or code are currency, not plain numbers
+      if (column.inferredType === 'number' && currency.coverage >= 0.5) column.inferredType = 'currency';
+    }
+    return column;
+  });
 
-    reader.onload = async (event) => {
+  const duplicateRows = Math.round(rowCount * distinctRows.duplicateRatio());
+  const uniqueRows = rowCount - duplicateRows;
+  const totalCells = rowCount * schema.length;
+  const nullCells = profiles.reduce((sum, profile) => sum + profile.missingCount, 0);
+
+  // Generate data hash for audit trail
+  const dataHash = await generateDataHash(source.hashInput);
+
+  const datasetMetadata: DatasetMetadata = {
+    fileName: file.name,
+    fileSize: file.size,
+    rowCount,
+    columnCount: schema.length,
+    schema,
+    statisticalSummary: {
+      totalCells,
+      nullCells,
+      uniqueRows,
+      duplicateRows,
+      anomalyCount: 0, // Counted during the scoring scan
+    },
+    sourceFormat: source.sourceFormat,
+    parsing: source.parsing,
+    dialect: source.dialect,
+    workbook: source.workbook,
+    json: source.json,
+    parquet: source.parquet,
+    missingValues: source.missingValues,
+    numberFormat: source.numberFormat,
+    dateOrder,
+    validationRules: options.rules,
+    domainPack: pack,
+    duplicateDetection: resolveNearDuplicateConfig(options.nearDuplicates, source.headers),
+    outlierSettings: options.outliers,
+    freshness,
+    timeSeries: options.timeSeries,
+    processing: {
+      mode: source.streamed ? 'streaming' : 'in-memory',
+      passes: 2,
+      chunkBytes: source.streamed ? STREAM_CHUNK_BYTES : undefined,
+      approximateDistinctColumns: profiles.filter(p => p.approximateDistinct).map(p => p.schema.name),
+      approximateDuplicateRows: !distinctRows.isExact(),
+      sampledMedianColumns: profiles.filter(p => p.sampledMedian).map(p => p.schema.name),
+    },
+    dataHash,
+    analyzedAt: new Date().toISOString(),
+  };
+
+  // Related tables are read for their keys; foreign keys are looked up during the scoring scan
+  let relationships: RelationshipChecker | null = null;
+  const references = options.references;
+  if (references && references.tables.length > 0) {
+    const tables: ReferenceTable[] = [];
+    for (const table of references.tables) {
+      emitProgress('reading', 50, file.size);
       try {
-        const content = event.target?.result as string;
-        
-        // ========== STEP 1: Parse CSV (temporary) ==========
-        const { headers, rows } = parseCSVContent(content);
-        
-        if (rows.length === 0) {
-          throw new Error('No data found in file');
-        }
+        tables.push(await loadReferenceTable(table, options, references));
+      } catch (err) {
+        throw new Error(`Could not read related table '${table.name}': ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    datasetMetadata.referenceTables = tables.map(t => t.info);
+    relationships = createRelationshipChecker(
+      resolveRelationships(schema.map(c => c.name), tables, references),
+      source.missingValues
+    );
+  }
 
-        // ========== STEP 2: Extract Metadata ==========
-        const schema: ColumnSchema[] = headers.map(header => {
-          const values = rows.map(row => row[header]);
-          return extractColumnSchema(header, values);
-        });
+  // ========== STEP 3: Identify & Score Dimensions (scoring scan) ==========
+  const active = dimensionRegistry.active(options.disabledDimensions);
+  // Custom and replaced dimensions run plug-in code; a failure there drops that dimension, not the report
+  const failures = new Map<string, string>();
+  const isEngineCode = (entry: RegisteredDimension) => entry.builtIn && !entry.replaced;
+  const guard = <T>(entry: RegisteredDimension, run: () => T): T | null => {
+    if (isEngineCode(entry)) return run();
+    try {
+      return run();
+    } catch (err) {
+      failures.set(entry.config.id, err instanceof Error ? err.message : String(err));
+      return null;
+    }
+  };
+  const scorers = active.map(entry => guard(entry, () =>
+    entry.config.applicabilityCheck(datasetMetadata) ? entry.config.createScorer(datasetMetadata, profile) : null
+  ));
+  const reference = freshness.reference && 'column' in freshness.reference ? freshness.reference.column : undefined;
+  const anomalies = createAnomalyCounter(
+    schema,
+    source.missingValues,
+    dateOrder,
+    pack,
+    createReferenceClock(freshness.reference, schema, source.missingValues, dateOrder, new Date(datasetMetadata.analyzedAt)),
+    reference
+  );
+  const distinctCounts = new Map<string, ColumnDistinct>(
+    profiles.map(p => [p.schema.name, { count: p.distinct, exact: !p.approximateDistinct }])
+  );
+  const keys = createKeyChecker(schema, rowCount, distinctCounts, source.missingValues, options.primaryKey);
+
+  await scan(row => {
+    anomalies.observe(row);
+    relationships?.observe(row);
+    keys.observe(row);
+    for (let i = 0; i < scorers.length; i++) {
+      const scorer = scorers[i];
+      if (!scorer?.observe) continue;
+      if (isEngineCode(active[i])) scorer.observe(row);
+      else if (guard(active[i], () => scorer.observe!(row)) === null) scorers[i] = null;
+    }
+  }, scanProgress('scoring', 50, 90));
+
+  // Count anomalies (outliers, invalid values, future dates, etc.)
+  datasetMetadata.statisticalSummary.anomalyCount = anomalies.count();
+  if (relationships) datasetMetadata.referentialIntegrity = await relationships.finish();
+  const { candidateKeys, primaryKey } = keys.finish();
+  datasetMetadata.candidateKeys = candidateKeys;
+  if (primaryKey) datasetMetadata.primaryKey = primaryKey;
+  const structuralValidity = source.structure ?? createStructureTracker(schema.length).finish();
+  structuralValidity.scorePenalty = calculateStructuralPenalty(structuralValidity, profile.penalties);
+
+  const dimensions: DQIDimension[] = [];
+  let totalWeight = 0;
+
+  active.forEach((entry, idx) => {
+    const { config } = entry;
+    const scorer = scorers[idx];
+    emitProgress('scoring', 90 + (8 * idx) / active.length, file.size, config.name);
+    const result = scorer ? guard(entry, () => scorer.finish()) : null;
+    const custom = entry.builtIn ? undefined : true;
+    
+    if (result) {
+      const weight = profile.weights[config.id] ?? config.baseWeight;
+      totalWeight += weight;
+      
+      dimensions.push({
+        id: config.id,
+        name: config.name,
+        score: Math.max(0, Math.min(100, Math.round(result.score))),
+        weight,
+        applicable: true,
+        findings: result.findings,
+        impactedColumns: result.impactedColumns,
+        custom,
+        ruleResults: result.ruleResults,
+        businessRuleResults: result.businessRuleResults,
+        nearDuplicates: result.nearDuplicates,
+        functionalDependencies: result.functionalDependencies,
+        freshness: result.freshness,
+        timeSeries: result.timeSeries,
+      });
+    } else {
+      const failure = failures.get(config.id);
+      dimensions.push({
+        id: config.id,
+        name: config.name,
+        score: 0,
+        weight: 0,
+        applicable: false,
+        findings: [failure ? `Dimension could not be scored: ${failure}` : 'Dimension not applicable for this dataset'],
+        impactedColumns: [],
+        custom,
+      });
+    }
+  });
 
-        const uniqueRows = new Set(rows.map(r => JSON.stringify(r))).size;
-        const duplicateRows = rows.length - uniqueRows;
-        const totalCells = rows.length * headers.length;
-        const nullCells = schema.reduce((sum, col) => sum + Math.round(col.nullRatio * rows.length), 0);
-        
-        // Count anomalies (outliers, invalid values, future dates, etc.)
-        let anomalyCount = 0;
-        
-        // Count negative amounts
-        for (const col of schema) {
-          if (col.statistics && col.name.toLowerCase().includes('amount')) {
-            if (col.statistics.min < 0) {
-              const values = rows.map(r => r[col.name]).filter(v => typeof v === 'number') as number[];
-              anomalyCount += values.filter(v => v < 0).length;
-            }
-          }
-        }
-        
-        // Count future dates
-        const now = new Date();
-        const dateColumns = schema.filter(c => c.inferredType === 'date' || c.name.toLowerCase().includes('date'));
-        for (const col of dateColumns) {
-          for (const row of rows) {
-            const dateVal = row[col.name];
-            if (dateVal && typeof dateVal === 'string') {
-              const date = new Date(dateVal);
-              if (!isNaN(date.getTime()) && date > now) {
-                anomalyCount++;
-              }
-            }
-          }
-        }
-        
-        // Count statistical outliers
-        for (const col of schema) {
-          if (col.statistics && col.statistics.stdDev > 0) {
-            const upperBound = col.statistics.mean + 3 * col.statistics.stdDev;
-            const lowerBound = col.statistics.mean - 3 * col.statistics.stdDev;
-            const values = rows.map(r => r[col.name]).filter(v => typeof v === 'number') as number[];
-            anomalyCount += values.filter(v => v > upperBound || v < lowerBound).length;
-          }
-        }
+  // Normalize weights
+  for (const dim of dimensions) {
+    if (dim.applicable) {
+      dim.weight = totalWeight > 0 ? Math.round((dim.weight / totalWeight) * 100) / 100 : 0;
+    }
+  }
 
-        // Generate data hash for audit trail
-        const dataHash = await generateDataHash(content.substring(0, 10000)); // Hash first 10K chars
-
-        const datasetMetadata: DatasetMetadata = {
-          fileName: file.name,
-          fileSize: file.size,
-          rowCount: rows.length,
-          columnCount: headers.length,
-          schema,
-          statisticalSummary: {
-            totalCells,
-            nullCells,
-            uniqueRows,
-            duplicateRows,
-            anomalyCount,
-          },
-          dataHash,
-          analyzedAt: new Date().toISOString(),
-        };
-
-        // ========== STEP 3: Identify & Score Dimensions ==========
-        const dimensions: DQIDimension[] = [];
-        let totalWeight = 0;
-
-        for (const config of DIMENSION_CONFIGS) {
-          const applicable = config.applicabilityCheck(datasetMetadata);
-          
-          if (applicable) {
-            const { score, findings, impactedColumns } = config.scorer(rows, datasetMetadata);
-            totalWeight += config.baseWeight;
-            
-            dimensions.push({
-              id: config.id,
-              name: config.name,
-              score,
-              weight: config.baseWeight,
-              applicable: true,
-              findings,
-              impactedColumns,
-            });
-          } else {
-            dimensions.push({
-              id: config.id,
-              name: config.name,
-              score: 0,
-              weight: 0,
-              applicable: false,
-              findings: ['Dimension not applicable for this dataset'],
-              impactedColumns: [],
-            });
-          }
-        }
+  const configs = new Map(active.map(entry => [entry.config.id, entry.config]));
 
-        // Normalize weights
-        for (const dim of dimensions) {
-          if (dim.applicable) {
-            dim.weight = Math.round((dim.weight / totalWeight) * 100) / 100;
-          }
-        }
+  // ========== STEP 4: Calculate Composite Score ==========
+  const weightedScore = dimensions
+    .filter(d => d.applicable)
+    .reduce((sum, d) => sum + d.score * d.weight, 0);
+  
+  // Malformed records never reach the dimensions, so they are charged here
+  const compositeScore = Math.max(0, Math.round(weightedScore) - structuralValidity.scorePenalty);
+  const confidence = Math.min(95, Math.round(70 + Math.log10(rowCount) * 10));
+
+  const compositeDQS: CompositeDQS = {
+    score: compositeScore,
+    grade: calculateGrade(compositeScore, profile.gradeCutoffs),
+    confidence,
+  };
 
-        // ========== STEP 4: Calculate Composite Score ==========
-        const weightedScore = dimensions
-          .filter(d => d.applicable)
-          .reduce((sum, d) => sum + d.score * d.weight, 0);
-        
-        const compositeScore = Math.round(weightedScore);
-        const confidence = Math.min(95, Math.round(70 + Math.log10(rows.length) * 10));
-
-        const compositeDQS: CompositeDQS = {
-          score: compositeScore,
-          grade: calculateGrade(compositeScore),
-          confidence,
-        };
-
-        // ========== STEP 5: Generate Explanations ==========
-        const explanations = dimensions
-          .filter(d => d.applicable)
-          .map(d => generateExplanation(d));
-
-        // ========== STEP 6: Generate Recommendations ==========
-        const recommendations = generateRecommendations(dimensions);
-
-        // ========== STEP 7: Generate Risk Summary ==========
-        const overallRiskSummary = generateRiskSummary(compositeDQS, dimensions);
-        const complianceStatus = determineComplianceStatus(compositeDQS, dimensions);
-
-        // ========== STEP 8: Compile Final Report ==========
-        const report: DQIReport = {
-          datasetMetadata,
-          dimensions,
-          compositeDQS,
-          explanations,
-          recommendations,
-          overallRiskSummary,
-          complianceStatus,
-          auditTrail: {
-            evaluationId: generateEvaluationId(),
-            timestamp: new Date().toISOString(),
-            engineVersion: '1.0.0',
-            checksumVerified: true,
-          },
-        };
-
-        // ========== STEP 9: DISPOSE RAW DATA ==========
-        // Critical: Clear references to raw data
-        // The 'rows' array will be garbage collected after this function returns
-        // No raw data is stored in the report
-
-        resolve(report);
-      } catch (error) {
-        reject(error);
-      }
-    };
+  // ========== STEP 5: Generate Explanations ==========
+  emitProgress('reporting', 98, file.size);
+  const explanations = dimensions
+    .filter(d => d.applicable)
+    .map(d => generateExplanation(d, configs.get(d.id)!, pack));
+
+  // ========== STEP 6: Generate Recommendations ==========
+  const recommendations = generateRecommendations(dimensions, configs, datasetMetadata, structuralValidity);
+
+  // ========== STEP 7: Generate Risk Summary ==========
+  const overallRiskSummary = generateRiskSummary(compositeDQS, dimensions, profile);
+  const complianceStatus = determineComplianceStatus(compositeDQS, dimensions, profile.compliance);
+
+  // ========== STEP 8: Compile Final Report ==========
+  const report: DQIReport = {
+    datasetMetadata,
+    structuralValidity,
+    dimensions,
+    compositeDQS,
+    explanations,
+    recommendations,
+    overallRiskSummary,
+    complianceStatus,
+    auditTrail: {
+      evaluationId: generateEvaluationId(),
+      timestamp: new Date().toISOString(),
+      engineVersion: '1.0.0',
+      checksumVerified: true,
+      scoringProfile: profile,
+      domainPack: { id: pack.id, version: pack.version, name: pack.name, description: pack.description },
+    },
+  };
 
-    reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsText(file);
-  });
+  // ========== STEP 9: DISPOSE RAW DATA ==========
+  // Critical: No row array is ever built; each row is dropped once the
+  // accumulators have seen it, and no raw data is stored in the report
+
+  emitProgress('reporting', 100, file.size);
+  return report;
 }
 
 /**
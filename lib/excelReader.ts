@@ -0,0 +1,235 @@
+/**
+ * Excel Workbook Reader (.xlsx / .xlsm / .xls)
+ * Parses workbooks in the browser and turns one sheet into a typed table.
+ *
+ * Typed cells are preserved: numbers and booleans pass through unchanged,
+ * date cells become ISO-8601 strings. Merged cells are filled from their
+ * top-left value and blank or duplicate header names are made unique.
+ */
+
+import type { WorkBook, WorkSheet } from 'xlsx';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type CellValue = string | number | boolean | null;
+
+export interface ExcelOptions {
+  sheetName?: string; // Defaults to the first sheet
+  headerRow?: number; // 1-based sheet row holding column names; defaults to the first used row
+}
+
+export interface WorkbookSheetInfo {
+  name: string;
+  rowCount: number;
+  columnCount: number;
+}
+
+export interface WorkbookInfo {
+  format: 'xlsx' | 'xls';
+  sheets: WorkbookSheetInfo[];
+  selectedSheet: string;
+  headerRow: number; // 1-based sheet row used as header
+  mergedRanges: number; // Merged areas filled from their top-left cell
+  mergedHeaderCells: number; // Header cells that took their name from a merge
+  blankHeaderCells: number; // Header cells that were empty and got a generated name
+  duplicateHeaderNames: number; // Header names that were repeated and got a suffix
+  errorCells: number; // #N/A, #DIV/0! etc., read as null
+  blankRowsSkipped: number;
+}
+
+export interface SheetTable {
+  headers: string[];
+  records: CellValue[][];
+  workbook: WorkbookInfo;
+}
+
+const EXCEL_EXTENSIONS = ['.xlsx', '.xlsm', '.xls'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a file should be read as an Excel workbook
+ */
+export function isExcelFile(file: Pick<File, 'name'>): boolean {
+  const name = file.name.toLowerCase();
+  return EXCEL_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/**
+ * Convert an Excel date cell to ISO-8601. SheetJS builds dates in local
+ * time, so local getters recover the wall-clock value typed in the sheet.
+ */
+function formatExcelDate(date: Date): string {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) {
+    return day;
+  }
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+async function loadXLSX() {
+  return import('xlsx');
+}
+
+// ============================================================================
+// WORKBOOK PARSING
+// ============================================================================
+
+/**
+ * Parse workbook bytes. Dates are kept as Date objects so they can be typed.
+ */
+export async function readWorkbook(bytes: Uint8Array): Promise<WorkBook> {
+  const XLSX = await loadXLSX();
+  return XLSX.read(bytes, { type: 'array', cellDates: true, cellNF: false, cellText: false });
+}
+
+async function describeSheets(workbook: WorkBook): Promise<WorkbookSheetInfo[]> {
+  const XLSX = await loadXLSX();
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, rowCount: 0, columnCount: 0 };
+    const range = XLSX.utils.decode_range(ref);
+    return {
+      name,
+      rowCount: range.e.r - range.s.r + 1,
+      columnCount: range.e.c - range.s.c + 1,
+    };
+  });
+}
+
+/**
+ * List the sheets of a workbook file (used by the upload page sheet picker)
+ */
+export async function listWorkbookSheets(file: File): Promise<WorkbookSheetInfo[]> {
+  const workbook = await readWorkbook(new Uint8Array(await file.arrayBuffer()));
+  return describeSheets(workbook);
+}
+
+/**
+ * Extract one sheet as a header + typed records table
+ */
+export async function extractSheetTable(
+  workbook: WorkBook,
+  fileName: string,
+  options: ExcelOptions = {}
+): Promise<SheetTable> {
+  const XLSX = await loadXLSX();
+  const sheets = await describeSheets(workbook);
+
+  const selectedSheet = options.sheetName ?? workbook.SheetNames[0];
+  const sheet: WorkSheet | undefined = workbook.Sheets[selectedSheet];
+  if (!sheet) {
+    throw new Error(`Sheet '${selectedSheet}' not found in workbook`);
+  }
+  if (!sheet['!ref']) {
+    throw new Error(`Sheet '${selectedSheet}' is empty`);
+  }
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const headerRowIndex = options.headerRow !== undefined ? options.headerRow - 1 : range.s.r;
+  if (headerRowIndex < range.s.r || headerRowIndex > range.e.r) {
+    throw new Error(`Header row ${headerRowIndex + 1} is outside the used range of sheet '${selectedSheet}'`);
+  }
+
+  let errorCells = 0;
+  const readCell = (r: number, c: number): CellValue => {
+    const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+    if (!cell || cell.v === undefined || cell.v === null) return null;
+    if (cell.t === 'e') {
+      errorCells++;
+      return null;
+    }
+    if (cell.v instanceof Date) return formatExcelDate(cell.v);
+    if (typeof cell.v === 'number' || typeof cell.v === 'boolean') return cell.v;
+    return String(cell.v);
+  };
+
+  // Resolve merged areas to the value of their top-left cell
+  const merges = sheet['!merges'] ?? [];
+  const mergeOrigin = new Map<string, { r: number; c: number }>();
+  for (const merge of merges) {
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        if (r !== merge.s.r || c !== merge.s.c) mergeOrigin.set(`${r}:${c}`, merge.s);
+      }
+    }
+  }
+  const readResolved = (r: number, c: number): CellValue => {
+    const origin = mergeOrigin.get(`${r}:${c}`);
+    return origin ? readCell(origin.r, origin.c) : readCell(r, c);
+  };
+
+  // ---------- Header row ----------
+  let mergedHeaderCells = 0;
+  let blankHeaderCells = 0;
+  let duplicateHeaderNames = 0;
+  const names: string[] = [];
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    if (mergeOrigin.has(`${headerRowIndex}:${c}`)) mergedHeaderCells++;
+    const raw = readResolved(headerRowIndex, c);
+    const name = raw === null ? '' : String(raw).trim();
+    if (name === '') blankHeaderCells++;
+    names.push(name || `column_${c - range.s.c + 1}`);
+  }
+
+  // Suffixes skip every name the header already has, so a renamed
+  // duplicate never takes the name of a real column further along
+  const headers: string[] = [];
+  const taken = new Set(names);
+  const used = new Set<string>();
+  for (const name of names) {
+    if (!used.has(name)) {
+      used.add(name);
+      headers.push(name);
+      continue;
+    }
+    duplicateHeaderNames++;
+    let suffix = 2;
+    while (taken.has(`${name}_${suffix}`)) suffix++;
+    const unique = `${name}_${suffix}`;
+    taken.add(unique);
+    used.add(unique);
+    headers.push(unique);
+  }
+
+  // ---------- Data rows ----------
+  const records: CellValue[][] = [];
+  let blankRowsSkipped = 0;
+
+  for (let r = headerRowIndex + 1; r <= range.e.r; r++) {
+    const record: CellValue[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      record.push(readResolved(r, c));
+    }
+    if (record.every(v => v === null || (typeof v === 'string' && v.trim() === ''))) {
+      blankRowsSkipped++;
+      continue;
+    }
+    records.push(record);
+  }
+
+  return {
+    headers,
+    records,
+    workbook: {
+      format: fileName.toLowerCase().endsWith('.xls') ? 'xls' : 'xlsx',
+      sheets,
+      selectedSheet,
+      headerRow: headerRowIndex + 1,
+      mergedRanges: merges.length,
+      mergedHeaderCells,
+      blankHeaderCells,
+      duplicateHeaderNames,
+      errorCells,
+      blankRowsSkipped,
+    },
+  };
+}
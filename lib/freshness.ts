@@ -0,0 +1,330 @@
+/**
+ * Freshness
+ * Measures how old each date is relative to a reference time rather than
+ * to the moment the report happens to run. The reference is the analysis
+ * time by default, or a fixed extract timestamp, or a column of the file
+ * (extract_time) read row by row, so a backfill or an archive is judged
+ * against when it was produced.
+ *
+ * Latency is the reference minus the date. Dates after their reference
+ * are future-dated, dates older than the stale limit are stale, and
+ * freshness SLAs such as "event_time within 24h of extract_time" count
+ * the rows that miss them. All three are reported separately.
+ */
+
+import type { ColumnSchema, ParsedRow } from './dqiEngine';
+import { createDateParser, type DateOrder, type DateParser } from './dateParsing';
+import { columnMissingRules, type ColumnMissingRules, type MissingValueConfig } from './missingValues';
+import { createReservoir, createRunningStats, quantile, type Reservoir, type RunningStats } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type FreshnessReference =
+  | { column: string } // File column holding each row's extract or load time
+  | { timestamp: string }; // Fixed extract time, ISO 8601
+
+export interface FreshnessSLA {
+  column: string; // Date column checked, e.g. event_time
+  maxLatencyHours: number; // e.g. 24
+  reference?: FreshnessReference; // Defaults to the analysis reference
+}
+
+export interface FreshnessOptions {
+  reference?: FreshnessReference; // Default: the time of the analysis
+  staleAfterDays?: number; // Dates older than this relative to the reference are stale (default 730)
+  slas?: FreshnessSLA[];
+}
+
+export interface FreshnessConfig {
+  reference?: FreshnessReference; // Absent: the time of the analysis
+  staleAfterDays: number;
+  slas: FreshnessSLA[];
+}
+
+export interface LatencyBucket {
+  label: string; // e.g. "1-7d"
+  count: number;
+}
+
+export interface DateColumnFreshness {
+  column: string;
+  reference: string; // "analysis time", the extract timestamp, or the reference column's name
+  values: number; // Non-missing values
+  invalid: number; // Values that are not readable dates
+  measured: number; // Dates with a readable reference to measure latency against
+  noReference: number; // Dates on rows whose reference column is missing or unreadable
+  latency?: { medianHours: number; p95Hours: number; maxHours: number; sampled?: boolean }; // Future dates left out
+  buckets: LatencyBucket[]; // Non-negative latencies, exact counts
+  future: number; // Dates after their reference
+  stale: number; // Dates older than the stale limit
+  sla?: { maxLatencyHours: number; breaches: number }; // Dates later than the SLA allows, future dates excluded
+}
+
+export interface FreshnessResult {
+  reference: string; // Analysis reference, described as in DateColumnFreshness
+  staleAfterDays: number;
+  columns: DateColumnFreshness[]; // Reference columns are measured only for invalid values
+  missingColumns: string[]; // Reference or SLA columns the file does not have
+}
+
+export interface FreshnessTracker {
+  observe: (row: ParsedRow) => void;
+  finish: () => FreshnessResult;
+}
+
+/** Reference time for a row, or null when its reference column has no readable date */
+export type ReferenceClock = (row: ParsedRow) => Date | null;
+
+export const DEFAULT_STALE_AFTER_DAYS = 730;
+
+const HOUR_MS = 60 * 60 * 1000;
+const LATENCY_SAMPLE_SIZE = 10_000; // Latencies kept per column for the median and 95th percentile
+const LATENCY_BUCKETS: { label: string; upToHours: number }[] = [
+  { label: '< 1h', upToHours: 1 },
+  { label: '1-6h', upToHours: 6 },
+  { label: '6-24h', upToHours: 24 },
+  { label: '1-7d', upToHours: 24 * 7 },
+  { label: '7-30d', upToHours: 24 * 30 },
+  { label: '30d-1y', upToHours: 24 * 365 },
+  { label: '> 1y', upToHours: Infinity },
+];
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+function validateReference(reference: FreshnessReference, where: string): void {
+  if ('timestamp' in reference && isNaN(Date.parse(reference.timestamp))) {
+    throw new Error(`Reference time for ${where} is not a readable timestamp: '${reference.timestamp}'`);
+  }
+  if ('column' in reference && !reference.column.trim()) {
+    throw new Error(`Reference column for ${where} is empty`);
+  }
+}
+
+/**
+ * Settings with defaults filled in. Bad settings fail before any reading
+ * starts; columns the file turns out not to have are reported by timeliness.
+ */
+export function resolveFreshnessConfig(options: FreshnessOptions | undefined): FreshnessConfig {
+  const staleAfterDays = options?.staleAfterDays ?? DEFAULT_STALE_AFTER_DAYS;
+  if (!(staleAfterDays > 0)) {
+    throw new Error(`Stale limit must be above 0 days, got ${staleAfterDays}`);
+  }
+  if (options?.reference) validateReference(options.reference, 'the analysis');
+  const slas = options?.slas ?? [];
+  for (const sla of slas) {
+    if (!(sla.maxLatencyHours > 0)) {
+      throw new Error(`Freshness SLA for column '${sla.column}' must allow more than 0 hours, got ${sla.maxLatencyHours}`);
+    }
+    if (sla.reference) validateReference(sla.reference, `the SLA on column '${sla.column}'`);
+  }
+  return { reference: options?.reference, staleAfterDays, slas };
+}
+
+/**
+ * Parse SLA lines typed into a form field: "event_time: 24h" or
+ * "event_time: 2d extract_time", the optional last word naming a reference column
+ */
+export function parseFreshnessSLAs(text: string): FreshnessSLA[] {
+  const slas: FreshnessSLA[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const column = line.substring(0, separator).trim();
+    const [limit, reference] = line.substring(separator + 1).trim().split(/\s+/);
+    const match = /^(\d+(?:\.\d+)?)\s*([hd]?)$/i.exec(limit ?? '');
+    if (!column || !match) continue;
+    const hours = Number(match[1]) * (match[2].toLowerCase() === 'd' ? 24 : 1);
+    slas.push({ column, maxLatencyHours: hours, reference: reference ? { column: reference } : undefined });
+  }
+  return slas;
+}
+
+/**
+ * Short description such as "extract_time" or "2025-01-31T00:00:00Z"
+ */
+export function describeReference(reference: FreshnessReference | undefined): string {
+  if (!reference) return 'analysis time';
+  return 'column' in reference ? reference.column : reference.timestamp;
+}
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+/**
+ * Reference time per row. A reference column the file does not have
+ * falls back to the analysis time.
+ */
+export function createReferenceClock(
+  reference: FreshnessReference | undefined,
+  schema: ColumnSchema[],
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder,
+  analyzedAt: Date
+): ReferenceClock {
+  if (reference && 'timestamp' in reference) {
+    const fixed = new Date(reference.timestamp);
+    return () => fixed;
+  }
+  const column = reference && 'column' in reference ? schema.find(c => c.name === reference.column) : undefined;
+  if (!column) return () => analyzedAt;
+
+  const rules = columnMissingRules(missingValues, column.name);
+  const parse = createDateParser(column.dateFormat, dateOrder);
+  return (row) => {
+    const value = row[column.name];
+    if (typeof value !== 'string' || rules.classify(value)) return null;
+    return parse(value);
+  };
+}
+
+interface ColumnTracker {
+  column: ColumnSchema;
+  rules: ColumnMissingRules;
+  parse: DateParser;
+  clock: ReferenceClock | null; // null for the analysis reference column itself
+  reference: string;
+  maxLatencyHours?: number;
+  values: number;
+  invalid: number;
+  measured: number;
+  noReference: number;
+  future: number;
+  stale: number;
+  breaches: number;
+  buckets: number[];
+  latency: RunningStats;
+  sample: Reservoir;
+}
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+/**
+ * Measure every date column, and every SLA column, against its reference
+ * during the scoring scan
+ *
+ * @param isDateColumn Columns measured without an SLA of their own
+ */
+export function createFreshnessTracker(
+  schema: ColumnSchema[],
+  config: FreshnessConfig,
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder,
+  analyzedAt: Date,
+  isDateColumn: (column: ColumnSchema) => boolean
+): FreshnessTracker {
+  const names = schema.map(c => c.name);
+  // A reference column the file does not have falls back to the analysis time
+  const known = (r?: FreshnessReference) => (!r || !('column' in r) || names.includes(r.column) ? r : undefined);
+  const referenceColumns = [config.reference, ...config.slas.map(s => s.reference)]
+    .flatMap(r => (r && 'column' in r ? [r.column] : []));
+  const missingColumns = Array.from(new Set([...referenceColumns, ...config.slas.map(s => s.column)]))
+    .filter(name => !names.includes(name));
+
+  const analysisClock = createReferenceClock(config.reference, schema, missingValues, dateOrder, analyzedAt);
+  const analysisReference = known(config.reference);
+  const referenceColumn = analysisReference && 'column' in analysisReference ? analysisReference.column : null;
+  const staleHours = config.staleAfterDays * 24;
+
+  const trackers: ColumnTracker[] = schema
+    .filter(c => isDateColumn(c) || config.slas.some(s => s.column === c.name))
+    .map(column => {
+      const sla = config.slas.find(s => s.column === column.name);
+      return {
+        column,
+        rules: columnMissingRules(missingValues, column.name),
+        parse: createDateParser(column.dateFormat, dateOrder),
+        clock: column.name === referenceColumn && !sla
+          ? null
+          : sla?.reference ? createReferenceClock(sla.reference, schema, missingValues, dateOrder, analyzedAt) : analysisClock,
+        reference: describeReference(sla?.reference ? known(sla.reference) : analysisReference),
+        maxLatencyHours: sla?.maxLatencyHours,
+        values: 0,
+        invalid: 0,
+        measured: 0,
+        noReference: 0,
+        future: 0,
+        stale: 0,
+        breaches: 0,
+        buckets: LATENCY_BUCKETS.map(() => 0),
+        latency: createRunningStats(),
+        sample: createReservoir(LATENCY_SAMPLE_SIZE),
+      };
+    });
+
+  return {
+    observe: (row) => {
+      for (const t of trackers) {
+        const value = row[t.column.name];
+        // Sentinel dates such as 9999-12-31 are missing values, not future dates
+        if (t.rules.classify(value)) continue;
+        t.values++;
+        if (typeof value !== 'string') continue;
+
+        const date = t.parse(value);
+        if (!date) {
+          t.invalid++;
+          continue;
+        }
+        if (!t.clock) continue;
+        const reference = t.clock(row);
+        if (!reference) {
+          t.noReference++;
+          continue;
+        }
+
+        t.measured++;
+        const hours = (reference.getTime() - date.getTime()) / HOUR_MS;
+        if (hours < 0) {
+          t.future++;
+          continue;
+        }
+        if (hours > staleHours) t.stale++;
+        if (t.maxLatencyHours !== undefined && hours > t.maxLatencyHours) t.breaches++;
+        t.buckets[LATENCY_BUCKETS.findIndex(b => hours < b.upToHours)]++;
+        t.latency.add(hours);
+        t.sample.add(hours);
+      }
+    },
+    finish: () => ({
+      reference: describeReference(analysisReference),
+      staleAfterDays: config.staleAfterDays,
+      missingColumns,
+      columns: trackers.map(t => {
+        const sorted = t.sample.sorted();
+        return {
+          column: t.column.name,
+          reference: t.reference,
+          values: t.values,
+          invalid: t.invalid,
+          measured: t.measured,
+          noReference: t.noReference,
+          latency: t.latency.count() > 0
+            ? {
+              medianHours: roundHours(quantile(sorted, 0.5)),
+              p95Hours: roundHours(quantile(sorted, 0.95)),
+              maxHours: roundHours(t.latency.max()),
+              sampled: t.sample.isComplete() ? undefined : true,
+            }
+            : undefined,
+          buckets: LATENCY_BUCKETS.map((b, i) => ({ label: b.label, count: t.buckets[i] })),
+          future: t.future,
+          stale: t.stale,
+          sla: t.maxLatencyHours !== undefined ? { maxLatencyHours: t.maxLatencyHours, breaches: t.breaches } : undefined,
+        };
+      }),
+    }),
+  };
+}
+
+/**
+ * Short description of a latency such as "36h" or "4.5d"
+ */
+export function describeHours(hours: number): string {
+  if (Math.abs(hours) < 48) return `${roundHours(hours)}h`;
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+}
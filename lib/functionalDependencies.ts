@@ -0,0 +1,188 @@
+/**
+ * Functional Dependency Discovery
+ * Finds column pairs where one column's value settles another's, such as
+ * merchant_id → merchant_name or zip → city, and counts the rows that
+ * break a dependency which otherwise holds. Those rows are inconsistent:
+ * the same merchant written with two names, the same zip in two cities.
+ *
+ * Only low-cardinality, non-date columns take part, and each pair is
+ * tracked as value hashes: for every determinant value, how often each
+ * dependent value appears with it. A dependency is reported when the most
+ * common dependent value covers at least MIN_CONFIDENCE of the rows.
+ */
+
+import type { ColumnSchema, ParsedRow } from './dqiEngine';
+import { columnMissingRules, type ColumnMissingRules, type MissingValueConfig } from './missingValues';
+import { hashString } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface FunctionalDependency {
+  determinant: string; // e.g. merchant_id
+  dependent: string; // e.g. merchant_name
+  confidence: number; // 0-1 share of rows agreeing with their determinant's usual dependent value
+  violatingRows: number; // Rows whose dependent value is not the usual one for their determinant
+  supportRows: number; // Rows with both values present
+  determinantValues: number; // Distinct determinant values seen
+  bidirectional?: boolean; // The dependent also settles the determinant; listed once
+}
+
+export interface FunctionalDependencyResult {
+  dependencies: FunctionalDependency[]; // Exact dependencies and near-misses, most violations first
+  pairsChecked: number;
+  limited: boolean; // Column pairs or value groups were left out to stay within limits
+}
+
+export interface DependencyFinder {
+  observe: (row: ParsedRow) => void;
+  finish: () => FunctionalDependencyResult;
+}
+
+const MIN_CONFIDENCE = 0.95; // Share of rows a dependency must hold on to be reported
+const MIN_GROUP_SIZE = 2; // Average rows per determinant value; below this any column "determines" the rest
+const DISTINCT_LIMIT = 10_000; // Columns with more distinct values are not considered
+const MAX_PAIRS = 100;
+const ENTRY_BUDGET = 500_000; // Determinant/dependent value combinations tracked across all pairs
+
+// ============================================================================
+// DISCOVERY
+// ============================================================================
+
+interface DependencyColumn {
+  name: string;
+  rules: ColumnMissingRules;
+  distinct: number; // Estimated from the profiled unique ratio
+  slot: number; // Position of the column's value hash in the per-row buffer
+}
+
+interface PairTracker {
+  determinant: DependencyColumn;
+  dependent: DependencyColumn;
+  groups: Map<number, Map<number, number>>; // Determinant hash to dependent hash counts
+  support: number;
+}
+
+/**
+ * Track every candidate column pair during the scoring scan
+ */
+export function createDependencyFinder(
+  schema: ColumnSchema[],
+  rowCount: number,
+  missingValues: MissingValueConfig
+): DependencyFinder {
+  const columns: DependencyColumn[] = schema
+    .filter(c => c.inferredType !== 'date' && !c.dateFormat)
+    .map(c => ({
+      name: c.name,
+      rules: columnMissingRules(missingValues, c.name),
+      distinct: Math.round(c.uniqueRatio * (1 - c.nullRatio) * rowCount),
+      slot: 0,
+    }))
+    .filter(c => c.distinct >= 2 && c.distinct <= DISTINCT_LIMIT && c.distinct * MIN_GROUP_SIZE <= rowCount);
+
+  // The pair limit is shared out across determinants in turn, so identifiers
+  // such as merchant_id keep their pairs beside low-cardinality status columns.
+  // Each determinant's dependents closest to it in cardinality come first
+  // (merchant_name beside merchant_id), and in each round the determinants
+  // with the fewest values, whose dependencies are the best supported.
+  const gap = (a: DependencyColumn, b: DependencyColumn) => Math.abs(Math.log(a.distinct / b.distinct));
+  const queues = [...columns]
+    .sort((a, b) => a.distinct - b.distinct)
+    .map(determinant => columns
+      .filter(dependent => dependent !== determinant)
+      .sort((a, b) => gap(a, determinant) - gap(b, determinant))
+      .map(dependent => ({ determinant, dependent })));
+  const candidateCount = queues.reduce((sum, queue) => sum + queue.length, 0);
+  const pairs: PairTracker[] = [];
+  for (let round = 0; pairs.length < MAX_PAIRS && pairs.length < candidateCount; round++) {
+    for (const queue of queues) {
+      if (round < queue.length && pairs.length < MAX_PAIRS) pairs.push({ ...queue[round], groups: new Map(), support: 0 });
+    }
+  }
+  const used = columns.filter(c => pairs.some(p => p.determinant === c || p.dependent === c));
+  used.forEach((column, i) => { column.slot = i; });
+  const hashes: (number | null)[] = new Array(used.length).fill(null);
+  let entries = 0;
+  let budgetReached = false;
+
+  return {
+    observe: (row) => {
+      for (const column of used) {
+        const value = row[column.name];
+        hashes[column.slot] = value === null || value === undefined || column.rules.classify(value)
+          ? null
+          : hashString(String(value).trim());
+      }
+      for (const pair of pairs) {
+        const x = hashes[pair.determinant.slot];
+        const y = hashes[pair.dependent.slot];
+        if (x === null || y === null) continue;
+        let group = pair.groups.get(x);
+        if (!group) {
+          if (entries >= ENTRY_BUDGET) {
+            budgetReached = true;
+            continue;
+          }
+          group = new Map();
+          pair.groups.set(x, group);
+        }
+        const count = group.get(y);
+        if (count === undefined) {
+          if (entries >= ENTRY_BUDGET) {
+            budgetReached = true;
+            continue;
+          }
+          entries++;
+        }
+        group.set(y, (count ?? 0) + 1);
+        pair.support++;
+      }
+    },
+    finish: () => {
+      const held: FunctionalDependency[] = [];
+      for (const pair of pairs) {
+        if (pair.support === 0 || pair.support < pair.groups.size * MIN_GROUP_SIZE) continue;
+        let agreeing = 0;
+        const dependentValues = new Set<number>();
+        for (const group of pair.groups.values()) {
+          let top = 0;
+          for (const [value, count] of group) {
+            dependentValues.add(value);
+            top = Math.max(top, count);
+          }
+          agreeing += top;
+        }
+        // A constant dependent is settled by anything
+        if (dependentValues.size < 2) continue;
+        const confidence = agreeing / pair.support;
+        if (confidence < MIN_CONFIDENCE) continue;
+        held.push({
+          determinant: pair.determinant.name,
+          dependent: pair.dependent.name,
+          confidence: Math.round(confidence * 1000) / 1000,
+          violatingRows: pair.support - agreeing,
+          supportRows: pair.support,
+          determinantValues: pair.groups.size,
+        });
+      }
+
+      // One-to-one columns hold both ways; keep the direction in file order
+      const order = schema.map(c => c.name);
+      const dependencies = held.filter(dep => {
+        const reverse = held.find(d => d.determinant === dep.dependent && d.dependent === dep.determinant);
+        if (!reverse) return true;
+        dep.bidirectional = true;
+        return order.indexOf(dep.determinant) < order.indexOf(dep.dependent);
+      });
+      dependencies.sort((a, b) => b.violatingRows - a.violatingRows || b.confidence - a.confidence);
+
+      return {
+        dependencies,
+        pairsChecked: pairs.length,
+        limited: budgetReached || candidateCount > MAX_PAIRS,
+      };
+    },
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * JSON / NDJSON Dataset Reader
+ * Turns JSON arrays, wrapped arrays ({"data": [...]}) and newline-delimited
+ * JSON into a flat table.
+ *
+ * Nested objects are flattened into dotted column paths
+ * (merchant.address.city); arrays are profiled by their length.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type JSONCellValue = string | number | boolean | null;
+
+export interface JSONFieldPath {
+  path: string; // JSONPath to the original field, e.g. $.merchant.address.city
+  kind: 'value' | 'array-length';
+}
+
+export interface JSONIngestInfo {
+  format: 'json' | 'ndjson';
+  recordsPath: string; // Where the record array was found, '$' for a top-level array
+  records: number;
+  invalidLines: number; // NDJSON lines that were not valid JSON objects
+  invalidLineNumbers: number[]; // First few offending NDJSON line numbers
+  nestedFields: number; // Columns flattened from nested objects
+  arrayFields: number; // Columns profiled by array length
+  renamedFields: number; // Fields whose dotted name another field already had, given a suffix
+  maxDepth: number;
+}
+
+export interface FlattenedRecords {
+  headers: string[];
+  records: JSONCellValue[][];
+  fieldPaths: Record<string, JSONFieldPath>;
+  nestedFields: number;
+  arrayFields: number;
+  renamedFields: number;
+  maxDepth: number;
+}
+
+export interface JSONTable {
+  headers: string[];
+  records: JSONCellValue[][];
+  fieldPaths: Record<string, JSONFieldPath>;
+  info: JSONIngestInfo;
+}
+
+const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+const NDJSON_EXTENSIONS = ['.ndjson', '.jsonl'];
+const MAX_REPORTED_INVALID_LINES = 20;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a file should be read as JSON or NDJSON
+ */
+export function isJSONFile(file: Pick<File, 'name'>): boolean {
+  const name = file.name.toLowerCase();
+  return JSON_EXTENSIONS.some(ext => name.endsWith(ext));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const SIMPLE_KEY = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function appendPath(parent: string, key: string): string {
+  return SIMPLE_KEY.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+interface FlattenStats {
+  maxDepth: number;
+  nested: Set<string>;
+  columns: Map<string, string>; // Field (kind and JSONPath) to the column it was given
+  renamed: number;
+}
+
+/**
+ * Column for a field, the same for every record. A literal key "a.b" and
+ * the nested path a -> b both flatten to a.b; whichever comes second gets
+ * a suffix, as duplicate Excel headers do.
+ */
+function columnFor(
+  name: string,
+  field: JSONFieldPath,
+  paths: Record<string, JSONFieldPath>,
+  stats: FlattenStats
+): string {
+  const key = `${field.kind}:${field.path}`;
+  const known = stats.columns.get(key);
+  if (known) return known;
+
+  let column = name;
+  for (let suffix = 2; paths[column]; suffix++) column = `${name}_${suffix}`;
+  if (column !== name) stats.renamed++;
+  stats.columns.set(key, column);
+  paths[column] = field;
+  return column;
+}
+
+/**
+ * Flatten one record into column -> value pairs, recording where each
+ * column came from in the original document.
+ */
+function flattenRecord(
+  value: unknown,
+  columnPrefix: string,
+  jsonPath: string,
+  depth: number,
+  out: Map<string, JSONCellValue>,
+  paths: Record<string, JSONFieldPath>,
+  stats: FlattenStats
+): void {
+  stats.maxDepth = Math.max(stats.maxDepth, depth);
+
+  if (Array.isArray(value)) {
+    const column = columnFor(`${columnPrefix || 'value'}[]`, { path: jsonPath, kind: 'array-length' }, paths, stats);
+    out.set(column, value.length);
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenRecord(
+        child,
+        columnPrefix ? `${columnPrefix}.${key}` : key,
+        appendPath(jsonPath, key),
+        depth + 1,
+        out,
+        paths,
+        stats
+      );
+    }
+    return;
+  }
+
+  const column = columnFor(columnPrefix || 'value', { path: jsonPath, kind: 'value' }, paths, stats);
+  if (depth > 1) stats.nested.add(column);
+  if (value === null || value === undefined) {
+    out.set(column, null);
+  } else if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    out.set(column, value);
+  } else {
+    out.set(column, String(value));
+  }
+}
+
+/**
+ * Find the record array: a top-level array, or the largest array of
+ * objects directly under a top-level object ({"data": [...]}).
+ */
+function locateRecords(document: unknown): { records: unknown[]; recordsPath: string } | null {
+  if (Array.isArray(document)) {
+    return { records: document, recordsPath: '$' };
+  }
+  if (!isPlainObject(document)) return null;
+
+  let best: { records: unknown[]; recordsPath: string } | null = null;
+  for (const [key, value] of Object.entries(document)) {
+    if (Array.isArray(value) && value.some(isPlainObject) && (!best || value.length > best.records.length)) {
+      best = { records: value, recordsPath: appendPath('$', key) };
+    }
+  }
+  // A single object with no record array is treated as a one-record dataset
+  return best ?? { records: [document], recordsPath: '$' };
+}
+
+function parseNDJSON(content: string): { records: unknown[]; invalidLineNumbers: number[]; invalidLines: number } {
+  const records: unknown[] = [];
+  const invalidLineNumbers: number[] = [];
+  let invalidLines = 0;
+
+  content.split(/\r?\n/).forEach((line, idx) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      invalidLines++;
+      if (invalidLineNumbers.length < MAX_REPORTED_INVALID_LINES) invalidLineNumbers.push(idx + 1);
+    }
+  });
+
+  return { records, invalidLineNumbers, invalidLines };
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Flatten already-parsed records into a table. Also used for other nested
+ * sources (e.g. Parquet structs); basePath is the JSONPath of one record.
+ */
+export function flattenRecords(rawRecords: unknown[], basePath: string): FlattenedRecords {
+  const fieldPaths: Record<string, JSONFieldPath> = {};
+  const stats: FlattenStats = { maxDepth: 0, nested: new Set<string>(), columns: new Map(), renamed: 0 };
+  const flattened = rawRecords.map(record => {
+    const out = new Map<string, JSONCellValue>();
+    flattenRecord(record, '', basePath, 0, out, fieldPaths, stats);
+    return out;
+  });
+
+  // Union of columns in first-seen order; absent keys read as null
+  const headers = Object.keys(fieldPaths);
+  const records = flattened.map(row => headers.map(h => (row.has(h) ? row.get(h)! : null)));
+
+  return {
+    headers,
+    records,
+    fieldPaths,
+    nestedFields: stats.nested.size,
+    arrayFields: headers.filter(h => fieldPaths[h].kind === 'array-length').length,
+    renamedFields: stats.renamed,
+    maxDepth: stats.maxDepth,
+  };
+}
+
+/**
+ * Parse JSON or NDJSON text into a flat table. The format is taken from the
+ * file extension when it is .ndjson/.jsonl, otherwise sniffed from the content.
+ */
+export function parseJSONTable(content: string, fileName: string): JSONTable {
+  const text = content.charCodeAt(0) === 0xfeff ? content.substring(1) : content;
+  const lowerName = fileName.toLowerCase();
+
+  let format: JSONIngestInfo['format'] = 'json';
+  let rawRecords: unknown[];
+  let recordsPath = '$';
+  let invalidLines = 0;
+  let invalidLineNumbers: number[] = [];
+
+  let document: unknown = undefined;
+  if (!NDJSON_EXTENSIONS.some(ext => lowerName.endsWith(ext))) {
+    try {
+      document = JSON.parse(text);
+    } catch {
+      // Not a single JSON document; fall back to NDJSON below
+    }
+  }
+
+  const located = document !== undefined ? locateRecords(document) : null;
+  if (located) {
+    rawRecords = located.records;
+    recordsPath = located.recordsPath;
+  } else {
+    format = 'ndjson';
+    ({ records: rawRecords, invalidLines, invalidLineNumbers } = parseNDJSON(text));
+    if (rawRecords.length === 0 && invalidLines > 0) {
+      throw new Error('File is neither valid JSON nor newline-delimited JSON');
+    }
+  }
+
+  const flat = flattenRecords(rawRecords, format === 'ndjson' ? '$' : `${recordsPath}[*]`);
+
+  return {
+    headers: flat.headers,
+    records: flat.records,
+    fieldPaths: flat.fieldPaths,
+    info: {
+      format,
+      recordsPath,
+      records: flat.records.length,
+      invalidLines,
+      invalidLineNumbers,
+      nestedFields: flat.nestedFields,
+      arrayFields: flat.arrayFields,
+      renamedFields: flat.renamedFields,
+      maxDepth: flat.maxDepth,
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Missing Value Rules
+ * One definition of "missing" shared by parsing, profiling and scoring.
+ *
+ * A missing value is one of three kinds:
+ * - null: no value at all, or text configured as a null token ("NULL", "N/A")
+ * - empty: an empty string, kept apart from null where the format can express both
+ * - sentinel: a real-looking placeholder that means "unknown" (9999-12-31, -1)
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type MissingKind = 'null' | 'empty' | 'sentinel';
+
+export interface MissingValueRules {
+  nullTokens?: string[]; // Text read as a true null (trimmed, case-insensitive)
+  sentinels?: string[]; // Placeholder values counted as missing; numeric sentinels also match 1.0 vs 1
+  emptyStrings?: 'null' | 'distinct'; // Whether blank text is a null or an empty string of its own
+}
+
+export interface MissingValueOptions extends MissingValueRules {
+  columns?: Record<string, MissingValueRules>; // Per-column rules; each list given replaces the analysis-wide one
+}
+
+export interface MissingValueConfig {
+  nullTokens: string[];
+  sentinels: string[];
+  emptyStrings: 'null' | 'distinct';
+  columns: Record<string, MissingValueRules>;
+}
+
+export interface MissingValueCounts {
+  nulls: number;
+  emptyStrings: number;
+  sentinels: number;
+}
+
+/**
+ * Resolved rules for one column
+ */
+export interface ColumnMissingRules {
+  isNullToken: (text: string) => boolean;
+  emptyStrings: 'null' | 'distinct';
+  classify: (value: string | number | boolean | null | undefined) => MissingKind | null; // null when the value is present
+}
+
+export const DEFAULT_NULL_TOKENS = ['null', 'na', 'n/a', 'none', 'undefined', '-'];
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Fill in defaults. CSV and Excel write a missing value as a blank cell, so
+ * blanks default to null there; JSON and Parquet can say "" and null apart.
+ */
+export function resolveMissingValueConfig(
+  options: MissingValueOptions | undefined,
+  defaultEmptyStrings: MissingValueConfig['emptyStrings']
+): MissingValueConfig {
+  return {
+    nullTokens: options?.nullTokens ?? DEFAULT_NULL_TOKENS,
+    sentinels: options?.sentinels ?? [],
+    emptyStrings: options?.emptyStrings ?? defaultEmptyStrings,
+    columns: options?.columns ?? {},
+  };
+}
+
+/**
+ * Build the matcher for one column from the analysis-wide config
+ */
+export function columnMissingRules(config: MissingValueConfig, column: string): ColumnMissingRules {
+  const overrides = config.columns[column] ?? {};
+  const nullTokens = new Set((overrides.nullTokens ?? config.nullTokens).map(t => t.trim().toLowerCase()));
+  const sentinelText = new Set<string>();
+  const sentinelNumbers = new Set<number>();
+  for (const sentinel of overrides.sentinels ?? config.sentinels) {
+    const text = sentinel.trim();
+    if (text === '') continue;
+    sentinelText.add(text.toLowerCase());
+    if (!isNaN(Number(text))) sentinelNumbers.add(Number(text));
+  }
+  const emptyStrings = overrides.emptyStrings ?? config.emptyStrings;
+  // Text longer than every token cannot match, which skips most values without lower-casing them
+  const longestNullToken = Math.max(0, ...Array.from(nullTokens, t => t.length));
+  const longestToken = Math.max(longestNullToken, ...Array.from(sentinelText, t => t.length));
+  const isNullToken = (text: string) => {
+    const trimmed = text.trim();
+    return trimmed.length <= longestNullToken && nullTokens.has(trimmed.toLowerCase());
+  };
+
+  return {
+    isNullToken,
+    emptyStrings,
+    classify: (value) => {
+      if (value === null || value === undefined) return 'null';
+      if (typeof value === 'number') return sentinelNumbers.has(value) ? 'sentinel' : null;
+      if (typeof value === 'boolean') return null;
+      if (value.length > longestToken && value.charCodeAt(0) > 32 && value.charCodeAt(value.length - 1) > 32) return null;
+      const text = value.trim();
+      if (text === '') return emptyStrings === 'null' ? 'null' : 'empty';
+      if (text.length > longestToken) return null;
+      // Typed sources (Parquet) skip text parsing, so null tokens are checked here too
+      if (isNullToken(text)) return 'null';
+      return sentinelText.has(text.toLowerCase()) ? 'sentinel' : null;
+    },
+  };
+}
+
+/**
+ * Split a comma-separated list typed into a form field
+ */
+export function parseTokenList(text: string): string[] {
+  return text.split(',').map(t => t.trim()).filter(t => t.length > 0);
+}
+
+/**
+ * Short breakdown such as "3 nulls, 2 empty strings, 1 sentinel"
+ */
+export function describeMissingCounts(counts: MissingValueCounts): string {
+  const parts: string[] = [];
+  if (counts.nulls > 0) parts.push(`${counts.nulls} null${counts.nulls === 1 ? '' : 's'}`);
+  if (counts.emptyStrings > 0) parts.push(`${counts.emptyStrings} empty string${counts.emptyStrings === 1 ? '' : 's'}`);
+  if (counts.sentinels > 0) parts.push(`${counts.sentinels} sentinel${counts.sentinels === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
+
+/**
+ * Parse "column: value, value" lines into per-column sentinel rules
+ */
+export function parseColumnSentinels(text: string): Record<string, MissingValueRules> {
+  const columns: Record<string, MissingValueRules> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const column = line.substring(0, separator).trim();
+    const sentinels = parseTokenList(line.substring(separator + 1));
+    if (column && sentinels.length > 0) columns[column] = { sentinels };
+  }
+  return columns;
+}
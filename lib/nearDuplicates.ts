@@ -0,0 +1,264 @@
+/**
+ * Near-Duplicate Detection
+ * Finds rows that repeat an earlier row once formatting is set aside:
+ * whitespace, letter case, timestamp seconds and trailing zeros.
+ *
+ * Every row gets a normalized key; rows sharing a key form a cluster.
+ * With blocking columns configured, rows whose keys differ are also
+ * compared by string similarity against earlier rows with the same
+ * blocking values, so "Acme Corp" and "Acme Corp." can land in one
+ * cluster. Keys are kept as hashes; the few earlier rows kept for
+ * similarity comparisons live only in memory and never reach the report.
+ */
+
+import { createDateParser, type DateOrder, type DateParser } from './dateParsing';
+import type { ColumnSchema, ParsedRow } from './dqiEngine';
+import { columnMissingRules, type ColumnMissingRules, type MissingValueConfig } from './missingValues';
+import { hashString } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type TimePrecision = 'second' | 'minute' | 'hour' | 'day';
+
+export interface NearDuplicateOptions {
+  enabled?: boolean; // Default true
+  ignoreColumns?: string[]; // Left out of comparisons, e.g. surrogate ids assigned on every load
+  blockingColumns?: string[]; // Fuzzy matching compares rows only within equal values of these; none means no fuzzy matching
+  similarityThreshold?: number; // 0-1 average per-field similarity for a fuzzy match (default 0.9)
+  timePrecision?: TimePrecision; // Timestamps are truncated to this before comparing (default minute)
+}
+
+export interface NearDuplicateConfig {
+  enabled: boolean;
+  columns: string[]; // Columns compared, blocking columns included
+  blockingColumns: string[];
+  similarityThreshold: number;
+  timePrecision: TimePrecision;
+  missingColumns?: string[]; // Configured columns the file does not have
+}
+
+export interface ClusterSizeBucket {
+  size: string; // "2", "3", "4-5", "6-10" or "11+"
+  clusters: number;
+}
+
+export interface NearDuplicateSummary {
+  clusters: number; // Groups of two or more rows that duplicate each other
+  rowsInClusters: number;
+  redundantRows: number; // Rows beyond the first in each cluster
+  exactDuplicateRows: number; // Byte-identical repeats, counted while profiling
+  nearDuplicateRows: number; // Redundant rows that are not byte-identical repeats
+  fuzzyMatches: number; // Rows joined to a cluster by similarity rather than an equal key
+  largestCluster: number;
+  sizeDistribution: ClusterSizeBucket[];
+  approximate?: boolean; // Key or comparison limits were reached; counts are lower bounds
+}
+
+export interface NearDuplicateDetector {
+  observe: (row: ParsedRow) => void;
+  finish: (exactDuplicateRows: number) => NearDuplicateSummary;
+}
+
+const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+const DEFAULT_TIME_PRECISION: TimePrecision = 'minute';
+const KEY_LIMIT = 500_000; // Distinct normalized keys tracked before new ones are ignored
+const REPRESENTATIVE_LIMIT = 20_000; // Rows kept in memory for similarity comparisons
+const BLOCK_CANDIDATES = 25; // Earlier rows per block a row is compared with
+const COMPARE_LENGTH = 64; // Characters of each value used for similarity
+
+const TIME_PRECISION_LENGTH: Record<TimePrecision, number> = { second: 19, minute: 16, hour: 13, day: 10 };
+const SIZE_BUCKETS: { size: string; min: number; max: number }[] = [
+  { size: '2', min: 2, max: 2 },
+  { size: '3', min: 3, max: 3 },
+  { size: '4-5', min: 4, max: 5 },
+  { size: '6-10', min: 6, max: 10 },
+  { size: '11+', min: 11, max: Infinity },
+];
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Settle which columns are compared. Columns named in the options but
+ * missing from the file are reported rather than failing the analysis.
+ */
+export function resolveNearDuplicateConfig(options: NearDuplicateOptions | undefined, headers: string[]): NearDuplicateConfig {
+  const threshold = options?.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  if (!(threshold > 0 && threshold <= 1)) {
+    throw new Error(`Near-duplicate similarity threshold must be above 0 and at most 1, got ${threshold}`);
+  }
+  const named = [...(options?.ignoreColumns ?? []), ...(options?.blockingColumns ?? [])];
+  const missingColumns = named.filter(c => !headers.includes(c));
+  const ignore = new Set(options?.ignoreColumns ?? []);
+
+  return {
+    enabled: options?.enabled ?? true,
+    columns: headers.filter(h => !ignore.has(h)),
+    blockingColumns: (options?.blockingColumns ?? []).filter(c => headers.includes(c) && !ignore.has(c)),
+    similarityThreshold: threshold,
+    timePrecision: options?.timePrecision ?? DEFAULT_TIME_PRECISION,
+    missingColumns: missingColumns.length > 0 ? missingColumns : undefined,
+  };
+}
+
+// ============================================================================
+// NORMALIZATION & SIMILARITY
+// ============================================================================
+
+const NUMERIC_TEXT = /^[-+]?(\d+\.?\d*|\.\d+)$/;
+
+interface ColumnNormalizer {
+  name: string;
+  rules: ColumnMissingRules;
+  parseDate: DateParser | null; // Set for date columns
+}
+
+function normalizeValue(value: ParsedRow[string], column: ColumnNormalizer, timeLength: number): string {
+  if (value === null || value === undefined || column.rules.classify(value)) return '\u0000';
+  if (typeof value !== 'string') return String(value);
+  const text = value.trim().replace(/\s+/g, ' ');
+  if (column.parseDate) {
+    const date = column.parseDate(text);
+    if (date) return date.toISOString().slice(0, timeLength);
+  }
+  // "10.50" and "10.5" are the same amount
+  if (NUMERIC_TEXT.test(text)) return String(Number(text));
+  return text.toLowerCase();
+}
+
+/**
+ * 1 minus the edit distance over the longer length
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Cluster rows by normalized key and, within blocks, by similarity.
+ * Rows past the key limit are left unclustered and the summary is marked
+ * approximate.
+ */
+export function createNearDuplicateDetector(
+  config: NearDuplicateConfig,
+  schema: ColumnSchema[],
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder
+): NearDuplicateDetector {
+  const timeLength = TIME_PRECISION_LENGTH[config.timePrecision];
+  const normalizer = (name: string): ColumnNormalizer => {
+    const col = schema.find(c => c.name === name);
+    return {
+      name,
+      rules: columnMissingRules(missingValues, name),
+      parseDate: col?.dateFormat ? createDateParser(col.dateFormat, dateOrder) : null,
+    };
+  };
+  const blocking = config.blockingColumns.map(normalizer);
+  const compared = config.columns.filter(c => !config.blockingColumns.includes(c)).map(normalizer);
+  const fuzzy = blocking.length > 0 && compared.length > 0;
+
+  const keyClusters = new Map<number, number>(); // Normalized key hash to cluster id
+  const clusterSizes: number[] = [];
+  const blocks = new Map<number, { fields: string[]; cluster: number }[]>();
+  let representatives = 0;
+  let fuzzyMatches = 0;
+  let approximate = false;
+
+  const findSimilar = (candidates: { fields: string[]; cluster: number }[], fields: string[]): number | null => {
+    // A candidate is dropped as soon as the remaining fields cannot lift its average to the threshold
+    const allowedLoss = (1 - config.similarityThreshold) * fields.length;
+    for (const candidate of candidates) {
+      let loss = 0;
+      for (let i = 0; i < fields.length && loss <= allowedLoss; i++) {
+        loss += 1 - similarity(fields[i], candidate.fields[i]);
+      }
+      if (loss <= allowedLoss) return candidate.cluster;
+    }
+    return null;
+  };
+
+  return {
+    observe: (row) => {
+      const blockValues = blocking.map(c => normalizeValue(row[c.name], c, timeLength));
+      const fields = compared.map(c => normalizeValue(row[c.name], c, timeLength));
+      const key = hashString([...blockValues, ...fields].join('\u0001'));
+
+      const known = keyClusters.get(key);
+      if (known !== undefined) {
+        clusterSizes[known]++;
+        return;
+      }
+      if (keyClusters.size >= KEY_LIMIT) {
+        approximate = true;
+        return;
+      }
+
+      let cluster: number | null = null;
+      const block = fuzzy ? hashString(blockValues.join('\u0001')) : 0;
+      if (fuzzy) {
+        const shortened = fields.map(f => f.slice(0, COMPARE_LENGTH));
+        const candidates = blocks.get(block);
+        if (candidates) cluster = findSimilar(candidates, shortened);
+        if (cluster !== null) {
+          fuzzyMatches++;
+          clusterSizes[cluster]++;
+        } else if (representatives < REPRESENTATIVE_LIMIT) {
+          cluster = clusterSizes.push(1) - 1;
+          if (!candidates || candidates.length < BLOCK_CANDIDATES) {
+            if (candidates) candidates.push({ fields: shortened, cluster });
+            else blocks.set(block, [{ fields: shortened, cluster }]);
+            representatives++;
+          }
+        } else {
+          approximate = true;
+        }
+      }
+      if (cluster === null) cluster = clusterSizes.push(1) - 1;
+      keyClusters.set(key, cluster);
+    },
+    finish: (exactDuplicateRows) => {
+      let clusters = 0;
+      let rowsInClusters = 0;
+      let largestCluster = 0;
+      const sizeDistribution = SIZE_BUCKETS.map(bucket => ({ size: bucket.size, clusters: 0 }));
+      for (const size of clusterSizes) {
+        if (size < 2) continue;
+        clusters++;
+        rowsInClusters += size;
+        largestCluster = Math.max(largestCluster, size);
+        sizeDistribution[SIZE_BUCKETS.findIndex(b => size >= b.min && size <= b.max)].clusters++;
+      }
+      const redundantRows = rowsInClusters - clusters;
+      return {
+        clusters,
+        rowsInClusters,
+        redundantRows,
+        exactDuplicateRows,
+        nearDuplicateRows: Math.max(0, redundantRows - exactDuplicateRows),
+        fuzzyMatches,
+        largestCluster,
+        sizeDistribution,
+        approximate: approximate || undefined,
+      };
+    },
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * Locale-Aware Number Parsing
+ * Reads amounts written for people rather than machines: European
+ * separators (1.234,56), accounting negatives ((45.00)), percentages and
+ * currency symbols or ISO codes on either side of the number.
+ *
+ * The decimal and thousands separators are configured or detected once
+ * per file, since "1,234" means different things in different locales.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface NumberFormat {
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: ',' | '.' | ' ' | "'" | ''; // '' when digits are not grouped; ' ' also matches non-breaking spaces
+}
+
+export interface NumberFormatInfo extends NumberFormat {
+  source: 'configured' | 'detected' | 'default';
+}
+
+export interface ParsedNumber {
+  value: number;
+  currency?: string; // Symbol or ISO code as written, e.g. "€" or "EUR"
+  percent: boolean;
+}
+
+export interface CurrencyInfo {
+  marker: string; // Most common symbol or code in the column
+  code?: string; // ISO 4217 code when the marker identifies one currency
+  coverage: number; // 0-1 share of numeric values that carried a marker
+  otherMarkers: string[]; // Other symbols or codes seen in the same column
+}
+
+/**
+ * Parses numbers for the columns of one scan and tallies the currency
+ * markers seen in each
+ */
+export interface NumberTracker {
+  parse: (column: number, text: string) => number | null;
+  currencies: (headers: string[]) => Record<string, CurrencyInfo>;
+}
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { decimalSeparator: '.', thousandsSeparator: ',' };
+
+// Symbols shared by several currencies ($, ¥) are kept without a code
+export const CURRENCY_SYMBOLS: Record<string, string | undefined> = {
+  '$': undefined,
+  'R$': 'BRL',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': undefined,
+  '₹': 'INR',
+  '₩': 'KRW',
+  '₽': 'RUB',
+  '₺': 'TRY',
+};
+
+export const CURRENCY_CODES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR', 'CHF', 'CAD', 'AUD', 'NZD', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK',
+  'HUF', 'BRL', 'MXN', 'ZAR', 'SGD', 'HKD', 'KRW', 'TRY', 'RUB', 'AED', 'SAR', 'THB', 'MYR', 'IDR', 'PHP',
+]);
+
+const FORMAT_SAMPLE_SIZE = 2000; // Cells examined when detecting separators
+const MAX_NUMBER_LENGTH = 64; // Longer text is never a number; also bounds regex backtracking
+
+const SYMBOL_PATTERN = 'R\\$|[$€£¥₹₩₽₺]';
+// (  sign  prefix-currency  sign  digits  %  suffix-currency  trailing-minus  )
+const NUMBER_SHAPE = new RegExp(
+  `^(\\()?\\s*([-+])?\\s*(${SYMBOL_PATTERN}|[A-Z]{3}(?=[\\s\\d.,]))?\\s*([-+])?\\s*` +
+  `([\\d.,'\\s\\u00a0\\u202f]*\\d(?:[eE][-+]?\\d+)?)\\s*(%)?\\s*(${SYMBOL_PATTERN}|[A-Z]{3})?\\s*(-)?\\s*(\\))?$`
+);
+const PLAIN_INTEGER = /^-?\d+$/;
+const PLAIN_DECIMAL = /^-?\d+\.\d+$/;
+const SPACE_SEPARATORS = /\s/g; // Includes the non-breaking spaces used by fr-FR
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Strip grouping and convert the decimal separator; null when the digits
+ * do not fit the format (e.g. "1,5" under US formatting)
+ */
+function normalizeDigits(core: string, format: NumberFormat): string | null {
+  if (/[eE]/.test(core)) {
+    return format.decimalSeparator === '.' && /^\d+(\.\d+)?[eE][-+]?\d+$/.test(core) ? core : null;
+  }
+
+  const parts = core.split(format.decimalSeparator);
+  if (parts.length > 2) return null;
+  const [integerPart, fraction] = parts;
+  if (fraction !== undefined && !/^\d+$/.test(fraction)) return null;
+
+  let digits = integerPart;
+  const grouping = format.thousandsSeparator === ' ' ? SPACE_SEPARATORS : format.thousandsSeparator;
+  if (grouping && (typeof grouping === 'string' ? digits.includes(grouping) : digits.search(grouping) >= 0)) {
+    const groups = digits.split(grouping);
+    if (!/^\d{1,3}$/.test(groups[0]) || groups.slice(1).some(g => !/^\d{3}$/.test(g))) return null;
+    digits = groups.join('');
+  }
+
+  if (!/^\d*$/.test(digits) || (digits === '' && fraction === undefined)) return null;
+  // Leading zeros mark codes (postcodes, account numbers), not quantities
+  if (/^0\d/.test(digits)) return null;
+  return fraction !== undefined ? `${digits || '0'}.${fraction}` : digits;
+}
+
+/**
+ * Cheap check that rules out most words before the full pattern runs
+ */
+function couldBeNumber(text: string): boolean {
+  const first = text.charCodeAt(0);
+  if (first >= 97 && first <= 122) return false; // Lower-case letter
+  // Upper-case letters only start a number as a currency code: "EUR 12"
+  if (first >= 65 && first <= 90) return /^[A-Z]{3}[\s\d.,]/.test(text);
+  return true;
+}
+
+function isCurrencyMarker(marker: string): boolean {
+  return marker in CURRENCY_SYMBOLS || CURRENCY_CODES.has(marker);
+}
+
+/**
+ * Parse a formatted number; null when the text is not a number
+ */
+export function parseLocaleNumber(raw: string, format: NumberFormat): ParsedNumber | null {
+  const text = raw.trim();
+
+  // Fast path for the common unformatted case
+  if (PLAIN_INTEGER.test(text) || (format.decimalSeparator === '.' && PLAIN_DECIMAL.test(text))) {
+    return /^-?0\d/.test(text) ? null : { value: Number(text), percent: false };
+  }
+
+  if (text.length > MAX_NUMBER_LENGTH || !couldBeNumber(text)) return null;
+  const match = NUMBER_SHAPE.exec(text);
+  if (!match) return null;
+  const [, open, sign, prefix, innerSign, core, percent, suffix, trailingMinus, close] = match;
+
+  if (!!open !== !!close) return null;
+  if (prefix && suffix) return null;
+  const currency = prefix ?? suffix;
+  if (currency && !isCurrencyMarker(currency)) return null;
+  if (currency && percent) return null;
+
+  const signs = [open && '-', sign, innerSign, trailingMinus].filter(Boolean);
+  if (signs.length > 1) return null;
+
+  const digits = normalizeDigits(core.trim(), format);
+  if (digits === null) return null;
+
+  const value = Number(digits);
+  if (!isFinite(value)) return null;
+  return {
+    value: signs[0] === '-' ? -value : value,
+    currency,
+    percent: !!percent,
+  };
+}
+
+/**
+ * Create a per-scan parser that also records which currency markers each
+ * column used
+ */
+export function createNumberTracker(format: NumberFormat, columnCount: number): NumberTracker {
+  const numericCounts = new Array<number>(columnCount).fill(0);
+  const markers = Array.from({ length: columnCount }, () => new Map<string, number>());
+
+  return {
+    parse: (column, text) => {
+      const parsed = parseLocaleNumber(text, format);
+      if (!parsed) return null;
+      numericCounts[column]++;
+      if (parsed.currency) {
+        markers[column].set(parsed.currency, (markers[column].get(parsed.currency) || 0) + 1);
+      }
+      return parsed.value;
+    },
+    currencies: (headers) => {
+      const result: Record<string, CurrencyInfo> = {};
+      headers.forEach((header, idx) => {
+        if (markers[idx].size === 0) return;
+        const ranked = Array.from(markers[idx]).sort((a, b) => b[1] - a[1]);
+        const marked = ranked.reduce((sum, [, count]) => sum + count, 0);
+        const [marker] = ranked[0];
+        result[header] = {
+          marker,
+          code: CURRENCY_CODES.has(marker) ? marker : CURRENCY_SYMBOLS[marker],
+          coverage: Math.round((marked / Math.max(numericCounts[idx], 1)) * 100) / 100,
+          otherMarkers: ranked.slice(1).map(([other]) => other),
+        };
+      });
+      return result;
+    },
+  };
+}
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Guess the separators from values that can only be read one way: both
+ * separators with valid grouping ("1.234,56"), a repeated group separator
+ * ("1,234,567") or a single separator not followed by exactly three digits
+ * ("12,5")
+ */
+export function detectNumberFormat(values: string[]): NumberFormat | null {
+  let commaDecimal = 0;
+  let dotDecimal = 0;
+  const thousands = new Map<NumberFormat['thousandsSeparator'], number>();
+  const vote = (decimal: '.' | ',', grouping?: NumberFormat['thousandsSeparator']) => {
+    if (decimal === ',') commaDecimal++;
+    else dotDecimal++;
+    if (grouping) thousands.set(grouping, (thousands.get(grouping) || 0) + 1);
+  };
+
+  for (const raw of values.slice(0, FORMAT_SAMPLE_SIZE)) {
+    const text = raw.trim();
+    if (text.length > MAX_NUMBER_LENGTH) continue;
+    const match = NUMBER_SHAPE.exec(text);
+    if (!match) continue;
+    const core = match[5].trim();
+    const spaced = /\s/.test(core) ? ' ' : core.includes("'") ? "'" : undefined;
+    const compact = core.replace(/[\s']/g, '');
+
+    if (/^\d{1,3}(\.\d{3})+,\d+$/.test(compact)) vote(',', '.');
+    else if (/^\d{1,3}(,\d{3})+\.\d+$/.test(compact)) vote('.', ',');
+    else if (/^\d{1,3}(\.\d{3}){2,}$/.test(compact)) vote(',', '.');
+    else if (/^\d{1,3}(,\d{3}){2,}$/.test(compact)) vote('.', ',');
+    else if (/^\d+,(\d{1,2}|\d{4,})$/.test(compact)) vote(',', spaced);
+    else if (/^\d+\.(\d{1,2}|\d{4,})$/.test(compact)) vote('.', spaced);
+  }
+
+  if (commaDecimal === 0 && dotDecimal === 0) return null;
+  const decimalSeparator = commaDecimal > dotDecimal ? ',' : '.';
+  const candidates = Array.from(thousands)
+    .filter(([grouping]) => grouping !== decimalSeparator)
+    .sort((a, b) => b[1] - a[1]);
+  return {
+    decimalSeparator,
+    thousandsSeparator: candidates[0]?.[0] ?? (decimalSeparator === ',' ? '.' : ','),
+  };
+}
+
+/**
+ * Merge user settings over the detected format; a configured decimal
+ * separator without a thousands separator implies the usual pairing
+ */
+export function resolveNumberFormat(overrides: Partial<NumberFormat> | undefined, samples: string[]): NumberFormatInfo {
+  if (overrides?.decimalSeparator !== undefined || overrides?.thousandsSeparator !== undefined) {
+    const decimalSeparator = overrides.decimalSeparator
+      ?? (overrides.thousandsSeparator === '.' ? ',' : '.');
+    const thousandsSeparator = overrides.thousandsSeparator
+      ?? (decimalSeparator === ',' ? '.' : ',');
+    return { decimalSeparator, thousandsSeparator, source: 'configured' };
+  }
+
+  const detected = detectNumberFormat(samples);
+  return detected
+    ? { ...detected, source: 'detected' }
+    : { ...DEFAULT_NUMBER_FORMAT, source: 'default' };
+}
+
+/**
+ * One-line description for display, e.g. "1.234,56 (detected)"
+ */
+export function describeNumberFormat(format: NumberFormatInfo): string {
+  const grouping = format.thousandsSeparator === '' ? '' : format.thousandsSeparator;
+  return `1${grouping}234${format.decimalSeparator}56 (${format.source})`;
+}
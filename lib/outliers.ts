@@ -0,0 +1,199 @@
+/**
+ * Outlier Detection
+ * Fences that decide which numeric values are outliers, chosen per
+ * column. Mean ± 3σ suits roughly normal data but is dragged out by the
+ * long right tail of payment amounts, so robust alternatives are offered:
+ *
+ *   stddev      mean ± k·σ (k = 3)
+ *   iqr         Q1 - k·IQR to Q3 + k·IQR (k = 1.5)
+ *   mad         median ± k·1.4826·MAD (k = 3.5)
+ *   log-zscore  mean ± k·σ of sign(x)·ln(1 + |x|) (k = 3), mapped back
+ *   percentile  outside the lower and upper percentiles (1 and 99)
+ *
+ * Quantile-based fences come from the profiling sample of each column.
+ * The fences are stored in the column's statistics and the scoring scan
+ * counts values outside them once, for both validity and the anomaly count.
+ */
+
+import { medianOf, quantile } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type OutlierMethod = 'stddev' | 'iqr' | 'mad' | 'log-zscore' | 'percentile';
+
+export interface OutlierMethodSpec {
+  method: OutlierMethod;
+  k?: number; // Fence multiplier for stddev, iqr, mad and log-zscore
+  lowerPercentile?: number; // 0-100, percentile method only (default 1)
+  upperPercentile?: number; // 0-100, percentile method only (default 99)
+}
+
+export interface OutlierOptions {
+  default?: OutlierMethodSpec; // Numeric columns without their own entry (default stddev, k = 3)
+  columns?: Record<string, OutlierMethodSpec>;
+}
+
+export interface OutlierBounds {
+  method: OutlierMethod;
+  lower: number; // Values below are outliers
+  upper: number; // Values above are outliers
+  k?: number;
+  lowerPercentile?: number;
+  upperPercentile?: number;
+  sampled?: boolean; // Fences taken from a sample of the column rather than every value
+  count?: number; // Values outside the fences, filled in by the scoring scan
+}
+
+export const OUTLIER_METHODS: Record<OutlierMethod, string> = {
+  stddev: 'Mean ± k standard deviations',
+  iqr: 'Interquartile range fences',
+  mad: 'Median absolute deviation',
+  'log-zscore': 'Log-transformed z-score',
+  percentile: 'Percentile caps',
+};
+
+const DEFAULT_K: Record<Exclude<OutlierMethod, 'percentile'>, number> = {
+  stddev: 3,
+  iqr: 1.5,
+  mad: 3.5,
+  'log-zscore': 3,
+};
+const DEFAULT_PERCENTILES = { lower: 1, upper: 99 };
+const MAD_SCALE = 1.4826; // Makes the MAD comparable to σ for normal data
+
+export const DEFAULT_OUTLIER_SPEC: OutlierMethodSpec = { method: 'stddev' };
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+function validateSpec(spec: OutlierMethodSpec, where: string): OutlierMethodSpec {
+  if (!Object.keys(OUTLIER_METHODS).includes(spec.method)) {
+    throw new Error(`Unknown outlier method '${spec.method}' for ${where}; use ${Object.keys(OUTLIER_METHODS).join(', ')}`);
+  }
+  if (spec.k !== undefined && !(spec.k > 0)) {
+    throw new Error(`Outlier multiplier for ${where} must be above 0, got ${spec.k}`);
+  }
+  const lower = spec.lowerPercentile ?? DEFAULT_PERCENTILES.lower;
+  const upper = spec.upperPercentile ?? DEFAULT_PERCENTILES.upper;
+  if (spec.method === 'percentile' && !(lower >= 0 && lower < upper && upper <= 100)) {
+    throw new Error(`Outlier percentiles for ${where} must satisfy 0 ≤ lower < upper ≤ 100, got ${lower} and ${upper}`);
+  }
+  return spec;
+}
+
+/**
+ * Method for each column. Bad settings fail before any reading starts;
+ * columns the file turns out not to have are reported by validity.
+ */
+export function resolveOutlierSpecs(options: OutlierOptions | undefined): (column: string) => OutlierMethodSpec {
+  const fallback = validateSpec(options?.default ?? DEFAULT_OUTLIER_SPEC, 'the default');
+  const columns = options?.columns ?? {};
+  for (const [column, spec] of Object.entries(columns)) validateSpec(spec, `column '${column}'`);
+  return (column) => (Object.prototype.hasOwnProperty.call(columns, column) ? columns[column] : fallback);
+}
+
+/**
+ * Parse "column: method [k]" or "column: percentile lower upper" lines
+ * typed into a form field
+ */
+export function parseOutlierColumns(text: string): Record<string, OutlierMethodSpec> {
+  const columns: Record<string, OutlierMethodSpec> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const column = line.substring(0, separator).trim();
+    const [method, ...numbers] = line.substring(separator + 1).trim().split(/\s+/);
+    if (!column || !method) continue;
+    const values = numbers.map(Number);
+    columns[column] = method === 'percentile'
+      ? { method, lowerPercentile: values[0], upperPercentile: values[1] }
+      : { method: method as OutlierMethod, k: values[0] };
+  }
+  return columns;
+}
+
+// ============================================================================
+// FENCES
+// ============================================================================
+
+const toLog = (x: number) => Math.sign(x) * Math.log1p(Math.abs(x));
+const fromLog = (t: number) => Math.sign(t) * Math.expm1(Math.abs(t));
+const round = (x: number) => Math.round(x * 100) / 100;
+
+/**
+ * Fences for one column, or null when its values do not spread enough to
+ * set any (a constant column, or a zero IQR or MAD)
+ *
+ * @param stats Mean and σ as reported, so the stddev fences match the statistics shown
+ * @param sorted Ascending sample of the column's values
+ */
+export function computeOutlierBounds(
+  spec: OutlierMethodSpec,
+  stats: { mean: number; stdDev: number },
+  sorted: number[],
+  sampled: boolean
+): OutlierBounds | null {
+  if (sorted.length === 0) return null;
+
+  if (spec.method === 'percentile') {
+    const lowerPercentile = spec.lowerPercentile ?? DEFAULT_PERCENTILES.lower;
+    const upperPercentile = spec.upperPercentile ?? DEFAULT_PERCENTILES.upper;
+    const lower = quantile(sorted, lowerPercentile / 100);
+    const upper = quantile(sorted, upperPercentile / 100);
+    if (upper <= lower) return null;
+    return { method: 'percentile', lower: round(lower), upper: round(upper), lowerPercentile, upperPercentile, sampled: sampled || undefined };
+  }
+
+  const k = spec.k ?? DEFAULT_K[spec.method];
+  let lower: number;
+  let upper: number;
+  switch (spec.method) {
+    case 'stddev':
+      if (stats.stdDev <= 0) return null;
+      // Taken from every value, not the sample
+      return { method: 'stddev', lower: stats.mean - k * stats.stdDev, upper: stats.mean + k * stats.stdDev, k };
+    case 'iqr': {
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      if (q3 <= q1) return null;
+      lower = q1 - k * (q3 - q1);
+      upper = q3 + k * (q3 - q1);
+      break;
+    }
+    case 'mad': {
+      const median = medianOf(sorted);
+      const mad = medianOf(sorted.map(v => Math.abs(v - median)).sort((a, b) => a - b)) * MAD_SCALE;
+      if (mad <= 0) return null;
+      lower = median - k * mad;
+      upper = median + k * mad;
+      break;
+    }
+    case 'log-zscore': {
+      const logs = sorted.map(toLog);
+      const mean = logs.reduce((sum, v) => sum + v, 0) / logs.length;
+      const sd = Math.sqrt(logs.reduce((sum, v) => sum + (v - mean) ** 2, 0) / logs.length);
+      if (sd <= 0) return null;
+      lower = fromLog(mean - k * sd);
+      upper = fromLog(mean + k * sd);
+      break;
+    }
+  }
+  return { method: spec.method, lower: round(lower), upper: round(upper), k, sampled: sampled || undefined };
+}
+
+/**
+ * Short description such as "IQR fences (k = 1.5): -12.5 to 310.75"
+ */
+export function describeOutlierBounds(bounds: OutlierBounds): string {
+  const range = `${round(bounds.lower)} to ${round(bounds.upper)}`;
+  switch (bounds.method) {
+    case 'stddev': return `${bounds.k}σ from the mean: ${range}`;
+    case 'iqr': return `IQR fences (k = ${bounds.k}): ${range}`;
+    case 'mad': return `MAD fences (k = ${bounds.k}): ${range}`;
+    case 'log-zscore': return `log z-score fences (k = ${bounds.k}): ${range}`;
+    case 'percentile': return `percentiles ${bounds.lowerPercentile} to ${bounds.upperPercentile}: ${range}`;
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Parquet File Reader
+ * Reads Parquet files locally in the browser (no upload) and exposes the
+ * declared schema and row-group statistics alongside the row data.
+ *
+ * Declared physical/logical types are mapped to DQI column types so that
+ * type inference does not have to guess from string patterns.
+ */
+
+import type { ColumnChunk, FileMetaData, SchemaElement, Statistics } from 'hyparquet';
+import { flattenRecords, type JSONCellValue, type JSONFieldPath } from './jsonReader';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type ParquetDeclaredType = 'string' | 'number' | 'date' | 'boolean' | 'identifier';
+
+export interface ParquetColumnInfo {
+  name: string; // Dotted path for nested fields
+  physicalType: string; // BOOLEAN, INT32, INT64, INT96, FLOAT, DOUBLE, BYTE_ARRAY, FIXED_LEN_BYTE_ARRAY, or GROUP
+  logicalType?: string; // e.g. STRING, DATE, TIMESTAMP(MICROS, UTC), DECIMAL(12,2)
+  repetition?: string; // REQUIRED, OPTIONAL or REPEATED
+  declaredType?: ParquetDeclaredType; // DQI type seeded from the declaration
+}
+
+export interface ParquetColumnChunkStats {
+  column: string;
+  codec: string;
+  nullCount?: number;
+  distinctCount?: number;
+  min?: string | number | boolean;
+  max?: string | number | boolean;
+}
+
+export interface ParquetRowGroupStats {
+  index: number;
+  rows: number;
+  totalBytes: number;
+  compressedBytes?: number;
+  columns: ParquetColumnChunkStats[];
+}
+
+export interface ParquetInfo {
+  version: number;
+  createdBy?: string;
+  rows: number;
+  schema: ParquetColumnInfo[];
+  rowGroupCount: number;
+  rowGroups: ParquetRowGroupStats[]; // Capped at MAX_REPORTED_ROW_GROUPS
+}
+
+export interface ParquetTable {
+  headers: string[];
+  records: JSONCellValue[][];
+  declaredTypes: Record<string, ParquetDeclaredType>;
+  fieldPaths: Record<string, JSONFieldPath>;
+  info: ParquetInfo;
+}
+
+const MAX_REPORTED_ROW_GROUPS = 50;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a file should be read as Parquet
+ */
+export function isParquetFile(file: Pick<File, 'name'>): boolean {
+  return file.name.toLowerCase().endsWith('.parquet');
+}
+
+function describeLogicalType(element: SchemaElement): string | undefined {
+  const logical = element.logical_type;
+  if (logical) {
+    switch (logical.type) {
+      case 'DECIMAL': return `DECIMAL(${logical.precision},${logical.scale})`;
+      case 'TIMESTAMP': return `TIMESTAMP(${logical.unit}${logical.isAdjustedToUTC ? ', UTC' : ''})`;
+      case 'TIME': return `TIME(${logical.unit}${logical.isAdjustedToUTC ? ', UTC' : ''})`;
+      case 'INTEGER': return `INTEGER(${logical.bitWidth}, ${logical.isSigned ? 'signed' : 'unsigned'})`;
+      default: return logical.type;
+    }
+  }
+  return element.converted_type;
+}
+
+/**
+ * Map a declared Parquet type to the DQI column type
+ */
+function mapDeclaredType(element: SchemaElement): ParquetDeclaredType | undefined {
+  const logical = element.logical_type?.type;
+  const converted = element.converted_type;
+
+  if (logical === 'DATE' || logical === 'TIMESTAMP' || converted === 'DATE' ||
+      converted === 'TIMESTAMP_MILLIS' || converted === 'TIMESTAMP_MICROS' || element.type === 'INT96') {
+    return 'date';
+  }
+  if (logical === 'UUID') return 'identifier';
+  if (logical === 'STRING' || logical === 'ENUM' || logical === 'JSON' || logical === 'TIME' ||
+      converted === 'UTF8' || converted === 'ENUM' || converted === 'JSON' ||
+      converted === 'TIME_MILLIS' || converted === 'TIME_MICROS') {
+    return 'string';
+  }
+  if (logical === 'DECIMAL' || converted === 'DECIMAL') return 'number';
+
+  switch (element.type) {
+    case 'BOOLEAN': return 'boolean';
+    case 'INT32':
+    case 'INT64':
+    case 'FLOAT':
+    case 'DOUBLE': return 'number';
+    case 'BYTE_ARRAY':
+    case 'FIXED_LEN_BYTE_ARRAY': return 'string';
+    default: return undefined;
+  }
+}
+
+function isDateOnly(element: SchemaElement | undefined): boolean {
+  return element?.logical_type?.type === 'DATE' || element?.converted_type === 'DATE';
+}
+
+/**
+ * Walk the flat, depth-first Parquet schema into dotted leaf/group columns
+ */
+function describeSchema(metadata: FileMetaData): { columns: ParquetColumnInfo[]; elements: Map<string, SchemaElement> } {
+  const columns: ParquetColumnInfo[] = [];
+  const elements = new Map<string, SchemaElement>();
+  let index = 1; // schema[0] is the root
+
+  const walk = (prefix: string, count: number) => {
+    for (let i = 0; i < count && index < metadata.schema.length; i++) {
+      const element = metadata.schema[index++];
+      const name = prefix ? `${prefix}.${element.name}` : element.name;
+      elements.set(name, element);
+      const isGroup = (element.num_children ?? 0) > 0;
+      columns.push({
+        name,
+        physicalType: isGroup ? 'GROUP' : element.type ?? 'UNKNOWN',
+        logicalType: describeLogicalType(element),
+        repetition: element.repetition_type,
+        declaredType: isGroup ? undefined : mapDeclaredType(element),
+      });
+      // LIST/MAP groups are profiled by length, so their children are not columns
+      const logical = element.logical_type?.type ?? element.converted_type;
+      if (isGroup && logical !== 'LIST' && logical !== 'MAP') {
+        walk(name, element.num_children ?? 0);
+      } else if (isGroup) {
+        skip(element.num_children ?? 0);
+      }
+    }
+  };
+  const skip = (count: number) => {
+    for (let i = 0; i < count && index < metadata.schema.length; i++) {
+      skip(metadata.schema[index++].num_children ?? 0);
+    }
+  };
+
+  walk('', metadata.schema[0]?.num_children ?? 0);
+  return { columns, elements };
+}
+
+function toSafeNumber(value: bigint): number | string {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
+
+function formatStatistic(value: Statistics['min'], element: SchemaElement | undefined): string | number | boolean | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'bigint') return toSafeNumber(value);
+  if (value instanceof Date) return isDateOnly(element) ? value.toISOString().substring(0, 10) : value.toISOString();
+  if (value instanceof Uint8Array) return `${value.length} bytes`;
+  return value;
+}
+
+function describeRowGroups(metadata: FileMetaData, elements: Map<string, SchemaElement>): ParquetRowGroupStats[] {
+  return metadata.row_groups.slice(0, MAX_REPORTED_ROW_GROUPS).map((group, index) => ({
+    index,
+    rows: Number(group.num_rows),
+    totalBytes: Number(group.total_byte_size),
+    compressedBytes: group.total_compressed_size !== undefined ? Number(group.total_compressed_size) : undefined,
+    columns: group.columns
+      .filter((chunk): chunk is ColumnChunk & { meta_data: NonNullable<ColumnChunk['meta_data']> } => !!chunk.meta_data)
+      .map(chunk => {
+        const column = chunk.meta_data.path_in_schema.join('.');
+        const stats = chunk.meta_data.statistics;
+        const element = elements.get(column);
+        return {
+          column,
+          codec: chunk.meta_data.codec,
+          nullCount: stats?.null_count !== undefined ? Number(stats.null_count) : undefined,
+          distinctCount: stats?.distinct_count !== undefined ? Number(stats.distinct_count) : undefined,
+          min: formatStatistic(stats?.min_value ?? stats?.min, element),
+          max: formatStatistic(stats?.max_value ?? stats?.max, element),
+        };
+      }),
+  }));
+}
+
+/**
+ * Convert decoded Parquet values (bigint, Date, bytes) into plain JSON values
+ */
+function normalizeValue(value: unknown, element: SchemaElement | undefined, path: string, elements: Map<string, SchemaElement>): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'bigint') return toSafeNumber(value);
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    return isDateOnly(element) ? value.toISOString().substring(0, 10) : value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return Array.from(value.subarray(0, 32), b => b.toString(16).padStart(2, '0')).join('');
+  }
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}.${key}`;
+      out[key] = normalizeValue(child, elements.get(childPath), childPath, elements);
+    }
+    return out;
+  }
+  return value;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Read a Parquet file into a flat table with its declared schema
+ */
+export async function readParquetTable(bytes: Uint8Array): Promise<ParquetTable> {
+  const [{ parquetMetadata, parquetReadObjects }, { compressors }] = await Promise.all([
+    import('hyparquet'),
+    import('hyparquet-compressors'),
+  ]);
+
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  const metadata = parquetMetadata(buffer);
+  const { columns, elements } = describeSchema(metadata);
+
+  const rawRows = await parquetReadObjects({ file: buffer, metadata, compressors });
+  const normalized = rawRows.map(row => {
+    const out: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row)) {
+      out[key] = normalizeValue(value, elements.get(key), key, elements);
+    }
+    return out;
+  });
+
+  const flat = flattenRecords(normalized, '$');
+  const declaredTypes: Record<string, ParquetDeclaredType> = {};
+  for (const column of columns) {
+    if (column.declaredType && flat.fieldPaths[column.name]?.kind === 'value') {
+      declaredTypes[column.name] = column.declaredType;
+    }
+  }
+
+  return {
+    headers: flat.headers,
+    records: flat.records,
+    declaredTypes,
+    fieldPaths: flat.fieldPaths,
+    info: {
+      version: metadata.version,
+      createdBy: metadata.created_by,
+      rows: Number(metadata.num_rows),
+      schema: columns,
+      rowGroupCount: metadata.row_groups.length,
+      rowGroups: describeRowGroups(metadata, elements),
+    },
+  };
+}
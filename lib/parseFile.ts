@@ -4,6 +4,7 @@
  */
 
 import type { APIResponse } from '../types/dqs';
+import { tokenizeCSV } from './csvParser';
 
 export interface ParsedDataset {
   fileName: string;
@@ -55,16 +56,16 @@ export interface DQMetrics {
  * Parse CSV text content into structured data
  */
 function parseCSV(content: string): Record<string, unknown>[] {
-  const lines = content.trim().split('\n');
-  if (lines.length === 0) return [];
+  const { records } = tokenizeCSV(content);
+  if (records.length === 0) return [];
 
   // Parse header
-  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
+  const headers = records[0].map(h => h.trim());
   
   const data: Record<string, unknown>[] = [];
   
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
+  for (let i = 1; i < records.length; i++) {
+    const values = records[i];
     if (values.length === headers.length) {
       const row: Record<string, unknown> = {};
       headers.forEach((header, idx) => {
@@ -77,36 +78,11 @@ function parseCSV(content: string): Record<string, unknown>[] {
   return data;
 }
 
-/**
- * Parse a single CSV line handling quoted values
- */
-function parseCSVLine(line: string): string[] {
-  const values: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      inQuotes = !inQuotes;
-    } else if (char === ',' && !inQuotes) {
-      values.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  values.push(current.trim());
-  
-  return values;
-}
-
 /**
  * Parse a string value to appropriate type
  */
 function parseValue(value: string): unknown {
-  const trimmed = value.trim().replace(/^"|"$/g, '');
+  const trimmed = value.trim();
   
   if (trimmed === '' || trimmed.toLowerCase() === 'null' || trimmed.toLowerCase() === 'na' || trimmed === '-') {
     return null;
@@ -0,0 +1,159 @@
+/**
+ * Reference Code Validators
+ * Offline checks that payment codes exist, not just that they look right:
+ * ISO 4217 currencies (with their minor units), ISO 3166-1 countries,
+ * merchant category code ranges and the Luhn check digit of card numbers.
+ * Card numbers are only checked and counted; the digits are never kept.
+ */
+
+// ============================================================================
+// REFERENCE DATA
+// ============================================================================
+
+// ISO 4217 active codes to minor units (digits after the decimal point);
+// null for funds and metals with no minor unit. XTS (testing) and XXX
+// (no currency) are deliberately left out.
+const ISO_4217: Record<string, number | null> = {
+  AED: 2, AFN: 2, ALL: 2, AMD: 2, ANG: 2, AOA: 2, ARS: 2, AUD: 2, AWG: 2, AZN: 2,
+  BAM: 2, BBD: 2, BDT: 2, BGN: 2, BHD: 3, BIF: 0, BMD: 2, BND: 2, BOB: 2, BOV: 2,
+  BRL: 2, BSD: 2, BTN: 2, BWP: 2, BYN: 2, BZD: 2, CAD: 2, CDF: 2, CHE: 2, CHF: 2,
+  CHW: 2, CLF: 4, CLP: 0, CNY: 2, COP: 2, COU: 2, CRC: 2, CUP: 2, CVE: 2, CZK: 2,
+  DJF: 0, DKK: 2, DOP: 2, DZD: 2, EGP: 2, ERN: 2, ETB: 2, EUR: 2, FJD: 2, FKP: 2,
+  GBP: 2, GEL: 2, GHS: 2, GIP: 2, GMD: 2, GNF: 0, GTQ: 2, GYD: 2, HKD: 2, HNL: 2,
+  HTG: 2, HUF: 2, IDR: 2, ILS: 2, INR: 2, IQD: 3, IRR: 2, ISK: 0, JMD: 2, JOD: 3,
+  JPY: 0, KES: 2, KGS: 2, KHR: 2, KMF: 0, KPW: 2, KRW: 0, KWD: 3, KYD: 2, KZT: 2,
+  LAK: 2, LBP: 2, LKR: 2, LRD: 2, LSL: 2, LYD: 3, MAD: 2, MDL: 2, MGA: 2, MKD: 2,
+  MMK: 2, MNT: 2, MOP: 2, MRU: 2, MUR: 2, MVR: 2, MWK: 2, MXN: 2, MXV: 2, MYR: 2,
+  MZN: 2, NAD: 2, NGN: 2, NIO: 2, NOK: 2, NPR: 2, NZD: 2, OMR: 3, PAB: 2, PEN: 2,
+  PGK: 2, PHP: 2, PKR: 2, PLN: 2, PYG: 0, QAR: 2, RON: 2, RSD: 2, RUB: 2, RWF: 0,
+  SAR: 2, SBD: 2, SCR: 2, SDG: 2, SEK: 2, SGD: 2, SHP: 2, SLE: 2, SLL: 2, SOS: 2,
+  SRD: 2, SSP: 2, STN: 2, SVC: 2, SYP: 2, SZL: 2, THB: 2, TJS: 2, TMT: 2, TND: 3,
+  TOP: 2, TRY: 2, TTD: 2, TWD: 2, TZS: 2, UAH: 2, UGX: 0, USD: 2, USN: 2, UYI: 0,
+  UYU: 2, UYW: 4, UZS: 2, VED: 2, VES: 2, VND: 0, VUV: 0, WST: 2, XAF: 0, XCD: 2,
+  XCG: 2, XOF: 0, XPF: 0, YER: 2, ZAR: 2, ZMW: 2, ZWG: 2, ZWL: 2,
+  XAG: null, XAU: null, XBA: null, XBB: null, XBC: null, XBD: null, XDR: null,
+  XPD: null, XPT: null, XSU: null, XUA: null,
+};
+
+const ISO_3166_ALPHA2 = new Set((
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS ' +
+  'BT BV BW BY BZ CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE ' +
+  'EG EH ER ES ET FI FJ FK FM FO FR GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM ' +
+  'HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC ' +
+  'LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT MU MV MW MX MY MZ NA ' +
+  'NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+  'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO ' +
+  'TR TT TV TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' '));
+
+const ISO_3166_ALPHA3 = new Set((
+  'ABW AFG AGO AIA ALA ALB AND ARE ARG ARM ASM ATA ATF ATG AUS AUT AZE BDI BEL BEN BES BFA BGD BGR ' +
+  'BHR BHS BIH BLM BLR BLZ BMU BOL BRA BRB BRN BTN BVT BWA CAF CAN CCK CHE CHL CHN CIV CMR COD COG ' +
+  'COK COL COM CPV CRI CUB CUW CXR CYM CYP CZE DEU DJI DMA DNK DOM DZA ECU EGY ERI ESH ESP EST ETH ' +
+  'FIN FJI FLK FRA FRO FSM GAB GBR GEO GGY GHA GIB GIN GLP GMB GNB GNQ GRC GRD GRL GTM GUF GUM GUY ' +
+  'HKG HMD HND HRV HTI HUN IDN IMN IND IOT IRL IRN IRQ ISL ISR ITA JAM JEY JOR JPN KAZ KEN KGZ KHM ' +
+  'KIR KNA KOR KWT LAO LBN LBR LBY LCA LIE LKA LSO LTU LUX LVA MAC MAF MAR MCO MDA MDG MDV MEX MHL ' +
+  'MKD MLI MLT MMR MNE MNG MNP MOZ MRT MSR MTQ MUS MWI MYS MYT NAM NCL NER NFK NGA NIC NIU NLD NOR ' +
+  'NPL NRU NZL OMN PAK PAN PCN PER PHL PLW PNG POL PRI PRK PRT PRY PSE PYF QAT REU ROU RUS RWA SAU ' +
+  'SDN SEN SGP SGS SHN SJM SLB SLE SLV SMR SOM SPM SRB SSD STP SUR SVK SVN SWE SWZ SXM SYC SYR TCA ' +
+  'TCD TGO THA TJK TKL TKM TLS TON TTO TUN TUR TUV TWN TZA UGA UKR UMI URY USA UZB VAT VCT VEN VGB ' +
+  'VIR VNM VUT WLF WSM YEM ZAF ZMB ZWE'
+).split(' '));
+
+// ISO 18245 merchant category code ranges
+const MCC_RANGES: { from: number; to: number; category: string }[] = [
+  { from: 1, to: 1499, category: 'Agricultural services' },
+  { from: 1500, to: 2999, category: 'Contracted services' },
+  { from: 3000, to: 3299, category: 'Airlines' },
+  { from: 3300, to: 3499, category: 'Car rental' },
+  { from: 3500, to: 3999, category: 'Lodging' },
+  { from: 4000, to: 4799, category: 'Transportation services' },
+  { from: 4800, to: 4999, category: 'Utility services' },
+  { from: 5000, to: 5599, category: 'Retail outlet services' },
+  { from: 5600, to: 5699, category: 'Clothing stores' },
+  { from: 5700, to: 7299, category: 'Miscellaneous stores' },
+  { from: 7300, to: 7999, category: 'Business services' },
+  { from: 8000, to: 8999, category: 'Professional services and membership organizations' },
+  { from: 9000, to: 9999, category: 'Government services' },
+];
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+export type CodeFormat = 'luhn' | 'iso4217' | 'iso3166' | 'mcc';
+
+export const CODE_FORMATS: Record<CodeFormat, string> = {
+  luhn: 'Luhn check digit',
+  iso4217: 'ISO 4217 currency code',
+  iso3166: 'ISO 3166-1 country code',
+  mcc: 'merchant category code',
+};
+
+/**
+ * Card-number shape (12-19 digits, spaces or dashes allowed) with a valid
+ * Luhn check digit
+ */
+export function passesLuhn(value: string | number): boolean {
+  const digits = String(value).replace(/[\s-]/g, '');
+  if (!/^\d{12,19}$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = digits.charCodeAt(digits.length - 1 - i) - 48;
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+export function isCurrencyCode(value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(ISO_4217, value.trim().toUpperCase());
+}
+
+/**
+ * Digits after the decimal point for a currency; undefined for unknown
+ * codes and for funds and metals without a minor unit
+ */
+export function currencyMinorUnits(code: string): number | undefined {
+  return ISO_4217[code.trim().toUpperCase()] ?? undefined;
+}
+
+/**
+ * ISO 3166-1 alpha-2 or alpha-3 code, in any letter case
+ */
+export function isCountryCode(value: string): boolean {
+  const code = value.trim().toUpperCase();
+  return ISO_3166_ALPHA2.has(code) || ISO_3166_ALPHA3.has(code);
+}
+
+/**
+ * Range a four-digit merchant category code falls in; undefined when the
+ * value is not one. Numbers whose leading zeros were dropped (742) are padded.
+ */
+export function merchantCategory(value: string | number): string | undefined {
+  const text = typeof value === 'number' && Number.isInteger(value) ? String(value).padStart(4, '0') : String(value).trim();
+  if (!/^\d{4}$/.test(text)) return undefined;
+  const code = Number(text);
+  return MCC_RANGES.find(range => code >= range.from && code <= range.to)?.category;
+}
+
+export function checkCodeFormat(format: CodeFormat, value: string | number | boolean): boolean {
+  switch (format) {
+    case 'luhn': return typeof value !== 'boolean' && passesLuhn(value);
+    case 'iso4217': return typeof value === 'string' && isCurrencyCode(value);
+    case 'iso3166': return typeof value === 'string' && isCountryCode(value);
+    case 'mcc': return typeof value !== 'boolean' && merchantCategory(value) !== undefined;
+  }
+}
+
+/**
+ * Digits after the decimal point as the number would be written
+ */
+export function decimalPlaces(value: number): number {
+  const [mantissa, exponent] = String(Math.abs(value)).split('e');
+  const fraction = mantissa.split('.')[1]?.length ?? 0;
+  return Math.max(0, fraction - Number(exponent ?? 0));
+}
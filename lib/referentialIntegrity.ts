@@ -0,0 +1,361 @@
+/**
+ * Referential Integrity
+ * Checks the dataset's foreign keys against related tables uploaded with
+ * it (merchants, cards, ...). Each reference table is read once and its
+ * key columns are kept as value hashes; the scoring scan then looks every
+ * foreign key up, counting orphans, nulls and how many rows share a key.
+ *
+ * Relationships are declared, or suggested when a column name matches a
+ * reference key: merchant_id pairs with merchants.merchant_id or
+ * merchants.id. Suggestions that most values fail are reported but not
+ * scored, since the names matched by coincidence.
+ */
+
+import type { ParsedRow } from './dqiEngine';
+import { columnMissingRules, type ColumnMissingRules, type MissingValueConfig } from './missingValues';
+import { createDistinctCounter, hashString } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type ExpectedCardinality = 'many-to-one' | 'one-to-one';
+export type Cardinality = ExpectedCardinality | 'one-to-many' | 'many-to-many';
+
+export interface Relationship {
+  column: string; // Foreign key column in the analyzed file
+  table: string; // Reference file name, with or without its extension
+  key: string; // Key column in the reference table
+  cardinality?: ExpectedCardinality; // Default many-to-one: many rows may share one reference row
+}
+
+export interface ReferenceOptions {
+  tables: File[]; // Related tables; any format the analysis reads
+  relationships?: Relationship[];
+  suggest?: boolean; // Suggest relationships from matching column names (default true)
+}
+
+export interface ReferenceTableInfo {
+  name: string; // File name
+  rowCount: number;
+  columns: string[];
+  keyColumns: string[]; // Columns with no repeated value, which suggestions may point at
+}
+
+export interface RelationshipResult {
+  column: string;
+  table: string;
+  key: string;
+  source: 'declared' | 'suggested';
+  expectedCardinality: ExpectedCardinality;
+  observedCardinality: Cardinality;
+  checked: number; // Rows with a foreign key value
+  matched: number;
+  orphans: number; // Rows whose key is not in the reference table
+  nulls: number; // Rows with no foreign key value
+  orphanSamples: string[]; // Truncated SHA-256 hashes of up to five distinct orphan keys; raw keys are never kept
+  parentKeys: number; // Distinct keys in the reference table
+  duplicateParentKeys: number; // Reference keys that appear on more than one row
+  referencedParentKeys: number; // Distinct reference keys used at least once
+  cardinalityViolated: boolean;
+  cardinalityViolations: number; // Rows matching a repeated reference key, plus, for one-to-one, rows repeating an earlier foreign key
+  scored: boolean; // Counts toward integrity
+  approximate?: boolean; // The reference key index hit its size limit, so orphans may be overstated
+  unresolved?: string; // Why the relationship could not be checked
+}
+
+interface KeyIndex {
+  hashes: Set<number>;
+  repeated: Set<number>; // Hashes seen on more than one row
+  truncated: boolean;
+}
+
+export interface ReferenceTable {
+  info: ReferenceTableInfo;
+  keys: Map<string, KeyIndex>;
+}
+
+export interface KeyCollector {
+  observe: (row: ParsedRow) => void;
+  finish: () => ReferenceTable;
+}
+
+export interface ResolvedRelationship {
+  relationship: Relationship;
+  source: RelationshipResult['source'];
+  table?: ReferenceTable; // Absent when the table or one of the columns is unknown
+  unresolved?: string;
+}
+
+export interface RelationshipChecker {
+  observe: (row: ParsedRow) => void;
+  finish: () => Promise<RelationshipResult[]>;
+}
+
+const KEY_INDEX_LIMIT = 1_000_000; // Key hashes kept per reference column
+const CHILD_DISTINCT_LIMIT = 200_000; // Foreign key values counted exactly when checking for repeats
+const ORPHAN_SAMPLE_SIZE = 5;
+const SUGGESTION_MIN_MATCH = 0.5; // Share of values a suggested relationship must match to be scored
+const GENERIC_KEY_NAMES = ['id', 'key', 'code', 'name', 'ref'];
+
+// ============================================================================
+// REFERENCE TABLES
+// ============================================================================
+
+function keyText(value: ParsedRow[string] | undefined, rules: ColumnMissingRules): string | null {
+  if (value === undefined || value === null || rules.classify(value)) return null;
+  return String(value).trim();
+}
+
+/**
+ * Collect key hashes from one reference table. Declared key columns are
+ * always kept; any other column is dropped at its first repeated value,
+ * since it cannot be a key.
+ */
+export function createKeyCollector(
+  name: string,
+  headers: string[],
+  missingValues: MissingValueConfig,
+  declaredKeys: string[]
+): KeyCollector {
+  const columns = headers.map(header => ({
+    header,
+    rules: columnMissingRules(missingValues, header),
+    declared: declaredKeys.includes(header),
+    index: { hashes: new Set<number>(), repeated: new Set<number>(), truncated: false } as KeyIndex | null,
+  }));
+  let rowCount = 0;
+
+  return {
+    observe: (row) => {
+      rowCount++;
+      for (const col of columns) {
+        if (!col.index) continue;
+        const text = keyText(row[col.header], col.rules);
+        if (text === null) continue;
+        const hash = hashString(text);
+        if (col.index.hashes.has(hash)) {
+          if (!col.declared) col.index = null;
+          else col.index.repeated.add(hash);
+        } else if (col.index.hashes.size < KEY_INDEX_LIMIT) {
+          col.index.hashes.add(hash);
+        } else {
+          col.index.truncated = true;
+        }
+      }
+    },
+    finish: () => {
+      const keys = new Map<string, KeyIndex>();
+      for (const col of columns) {
+        if (col.index && col.index.hashes.size > 0) keys.set(col.header, col.index);
+      }
+      return {
+        info: {
+          name,
+          rowCount,
+          columns: headers,
+          keyColumns: columns.filter(c => c.index && c.index.hashes.size > 0 && c.index.repeated.size === 0).map(c => c.header),
+        },
+        keys,
+      };
+    },
+  };
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function tableStem(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '');
+}
+
+function singular(word: string): string {
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tableMatches(fileName: string, name: string): boolean {
+  const lower = name.toLowerCase();
+  return fileName.toLowerCase() === lower || tableStem(fileName).toLowerCase() === lower;
+}
+
+function findReferenceTable(tables: ReferenceTable[], name: string): ReferenceTable | undefined {
+  return tables.find(t => tableMatches(t.info.name, name));
+}
+
+/**
+ * Key columns declared for one reference file; these are indexed even
+ * when their values repeat, so the repeats can be reported
+ */
+export function declaredKeysFor(fileName: string, options: ReferenceOptions): string[] {
+  return (options.relationships ?? []).filter(r => tableMatches(fileName, r.table)).map(r => r.key);
+}
+
+function suggestRelationships(columns: string[], tables: ReferenceTable[], taken: Set<string>): Relationship[] {
+  const suggestions: Relationship[] = [];
+  for (const column of columns) {
+    if (taken.has(column)) continue;
+    const name = normalizeName(column);
+    for (const table of tables) {
+      const entity = normalizeName(singular(tableStem(table.info.name)));
+      const key = table.info.keyColumns.find(k => {
+        const keyName = normalizeName(k);
+        // Generic names such as "id" only match when qualified by the table, e.g. merchant_id -> merchants.id
+        return (keyName === name && !GENERIC_KEY_NAMES.includes(keyName)) || entity + keyName === name;
+      });
+      if (key) {
+        suggestions.push({ column, table: table.info.name, key });
+        break;
+      }
+    }
+  }
+  return suggestions;
+}
+
+/**
+ * Pair declared relationships with their tables and add suggested ones for
+ * columns no declaration covers
+ */
+export function resolveRelationships(
+  columns: string[],
+  tables: ReferenceTable[],
+  options: ReferenceOptions
+): ResolvedRelationship[] {
+  const declared = options.relationships ?? [];
+  const resolved: ResolvedRelationship[] = declared.map(relationship => {
+    const table = findReferenceTable(tables, relationship.table);
+    let unresolved: string | undefined;
+    if (!table) unresolved = `no uploaded table named '${relationship.table}'`;
+    else if (!columns.includes(relationship.column)) unresolved = `column '${relationship.column}' is not in the file`;
+    else if (!table.info.columns.includes(relationship.key)) unresolved = `'${table.info.name}' has no column '${relationship.key}'`;
+    if (unresolved) return { relationship, source: 'declared', unresolved };
+    return { relationship: { ...relationship, table: table!.info.name }, source: 'declared', table };
+  });
+
+  if (options.suggest !== false) {
+    const taken = new Set(declared.map(r => r.column));
+    for (const relationship of suggestRelationships(columns, tables, taken)) {
+      resolved.push({ relationship, source: 'suggested', table: findReferenceTable(tables, relationship.table) });
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Parse "column -> table.key" lines typed into a form field; a trailing
+ * "(one-to-one)" sets the expected cardinality
+ */
+export function parseRelationshipList(text: string): Relationship[] {
+  const relationships: Relationship[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = /^\s*(.+?)\s*->\s*(.+)\.([^.]+?)\s*(?:\(?\s*(many-to-one|one-to-one)\s*\)?)?\s*$/i.exec(line);
+    if (!match) continue;
+    const [, column, table, key, cardinality] = match;
+    relationships.push({
+      column,
+      table: table.trim(),
+      key: key.trim(),
+      cardinality: cardinality ? cardinality.toLowerCase() as ExpectedCardinality : undefined,
+    });
+  }
+  return relationships;
+}
+
+// ============================================================================
+// CHECKING
+// ============================================================================
+
+async function hashKey(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest).slice(0, 8)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function cardinalityOf(childRepeats: boolean, parentRepeats: boolean): Cardinality {
+  return `${childRepeats ? 'many' : 'one'}-to-${parentRepeats ? 'many' : 'one'}` as Cardinality;
+}
+
+/**
+ * Look up every foreign key during the scoring scan. Orphan keys are held
+ * only until finish(), which replaces them with hashes.
+ */
+export function createRelationshipChecker(
+  relationships: ResolvedRelationship[],
+  missingValues: MissingValueConfig
+): RelationshipChecker {
+  const checks = relationships.map(({ relationship, source, table, unresolved }) => ({
+    relationship,
+    source,
+    unresolved,
+    index: table?.keys.get(relationship.key),
+    rules: columnMissingRules(missingValues, relationship.column),
+    checked: 0,
+    matched: 0,
+    nulls: 0,
+    orphanKeys: new Set<string>(),
+    referenced: new Set<number>(),
+    ambiguous: 0, // Rows whose key matches more than one reference row
+    children: createDistinctCounter(CHILD_DISTINCT_LIMIT),
+  }));
+
+  return {
+    observe: (row) => {
+      for (const check of checks) {
+        if (!check.index) continue;
+        const text = keyText(row[check.relationship.column], check.rules);
+        if (text === null) {
+          check.nulls++;
+          continue;
+        }
+        check.checked++;
+        check.children.add(text);
+        const hash = hashString(text);
+        if (check.index.hashes.has(hash)) {
+          check.matched++;
+          check.referenced.add(hash);
+          if (check.index.repeated.has(hash)) check.ambiguous++;
+        } else if (check.orphanKeys.size < ORPHAN_SAMPLE_SIZE) {
+          check.orphanKeys.add(text);
+        }
+      }
+    },
+    finish: async () => {
+      const results: RelationshipResult[] = [];
+      for (const check of checks) {
+        const { relationship, index } = check;
+        const expectedCardinality = relationship.cardinality ?? 'many-to-one';
+        const childRepeats = check.children.duplicateRatio() > 0;
+        const parentRepeats = (index?.repeated.size ?? 0) > 0;
+        const matchRate = check.checked > 0 ? check.matched / check.checked : 0;
+        const childRepeatRows = expectedCardinality === 'one-to-one'
+          ? Math.round(check.checked * check.children.duplicateRatio())
+          : 0;
+
+        results.push({
+          column: relationship.column,
+          table: relationship.table,
+          key: relationship.key,
+          source: check.source,
+          expectedCardinality,
+          observedCardinality: cardinalityOf(childRepeats, parentRepeats),
+          checked: check.checked,
+          matched: check.matched,
+          orphans: check.checked - check.matched,
+          nulls: check.nulls,
+          orphanSamples: await Promise.all(Array.from(check.orphanKeys, hashKey)),
+          parentKeys: index?.hashes.size ?? 0,
+          duplicateParentKeys: index?.repeated.size ?? 0,
+          referencedParentKeys: check.referenced.size,
+          cardinalityViolated: parentRepeats || (expectedCardinality === 'one-to-one' && childRepeats),
+          cardinalityViolations: Math.min(check.checked, check.ambiguous + childRepeatRows),
+          scored: !!index && (check.source === 'declared' || matchRate >= SUGGESTION_MIN_MATCH),
+          approximate: index?.truncated ? true : undefined,
+          unresolved: check.unresolved ?? (index ? undefined : `'${relationship.key}' has no values in '${relationship.table}'`),
+        });
+        check.orphanKeys.clear();
+      }
+      return results;
+    },
+  };
+}
@@ -0,0 +1,305 @@
+/**
+ * Scoring Profiles
+ * Named, versioned sets of the numbers that turn findings into scores:
+ * dimension weights, penalty multipliers, grade cutoffs and compliance
+ * thresholds. A profile is chosen per analysis and copied into the
+ * report's audit trail, so a score can be reproduced from the report alone.
+ *
+ * Profiles are immutable once published: change a number by registering
+ * a new version under the same id, never by editing an existing one.
+ * Analysis runs in a Web Worker with its own copy of this list, so register
+ * profiles in customDimensions.ts, or pass the profile itself as the
+ * analysis' scoringProfile option.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface ScoringPenalties {
+  completeness: number; // Points lost per unit of missing-cell rate
+  consistency: number; // Per unit of inconsistent-cell rate
+  duplicateRows: number; // Per unit of duplicate-row rate
+  duplicateIds: number; // Per unit of non-unique share in each identifier column, when no primary key is confirmed
+  duplicateKeys: number; // Per unit of rows repeating or missing the confirmed primary key
+  validity: number; // Per unit of invalid-cell rate, or of failed rule checks when a rules file is used
+  accuracy: number; // Per unit of inaccurate-cell rate
+  integrity: number; // Per unit of integrity issues per row
+  futureDates: number; // Per unit of future-dated share of dates
+  invalidDates: number; // Per unit of unparseable share of dates
+  staleDates: number; // Per unit of share of dates older than the stale limit (two years by default)
+  slaBreaches: number; // Per unit of share of SLA-checked dates later than their freshness SLA allows
+  periodAnomalies: number; // Per unit of share of time-series periods missing, loaded twice or off their volume baseline
+  mixedTypeRows: number; // Share of rows counted inconsistent for each mixed-type column
+  mixedTypeInaccurateRows: number; // Share of rows counted inaccurate for each mixed-type column
+  multipleFormatRows: number; // Share of rows counted inconsistent for each column written in more than one format
+  caseVariantRows: number; // Rows counted inconsistent per extra case variant of a value ("VISA" vs "visa")
+  incompleteRowIssues: number; // Integrity issues counted per row more than half empty
+  missingCompanionRows: number; // Share of rows counted as integrity issues per missing companion field, e.g. currency for amounts
+  noDatesScore: number; // Timeliness score, before time-series penalties, when no date can be read
+  malformedRowsPerPercent: number; // Composite points per percent of malformed records
+  malformedRowsMax: number; // Cap on the malformed-record penalty
+  unterminatedQuote: number; // Minimum composite penalty when the file ends inside a quoted field
+}
+
+export interface GradeCutoffs {
+  A: number; // Minimum composite score for each grade; anything lower is F
+  B: number;
+  C: number;
+  D: number;
+}
+
+export interface ComplianceThresholds {
+  nonCompliantBelow: number; // Composite score below this is NON_COMPLIANT
+  criticalDimensionBelow: number; // Any applicable dimension below this is NON_COMPLIANT
+  remediationBelow: number; // Composite score below this REQUIRES_REMEDIATION
+  dimensionRemediationBelow: number; // Any applicable dimension below this REQUIRES_REMEDIATION
+}
+
+export interface ScoringProfile {
+  id: string; // e.g. "regulatory-reporting"
+  version: string; // e.g. "1.0.0"; id and version together identify the numbers
+  name: string;
+  description?: string;
+  weights: Record<string, number>; // Dimension id to base weight; unlisted dimensions keep their registered weight
+  penalties: ScoringPenalties;
+  gradeCutoffs: GradeCutoffs;
+  compliance: ComplianceThresholds;
+}
+
+// What callers may pass: a complete profile, or one that only overrides some numbers of the standard profile
+export type ScoringProfileInput = Omit<ScoringProfile, 'penalties' | 'gradeCutoffs' | 'compliance'> & {
+  penalties?: Partial<ScoringPenalties>;
+  gradeCutoffs?: Partial<GradeCutoffs>;
+  compliance?: Partial<ComplianceThresholds>;
+};
+
+export interface ScoringProfileInfo {
+  id: string;
+  version: string;
+  name: string;
+  description?: string;
+}
+
+// ============================================================================
+// BUILT-IN PROFILES
+// ============================================================================
+
+const STANDARD_PROFILE: ScoringProfile = {
+  id: 'standard',
+  version: '1.0.0',
+  name: 'Standard',
+  description: 'Balanced defaults for general transaction data',
+  weights: {},
+  penalties: {
+    completeness: 150,
+    consistency: 500,
+    duplicateRows: 300,
+    duplicateIds: 20,
+    duplicateKeys: 300,
+    validity: 300,
+    accuracy: 300,
+    integrity: 100,
+    futureDates: 150,
+    invalidDates: 100,
+    staleDates: 30,
+    slaBreaches: 100,
+    periodAnomalies: 50,
+    mixedTypeRows: 0.3,
+    mixedTypeInaccurateRows: 0.2,
+    multipleFormatRows: 0.1,
+    caseVariantRows: 5,
+    incompleteRowIssues: 2,
+    missingCompanionRows: 0.1,
+    noDatesScore: 80,
+    malformedRowsPerPercent: 2,
+    malformedRowsMax: 30,
+    unterminatedQuote: 5,
+  },
+  gradeCutoffs: { A: 90, B: 80, C: 70, D: 60 },
+  compliance: {
+    nonCompliantBelow: 50,
+    criticalDimensionBelow: 50,
+    remediationBelow: 70,
+    dimensionRemediationBelow: 60,
+  },
+};
+
+const BUILT_IN_PROFILES: ScoringProfile[] = [
+  STANDARD_PROFILE,
+  {
+    id: 'regulatory-reporting',
+    version: '1.0.0',
+    name: 'Regulatory Reporting',
+    description: 'Strict thresholds for data submitted to regulators; completeness, validity and integrity weigh most',
+    weights: {
+      completeness: 0.25,
+      consistency: 0.10,
+      uniqueness: 0.10,
+      validity: 0.20,
+      timeliness: 0.05,
+      accuracy: 0.15,
+      integrity: 0.15,
+    },
+    penalties: {
+      ...STANDARD_PROFILE.penalties,
+      completeness: 250,
+      duplicateKeys: 450,
+      validity: 450,
+      accuracy: 450,
+      integrity: 150,
+      invalidDates: 150,
+      slaBreaches: 150,
+      periodAnomalies: 75,
+      malformedRowsPerPercent: 3,
+      malformedRowsMax: 40,
+      unterminatedQuote: 10,
+    },
+    gradeCutoffs: { A: 95, B: 90, C: 80, D: 70 },
+    compliance: {
+      nonCompliantBelow: 65,
+      criticalDimensionBelow: 60,
+      remediationBelow: 85,
+      dimensionRemediationBelow: 75,
+    },
+  },
+  {
+    id: 'internal-analytics',
+    version: '1.0.0',
+    name: 'Internal Analytics',
+    description: 'Lenient thresholds for exploratory and dashboard use; freshness and duplicates weigh most',
+    weights: {
+      completeness: 0.15,
+      consistency: 0.10,
+      uniqueness: 0.20,
+      validity: 0.10,
+      timeliness: 0.20,
+      accuracy: 0.15,
+      integrity: 0.10,
+    },
+    penalties: {
+      ...STANDARD_PROFILE.penalties,
+      completeness: 100,
+      consistency: 300,
+      validity: 200,
+      accuracy: 200,
+      staleDates: 10,
+      slaBreaches: 200,
+      periodAnomalies: 100,
+      malformedRowsPerPercent: 1,
+      malformedRowsMax: 20,
+    },
+    gradeCutoffs: { A: 85, B: 75, C: 65, D: 50 },
+    compliance: {
+      nonCompliantBelow: 40,
+      criticalDimensionBelow: 30,
+      remediationBelow: 60,
+      dimensionRemediationBelow: 45,
+    },
+  },
+];
+
+export const DEFAULT_SCORING_PROFILE_ID = STANDARD_PROFILE.id;
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const profiles: ScoringProfile[] = [...BUILT_IN_PROFILES];
+
+function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function checkNumbers(profileId: string, group: string, values: object): void {
+  for (const [key, value] of Object.entries(values)) {
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      throw new Error(`Scoring profile '${profileId}' has an invalid ${group} value for '${key}': ${value}`);
+    }
+  }
+}
+
+/**
+ * Fill a profile's omitted numbers from the standard profile and check it
+ */
+export function validateScoringProfile(input: ScoringProfileInput): ScoringProfile {
+  if (!input.id || !/^[a-z][a-z0-9_-]*$/i.test(input.id)) {
+    throw new Error(`Scoring profile id '${input.id}' must start with a letter and use only letters, digits, '-' or '_'`);
+  }
+  if (!input.version || !/^\d+(\.\d+)*$/.test(input.version)) {
+    throw new Error(`Scoring profile '${input.id}' needs a numeric version such as 1.0.0`);
+  }
+  if (!input.name) throw new Error(`Scoring profile '${input.id}' needs a display name`);
+
+  const profile: ScoringProfile = {
+    id: input.id,
+    version: input.version,
+    name: input.name,
+    description: input.description,
+    weights: { ...(input.weights ?? {}) },
+    penalties: { ...STANDARD_PROFILE.penalties, ...input.penalties },
+    gradeCutoffs: { ...STANDARD_PROFILE.gradeCutoffs, ...input.gradeCutoffs },
+    compliance: { ...STANDARD_PROFILE.compliance, ...input.compliance },
+  };
+  checkNumbers(profile.id, 'weight', profile.weights);
+  checkNumbers(profile.id, 'penalty', profile.penalties);
+  checkNumbers(profile.id, 'grade cutoff', profile.gradeCutoffs);
+  checkNumbers(profile.id, 'compliance threshold', profile.compliance);
+
+  const { A, B, C, D } = profile.gradeCutoffs;
+  if (!(A >= B && B >= C && C >= D)) {
+    throw new Error(`Scoring profile '${profile.id}' grade cutoffs must descend from A to D`);
+  }
+  return profile;
+}
+
+/**
+ * Add a profile, or a new version of one. Published versions cannot be replaced.
+ */
+export function registerScoringProfile(input: ScoringProfileInput): void {
+  const profile = validateScoringProfile(input);
+  if (profiles.some(p => p.id === profile.id && p.version === profile.version)) {
+    throw new Error(`Scoring profile '${profile.id}' version ${profile.version} already exists; register a new version instead`);
+  }
+  profiles.push(profile);
+}
+
+/**
+ * Latest version of every profile, for selection lists
+ */
+export function listScoringProfiles(): ScoringProfileInfo[] {
+  const latest = new Map<string, ScoringProfile>();
+  for (const profile of profiles) {
+    const current = latest.get(profile.id);
+    if (!current || compareVersions(profile.version, current.version) > 0) latest.set(profile.id, profile);
+  }
+  return Array.from(latest.values()).map(({ id, version, name, description }) => ({ id, version, name, description }));
+}
+
+/**
+ * Look up a profile by "id" (latest version) or "id@version"
+ */
+export function getScoringProfile(reference: string): ScoringProfile {
+  const [id, version] = reference.split('@');
+  const matches = profiles.filter(p => p.id === id && (version === undefined || p.version === version));
+  if (matches.length === 0) {
+    throw new Error(version ? `Unknown scoring profile '${id}' version ${version}` : `Unknown scoring profile '${id}'`);
+  }
+  return matches.reduce((a, b) => (compareVersions(b.version, a.version) > 0 ? b : a));
+}
+
+/**
+ * The profile an analysis runs with: a registered reference, a profile
+ * passed inline (e.g. loaded from a governance file), or the standard one
+ */
+export function resolveScoringProfile(selection?: string | ScoringProfileInput): ScoringProfile {
+  if (selection === undefined) return getScoringProfile(DEFAULT_SCORING_PROFILE_ID);
+  if (typeof selection === 'string') return getScoringProfile(selection);
+  return validateScoringProfile(selection);
+}
@@ -0,0 +1,223 @@
+/**
+ * Streaming Statistics
+ * Bounded-memory accumulators for analyzing files row by row without
+ * keeping the rows around.
+ *
+ * Counts are exact up to a fixed limit and switch to estimates beyond it,
+ * so memory stays roughly constant whatever the file size.
+ */
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export interface DistinctCounter {
+  add: (value: string) => void;
+  count: () => number; // Distinct values, scaled up from the hash sample once sampling
+  duplicateRatio: () => number; // Share of values that repeat an earlier value
+  entropy: () => number; // Shannon entropy of the value distribution in bits, estimated once sampling
+  isExact: () => boolean; // False once the counter has started sampling
+}
+
+export interface RunningStats {
+  add: (value: number) => void;
+  count: () => number;
+  min: () => number;
+  max: () => number;
+  mean: () => number;
+  stdDev: () => number; // Population standard deviation
+}
+
+export interface FrequentValue {
+  value: string;
+  count: number; // Lower bound once the tracker has pruned
+}
+
+export interface TopValues {
+  add: (value: string) => void;
+  top: (n: number) => FrequentValue[]; // Most frequent first
+  isExact: () => boolean; // False once rarer values have been pruned
+}
+
+export interface Reservoir {
+  add: (value: number) => void;
+  seen: () => number;
+  isComplete: () => boolean; // True while every value seen is still held
+  sorted: () => number[];
+}
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * 53-bit string hash (cyrb53). Used as a compact stand-in for row and cell
+ * values so that sets hold numbers instead of raw data.
+ */
+export function hashString(value: string, seed = 0): number {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+// ============================================================================
+// ACCUMULATORS
+// ============================================================================
+
+/**
+ * Count distinct values exactly (as hashes) up to exactLimit, then keep
+ * only the hashes in a shrinking 1/2^level slice of the hash space.
+ * Repeats of a value always share its hash, so the duplicate ratio of the
+ * slice is an unbiased estimate and a column without repeats stays at 0.
+ */
+export function createDistinctCounter(exactLimit: number): DistinctCounter {
+  const counts = new Map<number, number>();
+  let level = 0;
+  let sampledValues = 0;
+
+  return {
+    add: (value) => {
+      const hash = hashString(value);
+      if (hash % Math.pow(2, level) !== 0) return;
+      counts.set(hash, (counts.get(hash) || 0) + 1);
+      sampledValues++;
+
+      while (counts.size > exactLimit) {
+        level++;
+        const modulus = Math.pow(2, level);
+        for (const [key, count] of counts) {
+          if (key % modulus !== 0) {
+            counts.delete(key);
+            sampledValues -= count;
+          }
+        }
+      }
+    },
+    count: () => counts.size * Math.pow(2, level),
+    duplicateRatio: () => (sampledValues > 0 ? 1 - counts.size / sampledValues : 0),
+    entropy: () => {
+      let bits = 0;
+      for (const count of counts.values()) {
+        const p = count / sampledValues;
+        bits -= p * Math.log2(p);
+      }
+      // The slice holds 1/2^level of the distinct values, each about as frequent as the rest
+      return sampledValues > 0 ? bits + level : 0;
+    },
+    isExact: () => level === 0,
+  };
+}
+
+/**
+ * Most frequent values. Counts are exact until more than twice the
+ * capacity of distinct values have been seen; the rarest are then pruned
+ * down to the capacity, so values that keep recurring stay tracked.
+ */
+export function createTopValues(capacity: number): TopValues {
+  const counts = new Map<string, number>();
+  let pruned = false;
+
+  return {
+    add: (value) => {
+      counts.set(value, (counts.get(value) || 0) + 1);
+      if (counts.size > capacity * 2) {
+        const kept = Array.from(counts).sort((a, b) => b[1] - a[1]).slice(0, capacity);
+        counts.clear();
+        for (const [key, count] of kept) counts.set(key, count);
+        pruned = true;
+      }
+    },
+    top: (n) => Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, n),
+    isExact: () => !pruned,
+  };
+}
+
+/**
+ * Min, max, mean and standard deviation in one pass (Welford's method)
+ */
+export function createRunningStats(): RunningStats {
+  let n = 0;
+  let mean = 0;
+  let m2 = 0;
+  let min = Infinity;
+  let max = -Infinity;
+
+  return {
+    add: (value) => {
+      n++;
+      const delta = value - mean;
+      mean += delta / n;
+      m2 += delta * (value - mean);
+      if (value < min) min = value;
+      if (value > max) max = value;
+    },
+    count: () => n,
+    min: () => (n > 0 ? min : 0),
+    max: () => (n > 0 ? max : 0),
+    mean: () => mean,
+    stdDev: () => (n > 0 ? Math.sqrt(m2 / n) : 0),
+  };
+}
+
+/**
+ * Fixed-size uniform sample of a numeric stream (Algorithm R). A seeded
+ * generator keeps the sample, and so the report, reproducible for a file.
+ */
+export function createReservoir(capacity: number, seed = 0x9e3779b9): Reservoir {
+  const values: number[] = [];
+  let seen = 0;
+  let state = seed >>> 0 || 1;
+
+  const nextRandom = () => {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+
+  return {
+    add: (value) => {
+      seen++;
+      if (values.length < capacity) {
+        values.push(value);
+        return;
+      }
+      const slot = Math.floor(nextRandom() * seen);
+      if (slot < capacity) values[slot] = value;
+    },
+    seen: () => seen,
+    isComplete: () => seen <= capacity,
+    sorted: () => [...values].sort((a, b) => a - b),
+  };
+}
+
+/**
+ * Linear-interpolated quantile (0-1) of an ascending array
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.ceil(position);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+/**
+ * Median of an ascending array
+ */
+export function medianOf(sorted: number[]): number {
+  if (sorted.length === 0) return 0;
+  return sorted.length % 2 === 0
+    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+    : sorted[Math.floor(sorted.length / 2)];
+}
@@ -0,0 +1,377 @@
+/**
+ * Time-Series Completeness
+ * Buckets rows by a chosen date column into hours, days, weeks or months
+ * and checks the feed as a series: periods with no rows at all (a missing
+ * day), periods loaded twice (most of their rows repeat), and periods
+ * whose row count or amount total moves sharply away from the rolling
+ * baseline (a 40% drop in hourly volume).
+ *
+ * Rows are counted into hourly buckets during the scoring scan; the
+ * granularity is settled afterwards from the span of the data. Hours are
+ * compared with the same hour on previous days, longer periods with the
+ * periods just before them. The first and last periods are usually
+ * partial and are not checked for volume.
+ */
+
+import type { ColumnSchema, ParsedRow } from './dqiEngine';
+import { createDateParser, type DateOrder } from './dateParsing';
+import { columnMissingRules, type MissingValueConfig } from './missingValues';
+import { medianOf } from './streamingStats';
+
+// ============================================================================
+// TYPES & INTERFACES
+// ============================================================================
+
+export type TimeGranularity = 'hour' | 'day' | 'week' | 'month';
+
+export interface TimeSeriesOptions {
+  column: string; // Date column rows are bucketed by
+  granularity?: TimeGranularity | 'auto'; // Default: the finest that fits the span of the data
+  amountColumn?: string; // Totals per period checked as well as row counts; default the pack's first amount column
+  threshold?: number; // Relative change from the baseline that counts as an anomaly (default 0.4)
+  window?: number; // Earlier periods the rolling baseline is the median of (default 7)
+}
+
+export type PeriodFlag = 'missing' | 'duplicate' | 'volume' | 'amount';
+
+export interface TimeSeriesPeriod {
+  start: string; // ISO 8601, UTC
+  rows: number;
+  amount?: number; // Total of the amount column
+  baseline?: number; // Rolling median of earlier row counts
+  amountBaseline?: number;
+  duplicateRows: number; // Rows repeating an earlier row of the file
+  flags?: PeriodFlag[];
+}
+
+export interface TimeSeriesGap {
+  from: string; // Start of the first missing period
+  to: string; // Start of the last missing period
+  periods: number;
+}
+
+export interface TimeSeriesResult {
+  column: string;
+  granularity: TimeGranularity;
+  amountColumn?: string;
+  threshold: number; // Relative change from the baseline periods were flagged at
+  periods: TimeSeriesPeriod[]; // Every period from the first to the last, missing ones included
+  gaps: TimeSeriesGap[];
+  missingPeriods: number;
+  duplicatePeriods: number;
+  volumeAnomalies: number;
+  amountAnomalies: number;
+  undated: number; // Rows whose date is missing or unreadable
+  outOfRange: number; // Rows left out: dated far outside the bulk of the series (likely typos) or before the latest periods kept
+  coarsened?: boolean; // The granularity asked for gave too many periods
+  truncated?: boolean; // Even months were too many, so only the latest periods were kept
+  approximateDuplicates?: boolean; // Repeated rows stopped being tracked past the hash budget
+}
+
+export interface TimeSeriesTracker {
+  observe: (row: ParsedRow) => void;
+  finish: () => TimeSeriesResult;
+}
+
+const GRANULARITIES: TimeGranularity[] = ['hour', 'day', 'week', 'month'];
+const DEFAULT_THRESHOLD = 0.4;
+const DEFAULT_WINDOW = 7;
+const MIN_BASELINE = 3; // Earlier periods needed before a period is checked for volume
+const MAX_PERIODS = 1_000; // Periods kept in the report; coarser granularities are used past this, then only the latest periods
+const AUTO_HOURLY_SPAN = 14 * 24; // Hours of data below which timestamped series are bucketed by hour
+const HOUR_BUCKET_LIMIT = 500_000; // Distinct hours tracked; later new hours count as out of range
+const ROW_HASH_BUDGET = 500_000; // Row hashes held to find repeated rows
+const DUPLICATE_PERIOD_SHARE = 0.5; // Share of a period's rows repeating earlier rows that marks it loaded twice
+const RANGE_TRIM = 0.001; // Share of rows at each end that may be dropped as outlying dates
+const RANGE_QUANTILE = 0.05; // Rows at each end left out when measuring the bulk of the series
+const RANGE_FENCE = 1; // Spans of the bulk a date may lie beyond it before it is out of range
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Check the settings before any reading starts; a column the file turns
+ * out not to have is reported by timeliness
+ */
+export function validateTimeSeriesOptions(options: TimeSeriesOptions | undefined): void {
+  if (!options) return;
+  if (!options.column.trim()) throw new Error('Time-series column is empty');
+  if (options.granularity && options.granularity !== 'auto' && !GRANULARITIES.includes(options.granularity)) {
+    throw new Error(`Unknown time-series granularity '${options.granularity}'; use auto, ${GRANULARITIES.join(', ')}`);
+  }
+  if (options.threshold !== undefined && !(options.threshold > 0)) {
+    throw new Error(`Time-series anomaly threshold must be above 0, got ${options.threshold}`);
+  }
+  if (options.window !== undefined && !(Number.isInteger(options.window) && options.window >= MIN_BASELINE)) {
+    throw new Error(`Time-series baseline window must be a whole number of at least ${MIN_BASELINE} periods, got ${options.window}`);
+  }
+}
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+/**
+ * Start of the period an hour falls in, as a period index
+ */
+function periodIndex(hour: number, granularity: TimeGranularity): number {
+  switch (granularity) {
+    case 'hour': return hour;
+    case 'day': return Math.floor(hour / 24);
+    // 1970-01-01 was a Thursday; weeks start on Monday
+    case 'week': return Math.floor((Math.floor(hour / 24) + 3) / 7);
+    case 'month': {
+      const date = new Date(hour * HOUR_MS);
+      return date.getUTCFullYear() * 12 + date.getUTCMonth();
+    }
+  }
+}
+
+function periodStart(index: number, granularity: TimeGranularity): Date {
+  switch (granularity) {
+    case 'hour': return new Date(index * HOUR_MS);
+    case 'day': return new Date(index * DAY_MS);
+    case 'week': return new Date((index * 7 - 3) * DAY_MS);
+    case 'month': return new Date(Date.UTC(Math.floor(index / 12), index % 12, 1));
+  }
+}
+
+/**
+ * Short label for a period start, e.g. "2025-01-31 14:00", "2025-01-31" or "2025-01"
+ */
+export function describePeriod(start: string, granularity: TimeGranularity): string {
+  switch (granularity) {
+    case 'hour': return `${start.substring(0, 10)} ${start.substring(11, 16)}`;
+    case 'day': return start.substring(0, 10);
+    case 'week': return `week of ${start.substring(0, 10)}`;
+    case 'month': return start.substring(0, 7);
+  }
+}
+
+function choosePeriods(
+  firstHour: number,
+  lastHour: number,
+  asked: TimeGranularity | 'auto',
+  hasTime: boolean
+): { granularity: TimeGranularity; coarsened: boolean } {
+  const count = (g: TimeGranularity) => periodIndex(lastHour, g) - periodIndex(firstHour, g) + 1;
+  if (asked === 'auto') {
+    const finest = hasTime && lastHour - firstHour < AUTO_HOURLY_SPAN ? 'hour' : 'day';
+    const granularity = GRANULARITIES.slice(GRANULARITIES.indexOf(finest)).find(g => count(g) <= MAX_PERIODS) ?? 'month';
+    return { granularity, coarsened: false };
+  }
+  const granularity = GRANULARITIES.slice(GRANULARITIES.indexOf(asked)).find(g => count(g) <= MAX_PERIODS) ?? 'month';
+  return { granularity, coarsened: granularity !== asked };
+}
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+/**
+ * Hours within the fences around the bulk of the series: the span holding
+ * all but the first and last few percent of rows, widened by that span
+ * again on each side. A lone typo such as 1925 in a year of daily rows
+ * falls outside, however small the file.
+ */
+function fenceHours(sorted: number[], rowsAt: (hour: number) => number): number[] {
+  if (sorted.length < 3) return sorted;
+  const total = sorted.reduce((sum, hour) => sum + rowsAt(hour), 0);
+  const hourAt = (share: number) => {
+    let seen = 0;
+    for (const hour of sorted) {
+      seen += rowsAt(hour);
+      if (seen > total * share) return hour;
+    }
+    return sorted[sorted.length - 1];
+  };
+  const low = hourAt(RANGE_QUANTILE);
+  const high = hourAt(1 - RANGE_QUANTILE);
+  const spread = Math.max(high - low, 24);
+  return sorted.filter(hour => hour >= low - spread * RANGE_FENCE && hour <= high + spread * RANGE_FENCE);
+}
+
+interface HourBucket {
+  rows: number;
+  amount: number;
+  duplicates: number;
+}
+
+/**
+ * Bucket rows during the scoring scan
+ *
+ * @param rowHash Hash of a whole row, used to find rows repeated within a period
+ */
+export function createTimeSeriesTracker(
+  options: TimeSeriesOptions,
+  column: ColumnSchema,
+  amountColumn: ColumnSchema | undefined,
+  missingValues: MissingValueConfig,
+  dateOrder: DateOrder,
+  rowHash: (row: ParsedRow) => number
+): TimeSeriesTracker {
+  const rules = columnMissingRules(missingValues, column.name);
+  const amountRules = amountColumn ? columnMissingRules(missingValues, amountColumn.name) : null;
+  const parse = createDateParser(column.dateFormat, dateOrder);
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const window = options.window ?? DEFAULT_WINDOW;
+  const hours = new Map<number, HourBucket>();
+  const seenRows = new Set<number>();
+  let undated = 0;
+  let overflow = 0;
+  let hashBudgetReached = false;
+
+  return {
+    observe: (row) => {
+      const value = row[column.name];
+      const date = typeof value === 'string' && !rules.classify(value) ? parse(value) : null;
+      if (!date) {
+        undated++;
+        return;
+      }
+      const hour = Math.floor(date.getTime() / HOUR_MS);
+      let bucket = hours.get(hour);
+      if (!bucket) {
+        if (hours.size >= HOUR_BUCKET_LIMIT) {
+          overflow++;
+          return;
+        }
+        bucket = { rows: 0, amount: 0, duplicates: 0 };
+        hours.set(hour, bucket);
+      }
+      bucket.rows++;
+      if (amountColumn && amountRules) {
+        const amount = row[amountColumn.name];
+        if (typeof amount === 'number' && !amountRules.classify(amount)) bucket.amount += amount;
+      }
+      const hash = rowHash(row);
+      if (seenRows.has(hash)) bucket.duplicates++;
+      else if (seenRows.size < ROW_HASH_BUDGET) seenRows.add(hash);
+      else hashBudgetReached = true;
+    },
+    finish: () => {
+      // Dates far from the bulk of the series are typos, not a years-long gap
+      const sorted = fenceHours(Array.from(hours.keys()).sort((a, b) => a - b), hour => hours.get(hour)!.rows);
+      const total = sorted.reduce((sum, hour) => sum + hours.get(hour)!.rows, 0);
+      let firstHour = sorted[0] ?? 0;
+      let lastHour = sorted[sorted.length - 1] ?? 0;
+      for (let i = 0, seen = 0; i < sorted.length; i++) {
+        seen += hours.get(sorted[i])!.rows;
+        if (seen > total * RANGE_TRIM) {
+          firstHour = sorted[i];
+          break;
+        }
+      }
+      for (let i = sorted.length - 1, seen = 0; i >= 0; i--) {
+        seen += hours.get(sorted[i])!.rows;
+        if (seen > total * RANGE_TRIM) {
+          lastHour = sorted[i];
+          break;
+        }
+      }
+
+      const { granularity, coarsened } = choosePeriods(firstHour, lastHour, options.granularity ?? 'auto', column.dateFormat?.hasTime ?? false);
+      const lastIndex = periodIndex(lastHour, granularity);
+      // Past the period limit only the most recent periods are kept
+      const truncated = lastIndex - periodIndex(firstHour, granularity) + 1 > MAX_PERIODS;
+      const firstIndex = truncated ? lastIndex - MAX_PERIODS + 1 : periodIndex(firstHour, granularity);
+      const periods: TimeSeriesPeriod[] = [];
+      for (let index = firstIndex; sorted.length > 0 && index <= lastIndex; index++) {
+        periods.push({
+          start: periodStart(index, granularity).toISOString(),
+          rows: 0,
+          amount: amountColumn ? 0 : undefined,
+          duplicateRows: 0,
+        });
+      }
+      let outOfRange = overflow;
+      for (const [hour, bucket] of hours) {
+        const period = hour < firstHour || hour > lastHour ? undefined : periods[periodIndex(hour, granularity) - firstIndex];
+        if (!period) {
+          outOfRange += bucket.rows;
+          continue;
+        }
+        period.rows += bucket.rows;
+        period.duplicateRows += bucket.duplicates;
+        if (period.amount !== undefined) period.amount += bucket.amount;
+      }
+
+      // Hours against the same hour on earlier days, longer periods against the ones just before
+      const lag = granularity === 'hour' ? 24 : 1;
+      const baselineOf = (i: number, value: (p: TimeSeriesPeriod) => number | undefined): number | undefined => {
+        const earlier: number[] = [];
+        for (let j = i - lag; j >= 0 && earlier.length < window; j -= lag) {
+          const v = value(periods[j]);
+          if (periods[j].rows > 0 && v !== undefined) earlier.push(v);
+        }
+        return earlier.length >= MIN_BASELINE ? medianOf(earlier.sort((a, b) => a - b)) : undefined;
+      };
+      const deviates = (v: number, baseline: number | undefined) =>
+        baseline !== undefined && baseline > 0 && Math.abs(v - baseline) / baseline >= threshold;
+
+      const gaps: TimeSeriesGap[] = [];
+      let missingPeriods = 0;
+      let duplicatePeriods = 0;
+      let volumeAnomalies = 0;
+      let amountAnomalies = 0;
+      periods.forEach((period, i) => {
+        const flags: PeriodFlag[] = [];
+        if (period.rows === 0) {
+          flags.push('missing');
+          missingPeriods++;
+          const last = gaps[gaps.length - 1];
+          if (last && periods[i - 1]?.rows === 0) {
+            last.to = period.start;
+            last.periods++;
+          } else {
+            gaps.push({ from: period.start, to: period.start, periods: 1 });
+          }
+        } else {
+          if (period.duplicateRows >= period.rows * DUPLICATE_PERIOD_SHARE) {
+            flags.push('duplicate');
+            duplicatePeriods++;
+          }
+          if (i > 0 && i < periods.length - 1) {
+            period.baseline = baselineOf(i, p => p.rows);
+            if (deviates(period.rows, period.baseline)) {
+              flags.push('volume');
+              volumeAnomalies++;
+            }
+            if (period.amount !== undefined) {
+              period.amountBaseline = baselineOf(i, p => p.amount);
+              if (deviates(period.amount, period.amountBaseline)) {
+                flags.push('amount');
+                amountAnomalies++;
+              }
+            }
+          }
+        }
+        if (period.amount !== undefined) period.amount = Math.round(period.amount * 100) / 100;
+        if (period.amountBaseline !== undefined) period.amountBaseline = Math.round(period.amountBaseline * 100) / 100;
+        if (flags.length > 0) period.flags = flags;
+      });
+
+      return {
+        column: column.name,
+        granularity,
+        amountColumn: amountColumn?.name,
+        threshold,
+        periods,
+        gaps,
+        missingPeriods,
+        duplicatePeriods,
+        volumeAnomalies,
+        amountAnomalies,
+        undated,
+        outOfRange,
+        coarsened: coarsened || undefined,
+        truncated: truncated || undefined,
+        approximateDuplicates: hashBudgetReached || undefined,
+      };
+    },
+  };
+}
@@ -1,3 +1,21 @@
+import type { BusinessRuleResult } from '../lib/businessRules';
+import type { CandidateKeyDiscovery, PrimaryKeyCheck } from '../lib/candidateKeys';
+import type { RuleResult } from '../lib/columnRules';
+import type { ReferenceTableInfo, RelationshipResult } from '../lib/referentialIntegrity';
+import type { CSVParseStats } from '../lib/csvParser';
+import type { DialectInfo } from '../lib/dialectDetection';
+import type { FunctionalDependencyResult } from '../lib/functionalDependencies';
+import type { WorkbookInfo } from '../lib/excelReader';
+import type { JSONIngestInfo } from '../lib/jsonReader';
+import type { ParquetInfo } from '../lib/parquetReader';
+import type { DateFormatInfo } from '../lib/dateParsing';
+import type { FreshnessResult } from '../lib/freshness';
+import type { LengthStatistics, NumericStatistics, ProcessingInfo, StructuralValidity, TopValuesInfo } from '../lib/dqiEngine';
+import type { MissingValueConfig, MissingValueCounts } from '../lib/missingValues';
+import type { NearDuplicateConfig, NearDuplicateSummary } from '../lib/nearDuplicates';
+import type { TimeSeriesResult } from '../lib/timeSeries';
+import type { CurrencyInfo, NumberFormatInfo } from '../lib/numberParsing';
+
 export type Role = 'admin' | 'analyst' | 'auditor';
 
 export interface DimensionScore {
@@ -5,6 +23,11 @@ export interface DimensionScore {
   name: string;
   score: number; // 0-100
   explanation: string;
+  findings?: string[];
+  impactedColumns?: string[];
+  custom?: boolean; // Registered through the dimension registry rather than built in
+  freshness?: FreshnessResult; // Timeliness only: latency distribution and SLA breaches per date column
+  timeSeries?: TimeSeriesResult; // Timeliness only: rows per period when a time-series column was chosen
 }
 
 export interface Recommendation {
@@ -20,6 +43,13 @@ export interface ColumnStat {
   completeness: number;
   uniqueCount: number;
   dataType: string;
+  missing?: MissingValueCounts;
+  currency?: CurrencyInfo;
+  dateFormat?: DateFormatInfo;
+  statistics?: NumericStatistics;
+  topValues?: TopValuesInfo;
+  lengths?: LengthStatistics;
+  entropy?: number;
 }
 
 // API Response from webhook
@@ -50,12 +80,30 @@ export interface DQSummary {
     fileName?: string;
     duplicates?: number;
     columnStats?: ColumnStat[];
+    parsing?: CSVParseStats;
+    dialect?: DialectInfo;
+    workbook?: WorkbookInfo;
+    json?: JSONIngestInfo;
+    parquet?: ParquetInfo;
+    processing?: ProcessingInfo;
+    missingValueRules?: MissingValueConfig;
+    numberFormat?: NumberFormatInfo;
   };
+  structuralValidity?: StructuralValidity; // Missing on reports stored before it existed
+  validationRules?: { name?: string; results: RuleResult[] }; // Present when a rules file was attached
+  businessRules?: BusinessRuleResult[]; // Cross-column rules from the rules file, across consistency and integrity
+  referentialIntegrity?: { tables: ReferenceTableInfo[]; relationships: RelationshipResult[] }; // Present when related tables were uploaded
+  keys?: { discovery: CandidateKeyDiscovery; primaryKey?: PrimaryKeyCheck }; // Missing on reports stored before key discovery existed
+  functionalDependencies?: FunctionalDependencyResult; // Present when consistency was scored
+  nearDuplicates?: { summary: NearDuplicateSummary; config?: NearDuplicateConfig }; // Present when near-duplicate detection ran
+  timeSeries?: TimeSeriesResult; // Present when a time-series column was chosen and timeliness was scored
+  domainPack?: { name: string; version: string; description?: string }; // Missing on reports stored before domain packs existed
   audit: {
     hash: string;
     evaluatedAt: string;
     policies: string[];
     modelVersion: string;
+    scoringProfile?: string; // "Name vX.Y.Z"; missing on reports stored before profiles existed
   };
   // New fields from API
   qualityGrade?: string;